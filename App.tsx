@@ -1,23 +1,180 @@
 // prettier-ignore
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import Header from './components/Header';
 import ModeSwitcher from './components/ModeSwitcher';
 import EvaluationForm from './components/EvaluationForm';
 import FeedbackDisplay from './components/FeedbackDisplay';
 import SpeakingInterface from './components/SpeakingInterface'; // New import
-import { getEvaluation } from './services/geminiService';
-import { WritingFeedback, SpeakingFeedback, EvaluationType } from './types';
+import ProfileSelector from './components/ProfileSelector';
+import HistoryPage from './components/HistoryPage';
+import ProgressDashboard from './components/ProgressDashboard';
+import TeacherClassView from './components/TeacherClassView';
+import LevelSelector from './components/LevelSelector';
+import TaskPicker from './components/TaskPicker';
+import SpeakingActivitySwitcher from './components/SpeakingActivitySwitcher';
+import ReadAloudPractice from './components/ReadAloudPractice';
+import ReadingResultsPanel from './components/ReadingResultsPanel';
+import MistakeNotebook from './components/MistakeNotebook';
+import WordBank from './components/WordBank';
+import PracticeMode from './components/PracticeMode';
+import { getEvaluation } from './services/evaluationService';
+import { ApiErrorCode, API_ERROR_DESCRIPTIONS, toApiError } from './services/apiErrors';
+import {
+  listProfiles,
+  createProfile,
+  saveEvaluation,
+  saveSessionReport,
+  saveTurnRecordings,
+  saveMistakeCards,
+  saveToWordBank,
+  savePracticeResult,
+  getActiveProfileId,
+  setActiveProfileId as persistActiveProfileId,
+} from './services/historyStore';
+import { DEFAULT_LEVEL_ID, levelIdForGrade } from './services/learnerLevels';
+import { loadRewards, awardFeedback, awardConversation } from './services/rewardService';
+import { buildMistakeCards } from './utils/mistakeCards';
+import { exerciseSourceFor } from './utils/exercises';
+import { WritingFeedback, SpeakingFeedback, EvaluationType, AppMode, LearnerProfile, LearnerLevelId, WritingTask, SessionReport, TurnRecording, TurnAudio, SpeakingActivity, ReadingResult, RewardState, RewardEvent, ExerciseSource, ExerciseAnswer } from './types';
+
+type AppView = 'coach' | 'history' | 'progress' | 'notebook' | 'words';
+
+// The latest reward and what earned it, so it is only shown next to that feedback.
+interface EarnedReward {
+  source: WritingFeedback | SpeakingFeedback | SessionReport;
+  reward: RewardEvent;
+}
+
+const viewButtonClass = 'py-2 px-4 bg-indigo-100 text-indigo-700 font-semibold rounded-full hover:bg-indigo-200';
 
 function App() {
-  const [activeMode, setActiveMode] = useState<EvaluationType>('writing');
+  const [activeMode, setActiveMode] = useState<AppMode>('writing');
   const [writingFeedback, setWritingFeedback] = useState<WritingFeedback | null>(null);
+  const [writingInput, setWritingInput] = useState<string>('');
   const [speakingFeedback, setSpeakingFeedback] = useState<SpeakingFeedback | null>(null);
+  const [speakingAudio, setSpeakingAudio] = useState<TurnAudio | null>(null); // The recording `speakingFeedback` was marked from
+  const lastTurnAudioRef = useRef<TurnAudio | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<ApiErrorCode | null>(null); // Set when `error` came from an AI request
+  const [view, setView] = useState<AppView>('coach');
+  const [profiles, setProfiles] = useState<LearnerProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(getActiveProfileId());
+
+  const [learnerLevel, setLearnerLevel] = useState<LearnerLevelId>(DEFAULT_LEVEL_ID);
+  const [bilingual, setBilingual] = useState<boolean>(false);
+  const [selectedTask, setSelectedTask] = useState<WritingTask | null>(null);
+  const [essayMode, setEssayMode] = useState<boolean>(false);
+  const [speakingActivity, setSpeakingActivity] = useState<SpeakingActivity>('conversation');
+  const [readingResult, setReadingResult] = useState<ReadingResult | null>(null);
+  const [rewards, setRewards] = useState<RewardState | null>(null);
+  const [lastReward, setLastReward] = useState<EarnedReward | null>(null);
+  const [sessionSources, setSessionSources] = useState<ExerciseSource[]>([]);
+  const [isStreaming, setIsStreaming] = useState<boolean>(false);
+  const writingAbortRef = useRef<AbortController | null>(null);
+
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? null;
+
+  // Pitch feedback at the selected student's grade; it can still be changed by hand afterwards.
+  useEffect(() => {
+    if (activeProfile) {
+      setLearnerLevel(levelIdForGrade(activeProfile.gradeLevel));
+    }
+  }, [activeProfile?.id, activeProfile?.gradeLevel]);
+
+  const refreshProfiles = useCallback(() => {
+    listProfiles()
+      .then(setProfiles)
+      .catch(err => console.error('Failed to load profiles:', err));
+  }, []);
+
+  useEffect(() => {
+    refreshProfiles();
+  }, [refreshProfiles]);
+
+  useEffect(() => {
+    setRewards(null);
+    setLastReward(null);
+    if (!activeProfileId) return;
+    loadRewards(activeProfileId)
+      .then(setRewards)
+      .catch(err => console.error('Failed to load rewards:', err));
+  }, [activeProfileId]);
+
+  // An award can finish after another student was selected; it is saved but not shown then.
+  const activeProfileIdRef = useRef(activeProfileId);
+  activeProfileIdRef.current = activeProfileId;
+  const showReward = useCallback((state: RewardState, reward: RewardEvent, source: EarnedReward['source']) => {
+    if (state.profileId !== activeProfileIdRef.current) return;
+    setRewards(state);
+    setLastReward({ source, reward });
+  }, []);
+
+  const handleSelectProfile = useCallback((profileId: string | null) => {
+    setActiveProfileId(profileId);
+    persistActiveProfileId(profileId);
+    if (!profileId) setView('coach');
+  }, []);
+
+  const handleCreateProfile = useCallback(async (details: Pick<LearnerProfile, 'name' | 'className' | 'gradeLevel'>) => {
+    try {
+      const profile = await createProfile(details);
+      setProfiles(prev => [...prev, profile].sort((a, b) => a.name.localeCompare(b.name)));
+      handleSelectProfile(profile.id);
+    } catch (err: any) {
+      console.error('Failed to create profile:', err);
+      setError(err.message || 'Could not save the new student.');
+    }
+  }, [handleSelectProfile]);
+
+  // Saving history should never get in the way of showing feedback, so failures are only logged.
+  // Every result goes into the history, including one reused from the evaluation cache. When the
+  // same student gets a reused result again, its mistakes and points are not counted twice.
+  const recordEvaluation = useCallback((type: EvaluationType, input: string, feedback: WritingFeedback | SpeakingFeedback) => {
+    if (!activeProfileId) return;
+    saveEvaluation(activeProfileId, type, input, feedback)
+      .catch(err => console.error('Failed to save evaluation:', err));
+    saveToWordBank(activeProfileId, feedback.vocabularyItems ?? [])
+      .catch(err => console.error('Failed to save words:', err));
+    if (feedback.alreadyRecorded) return;
+    if (type === 'writing') {
+      saveMistakeCards(buildMistakeCards(activeProfileId, input, feedback as WritingFeedback))
+        .catch(err => console.error('Failed to save mistake cards:', err));
+    }
+    awardFeedback(activeProfileId, type, feedback)
+      .then(({ state, reward }) => showReward(state, reward, feedback))
+      .catch(err => console.error('Failed to save rewards:', err));
+  }, [activeProfileId, showReward]);
+
+  const recordSessionReport = useCallback((report: SessionReport) => {
+    if (!report.profileId) return;
+    saveSessionReport(report)
+      .catch(err => console.error('Failed to save session report:', err));
+    awardConversation(report.profileId, report)
+      .then(({ state, reward }) => showReward(state, reward, report))
+      .catch(err => console.error('Failed to save rewards:', err));
+  }, [showReward]);
+
+  const recordPractice = useCallback((answers: ExerciseAnswer[]) => {
+    if (!activeProfileId) return;
+    savePracticeResult(activeProfileId, learnerLevel, answers)
+      .catch(err => console.error('Failed to save practice result:', err));
+  }, [activeProfileId, learnerLevel]);
+
+  const recordTurnAudio = useCallback((recordings: TurnRecording[]) => {
+    // Kept so the coach's reply can be played next to the feedback on the student's part.
+    const audioFor = (role: TurnRecording['role']) => recordings.find(recording => recording.role === role)?.audio ?? null;
+    lastTurnAudioRef.current = { student: audioFor('student'), coach: audioFor('coach') };
+    if (!activeProfileId) return;
+    saveTurnRecordings(recordings)
+      .catch(err => console.error('Failed to save turn recordings:', err));
+  }, [activeProfileId]);
 
   const handleClearFeedback = useCallback(() => {
     setWritingFeedback(null);
     setSpeakingFeedback(null);
+    setSpeakingAudio(null);
+    setReadingResult(null);
   }, []);
 
   const handleSetLoading = useCallback((loading: boolean) => {
@@ -26,91 +183,291 @@ function App() {
 
   const handleSetError = useCallback((err: string | null) => {
     setError(err);
+    setErrorCode(null);
   }, []);
 
-  const handleModeChange = useCallback((mode: EvaluationType) => {
+  // A failed AI request is explained to the student by its error code; the details go to the console.
+  const handleApiError = useCallback((err: unknown) => {
+    const { code } = toApiError(err);
+    setError(API_ERROR_DESCRIPTIONS[code].message);
+    setErrorCode(code);
+  }, []);
+
+  const handleSpeakingActivityChange = useCallback((activity: SpeakingActivity) => {
+    setSpeakingActivity(activity);
+    handleSetError(null);
+    handleClearFeedback();
+  }, [handleClearFeedback, handleSetError]);
+
+  // Abandons the writing evaluation in flight, e.g. because the student changed their text.
+  const cancelWritingEvaluation = useCallback(() => {
+    if (!writingAbortRef.current) return;
+    writingAbortRef.current.abort();
+    writingAbortRef.current = null;
+    setWritingFeedback(null);
+    setIsStreaming(false);
+    setIsLoading(false);
+  }, []);
+
+  const handleModeChange = useCallback((mode: AppMode) => {
+    cancelWritingEvaluation();
     setActiveMode(mode);
-    setError(null); // Clear errors when changing mode
+    handleSetError(null); // Clear errors when changing mode
     handleClearFeedback(); // Clear feedback when changing mode
-  }, [handleClearFeedback]);
+  }, [handleClearFeedback, handleSetError, cancelWritingEvaluation]);
 
   // For Writing Coach
-  const handleWritingSubmit = useCallback(async (inputText: string) => {
+  // Feedback is shown section by section as it streams in; only the final result is saved.
+  const handleWritingSubmit = useCallback(async (inputText: string, fresh = false) => {
     handleSetLoading(true);
     handleSetError(null);
     handleClearFeedback();
+    setWritingInput(inputText);
+    writingAbortRef.current?.abort();
+    const controller = new AbortController();
+    writingAbortRef.current = controller;
     try {
-      const feedback = await getEvaluation('writing', inputText) as WritingFeedback;
+      const feedback = await getEvaluation('writing', inputText, {
+        level: learnerLevel,
+        bilingual,
+        task: selectedTask ?? undefined,
+        essay: essayMode,
+        fresh,
+        profileId: activeProfileId ?? undefined,
+        signal: controller.signal,
+        onPartial: (partial) => {
+          if (controller.signal.aborted) return;
+          setWritingFeedback(partial);
+          setIsStreaming(true);
+        },
+      }) as WritingFeedback;
       setWritingFeedback(feedback);
+      recordEvaluation('writing', inputText, feedback);
+      const source = exerciseSourceFor(feedback);
+      if (source) setSessionSources(current => [source, ...current].slice(0, 5));
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       console.error("Evaluation failed:", err);
-      handleSetError(err.message || 'An unexpected error occurred. Please try again.');
+      handleApiError(err);
     } finally {
-      handleSetLoading(false);
+      // A newer submission or a cancel has taken over the loading state.
+      if (writingAbortRef.current === controller) {
+        writingAbortRef.current = null;
+        setIsStreaming(false);
+        handleSetLoading(false);
+      }
     }
-  }, [handleSetLoading, handleSetError, handleClearFeedback]);
+  }, [handleSetLoading, handleSetError, handleApiError, handleClearFeedback, recordEvaluation, learnerLevel, bilingual, selectedTask, essayMode, activeProfileId]);
+
+  // Marks the same writing again without using the evaluation cache.
+  const handleRefreshWriting = useCallback(() => {
+    handleWritingSubmit(writingInput, true);
+  }, [handleWritingSubmit, writingInput]);
 
   // For Speaking Coach: This will be called by SpeakingInterface after each turn
-  const handleSubmitTranscriptForEvaluation = useCallback(async (transcript: string): Promise<SpeakingFeedback | null> => {
+  // With the turn's recording, pronunciation is judged from the audio itself.
+  const handleSubmitTranscriptForEvaluation = useCallback(async (transcript: string, audio?: Blob): Promise<SpeakingFeedback | null> => {
     handleSetLoading(true);
     handleSetError(null);
     // Clear previous speaking feedback to show new turn's feedback
     setSpeakingFeedback(null); 
+    setSpeakingAudio(null);
     try {
-      const feedback = await getEvaluation('speaking', transcript) as SpeakingFeedback;
+      const feedback = await getEvaluation('speaking', transcript, {
+        level: learnerLevel,
+        bilingual,
+        audio,
+        profileId: activeProfileId ?? undefined,
+      }) as SpeakingFeedback;
       setSpeakingFeedback(feedback);
+      const lastTurn = lastTurnAudioRef.current;
+      setSpeakingAudio(audio ? { student: audio, coach: lastTurn?.student === audio ? lastTurn.coach : null } : null);
+      recordEvaluation('speaking', transcript, feedback);
       return feedback;
     } catch (err: any) {
       console.error("Speaking evaluation failed for turn:", err);
-      handleSetError(err.message || 'Failed to get detailed feedback for your turn.');
+      handleApiError(err);
       return null;
     } finally {
       handleSetLoading(false);
     }
-  }, [handleSetLoading, handleSetError]);
+  }, [handleSetLoading, handleSetError, handleApiError, recordEvaluation, learnerLevel, bilingual, activeProfileId]);
+
+  const rewardFor = (feedback: WritingFeedback | SpeakingFeedback) =>
+    lastReward?.source === feedback ? lastReward.reward : null;
 
   return (
     <div className="container mx-auto p-4 md:p-8 bg-white rounded-xl shadow-lg max-w-4xl">
-      <Header />
-      <ModeSwitcher activeMode={activeMode} onModeChange={handleModeChange} />
-
-      {activeMode === 'writing' && (
-        <EvaluationForm
-          mode="writing"
-          onSubmit={handleWritingSubmit}
-          isLoading={isLoading}
+      <Header rewards={rewards} celebration={lastReward?.reward ?? null} />
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <ProfileSelector
+          profiles={profiles}
+          activeProfile={activeProfile}
+          onSelectProfile={handleSelectProfile}
+          onCreateProfile={handleCreateProfile}
         />
+        <LevelSelector level={learnerLevel} onLevelChange={setLearnerLevel} disabled={isLoading} />
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={bilingual}
+            onChange={(e) => setBilingual(e.target.checked)}
+            disabled={isLoading}
+          />
+          🇻🇳 Vietnamese feedback too
+        </label>
+        {activeProfile && (
+          <div className="flex gap-2">
+            {view !== 'coach' && (
+              <button type="button" onClick={() => setView('coach')} className={viewButtonClass}>
+                ← Back to Practice
+              </button>
+            )}
+            {view !== 'history' && (
+              <button type="button" onClick={() => setView('history')} className={viewButtonClass}>
+                📖 My History
+              </button>
+            )}
+            {view !== 'progress' && (
+              <button type="button" onClick={() => setView('progress')} className={viewButtonClass}>
+                📈 My Progress
+              </button>
+            )}
+            {view !== 'notebook' && (
+              <button type="button" onClick={() => setView('notebook')} className={viewButtonClass}>
+                📒 My Mistakes
+              </button>
+            )}
+            {view !== 'words' && (
+              <button type="button" onClick={() => setView('words')} className={viewButtonClass}>
+                🔤 My Words
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {view === 'history' && activeProfile && (
+        <HistoryPage profile={activeProfile} />
       )}
 
-      {activeMode === 'speaking' && (
-        <SpeakingInterface
-          onSubmitTranscriptForEvaluation={handleSubmitTranscriptForEvaluation}
-          isLoadingGlobal={isLoading}
-          errorGlobal={error}
-          onClearFeedback={handleClearFeedback}
-          onSetLoading={handleSetLoading}
-          onSetError={handleSetError}
-        />
+      {view === 'progress' && activeProfile && (
+        <ProgressDashboard profile={activeProfile} />
       )}
 
-      {error && (
-        <div className="mt-8 p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg shadow-md animate-fade-in">
-          <p className="font-semibold text-lg mb-2">Oops! Something went wrong.</p>
-          <p>{error}</p>
-          <p className="mt-2">Please try again. If it's a microphone issue, check your browser permissions.</p>
-        </div>
+      {view === 'notebook' && activeProfile && (
+        <MistakeNotebook profile={activeProfile} />
       )}
 
-      {activeMode === 'writing' && writingFeedback && (
-        <div className="mt-8">
-          <FeedbackDisplay type="writing" feedback={writingFeedback} />
-        </div>
+      {view === 'words' && activeProfile && (
+        <WordBank profile={activeProfile} />
       )}
 
-      {activeMode === 'speaking' && speakingFeedback && (
-        <div className="mt-8">
-          <FeedbackDisplay type="speaking" feedback={speakingFeedback} />
-        </div>
+      {view === 'coach' && (
+        <>
+          <ModeSwitcher activeMode={activeMode} onModeChange={handleModeChange} />
+
+          {activeMode === 'writing' && (
+            <>
+              <TaskPicker level={learnerLevel} selectedTask={selectedTask} onSelectTask={setSelectedTask} />
+              <EvaluationForm
+                mode="writing"
+                onSubmit={handleWritingSubmit}
+                onCancel={cancelWritingEvaluation}
+                isLoading={isLoading}
+                task={selectedTask}
+                essayMode={essayMode}
+                onEssayModeChange={setEssayMode}
+              />
+            </>
+          )}
+
+          {activeMode === 'practice' && (
+            <PracticeMode profile={activeProfile} level={learnerLevel} sessionSources={sessionSources} onFinish={recordPractice} />
+          )}
+
+          {activeMode === 'teacher' && (
+            <TeacherClassView onProfilesChanged={refreshProfiles} />
+          )}
+
+          {activeMode === 'speaking' && (
+            <SpeakingActivitySwitcher activity={speakingActivity} onActivityChange={handleSpeakingActivityChange} disabled={isLoading} />
+          )}
+
+          {activeMode === 'speaking' && speakingActivity === 'readAloud' && (
+            <ReadAloudPractice
+              level={learnerLevel}
+              onSubmitTranscriptForEvaluation={handleSubmitTranscriptForEvaluation}
+              onResult={setReadingResult}
+              isLoadingGlobal={isLoading}
+              errorGlobal={error}
+              onClearFeedback={handleClearFeedback}
+              onSetLoading={handleSetLoading}
+              onSetError={handleSetError}
+            />
+          )}
+
+          {activeMode === 'speaking' && speakingActivity === 'conversation' && (
+            <SpeakingInterface
+              level={learnerLevel}
+              profileId={activeProfileId}
+              studentName={activeProfile?.name}
+              onSessionReport={recordSessionReport}
+              onTurnRecorded={recordTurnAudio}
+              onSubmitTranscriptForEvaluation={handleSubmitTranscriptForEvaluation}
+              isLoadingGlobal={isLoading}
+              errorGlobal={error}
+              onClearFeedback={handleClearFeedback}
+              onSetLoading={handleSetLoading}
+              onSetError={handleSetError}
+            />
+          )}
+
+          {error && errorCode && (
+            <div className="mt-8 p-4 bg-amber-50 border border-amber-300 text-amber-800 rounded-lg shadow-md animate-fade-in">
+              <p className="font-semibold text-lg mb-2">
+                <span className="mr-2">{API_ERROR_DESCRIPTIONS[errorCode].emoji}</span>
+                {API_ERROR_DESCRIPTIONS[errorCode].title}
+              </p>
+              <p>{error}</p>
+            </div>
+          )}
+
+          {error && !errorCode && (
+            <div className="mt-8 p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg shadow-md animate-fade-in">
+              <p className="font-semibold text-lg mb-2">Oops! Something went wrong.</p>
+              <p>{error}</p>
+              <p className="mt-2">Please try again. If it's a microphone issue, check your browser permissions.</p>
+            </div>
+          )}
+
+          {activeMode === 'writing' && writingFeedback && (
+            <div className="mt-8">
+              <FeedbackDisplay
+                type="writing"
+                feedback={writingFeedback}
+                originalText={writingInput}
+                reward={rewardFor(writingFeedback)}
+                isStreaming={isStreaming}
+                onRefresh={handleRefreshWriting}
+              />
+            </div>
+          )}
+
+          {activeMode === 'speaking' && speakingActivity === 'conversation' && speakingFeedback && (
+            <div className="mt-8">
+              <FeedbackDisplay type="speaking" feedback={speakingFeedback} audio={speakingAudio ?? undefined} reward={rewardFor(speakingFeedback)} />
+            </div>
+          )}
+
+          {activeMode === 'speaking' && speakingActivity === 'readAloud' && (readingResult || speakingFeedback) && (
+            <div className="mt-8 grid gap-6 lg:grid-cols-2 items-start">
+              {readingResult && <ReadingResultsPanel result={readingResult} />}
+              {speakingFeedback && <FeedbackDisplay type="speaking" feedback={speakingFeedback} audio={speakingAudio ?? undefined} reward={rewardFor(speakingFeedback)} />}
+            </div>
+          )}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,75 @@
+// prettier-ignore
+import React, { useEffect, useRef } from 'react';
+import { ConversationTurn } from '../types';
+
+interface ConversationTranscriptProps {
+  turns: ConversationTurn[];
+  liveStudentText: string;  // The turn in progress, not yet in `turns`
+  liveCoachText: string;
+  selectedTurnId: string | null;
+  onSelectTurn: (turnId: string) => void;
+}
+
+const ConversationTranscript: React.FC<ConversationTranscriptProps> = ({
+  turns,
+  liveStudentText,
+  liveCoachText,
+  selectedTurnId,
+  onSelectTurn,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view, like a chat app.
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [turns.length, liveStudentText, liveCoachText]);
+
+  const isEmpty = turns.length === 0 && !liveStudentText && !liveCoachText;
+
+  return (
+    <div ref={scrollRef} className="max-h-80 overflow-y-auto p-3 bg-white rounded-lg shadow-sm border border-purple-200 space-y-3 text-left">
+      {isEmpty && <p className="text-gray-400 italic text-center py-6">Your conversation will appear here.</p>}
+
+      {turns.map(turn => (
+        <React.Fragment key={turn.id}>
+          {turn.student && (
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={() => onSelectTurn(turn.id)}
+                className={`max-w-[80%] px-4 py-2 rounded-2xl rounded-br-sm bg-purple-100 text-gray-800 text-left hover:bg-purple-200
+                  ${turn.id === selectedTurnId ? 'ring-2 ring-purple-400' : ''}`}
+                title="See feedback for this turn"
+              >
+                <span className="block">{turn.student}</span>
+                <span className="block mt-1 text-xs text-purple-700 font-semibold">
+                  {turn.feedback ? `⭐ ${turn.feedback.scores.overallSpeakingQuality}/10 · See feedback` : 'Checking...'}
+                </span>
+              </button>
+            </div>
+          )}
+          {turn.coach && (
+            <div className="flex justify-start">
+              <p className="max-w-[80%] px-4 py-2 rounded-2xl rounded-bl-sm bg-blue-50 text-blue-800">{turn.coach}</p>
+            </div>
+          )}
+        </React.Fragment>
+      ))}
+
+      {liveStudentText && (
+        <div className="flex justify-end">
+          <p className="max-w-[80%] px-4 py-2 rounded-2xl rounded-br-sm bg-purple-50 text-gray-600 italic">{liveStudentText}</p>
+        </div>
+      )}
+      {liveCoachText && (
+        <div className="flex justify-start">
+          <p className="max-w-[80%] px-4 py-2 rounded-2xl rounded-bl-sm bg-blue-50 text-blue-700 italic">{liveCoachText}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConversationTranscript;
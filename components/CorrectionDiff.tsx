@@ -0,0 +1,83 @@
+// prettier-ignore
+import React, { useMemo, useState } from 'react';
+import { WritingEdit } from '../types';
+import { diffWords, findEditForSegment, findSuggestionForEdit } from '../utils/textDiff';
+
+interface CorrectionDiffProps {
+  originalText: string;
+  correctedText: string;
+  edits: WritingEdit[];
+  suggestions: string[];
+}
+
+const leadingSpace = (text: string): string => (/^\s/.test(text) ? ' ' : '');
+
+const CorrectionDiff: React.FC<CorrectionDiffProps> = ({ originalText, correctedText, edits, suggestions }) => {
+  const [selectedEdit, setSelectedEdit] = useState<number | null>(null);
+
+  const segments = useMemo(() => diffWords(originalText, correctedText), [originalText, correctedText]);
+
+  const renderChange = (index: number, leading: string, content: React.ReactNode, editIndex: number, className: string) => (
+    <React.Fragment key={index}>
+      {leading}
+      <button
+        type="button"
+        onClick={() => setSelectedEdit(editIndex === -1 ? null : editIndex)}
+        title={editIndex === -1 ? undefined : edits[editIndex].reason}
+        className={`rounded px-0.5 ${className} ${editIndex !== -1 && editIndex === selectedEdit ? 'ring-2 ring-indigo-400' : ''}`}
+      >
+        {content}
+      </button>
+    </React.Fragment>
+  );
+
+  const selected = selectedEdit !== null ? edits[selectedEdit] : null;
+  const relatedSuggestion = selected ? findSuggestionForEdit(selected, suggestions) : -1;
+
+  return (
+    <div>
+      <p className="p-3 bg-white border border-gray-200 rounded-md text-gray-800 text-lg leading-relaxed">
+        {segments.map((segment, index) => {
+          if (segment.kind === 'equal') {
+            return <span key={index}>{segment.original}</span>;
+          }
+          const editIndex = findEditForSegment(segment, edits);
+          const original = segment.original.trimStart();
+          const replacement = segment.replacement.trimStart();
+          if (segment.kind === 'insert') {
+            return renderChange(index, leadingSpace(segment.replacement), replacement, editIndex, 'bg-green-100 text-green-800 font-semibold');
+          }
+          if (segment.kind === 'delete') {
+            return renderChange(index, leadingSpace(segment.original), original, editIndex, 'bg-red-100 text-red-700 line-through');
+          }
+          return renderChange(index, leadingSpace(segment.original), (
+            <>
+              <span className="bg-red-100 text-red-700 line-through">{original}</span>{' '}
+              <span className="bg-green-100 text-green-800 font-semibold">{replacement}</span>
+            </>
+          ), editIndex, '');
+        })}
+      </p>
+
+      {edits.length > 0 && (
+        <p className="mt-2 text-sm text-gray-500">Tap a highlighted word to see why it changed.</p>
+      )}
+
+      {selected && (
+        <div className="mt-3 p-3 bg-indigo-50 border border-indigo-200 rounded-md text-gray-800 animate-fade-in">
+          <p className="text-sm font-semibold text-indigo-700 uppercase">{selected.category}</p>
+          <p>
+            {selected.original && <span className="line-through text-red-700 mr-2">{selected.original}</span>}
+            {selected.replacement && <span className="text-green-800 font-semibold">{selected.replacement}</span>}
+          </p>
+          <p className="mt-1">{selected.reason}</p>
+          {relatedSuggestion !== -1 && (
+            <p className="mt-2 text-sm text-gray-600">💡 {suggestions[relatedSuggestion]}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorrectionDiff;
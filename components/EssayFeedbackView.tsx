@@ -0,0 +1,86 @@
+// prettier-ignore
+import React, { useState } from 'react';
+import { EssayFeedback } from '../types';
+import CorrectionDiff from './CorrectionDiff';
+
+interface EssayFeedbackViewProps {
+  essay: EssayFeedback;
+}
+
+const EssayFeedbackView: React.FC<EssayFeedbackViewProps> = ({ essay }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const paragraphs = [...new Set(essay.sentences.map(sentence => sentence.paragraph))];
+  const selected = essay.sentences.find(sentence => sentence.id === selectedId) ?? null;
+  const changedCount = essay.sentences.filter(sentence => sentence.corrected !== sentence.original).length;
+
+  return (
+    <div className="mb-4">
+      <p className="text-lg font-semibold text-gray-700">Your Text:</p>
+      <p className="text-sm text-gray-500 mb-2">
+        {changedCount > 0
+          ? `${changedCount} of ${essay.sentences.length} sentences can be improved. Tap a sentence to see its feedback.`
+          : 'Every sentence looks correct. Tap a sentence to see its feedback.'}
+      </p>
+
+      <div className="p-3 bg-white border border-gray-200 rounded-md text-gray-800 leading-relaxed space-y-3">
+        {paragraphs.map(paragraph => (
+          <p key={paragraph}>
+            {essay.sentences.filter(sentence => sentence.paragraph === paragraph).map(sentence => {
+              const changed = sentence.corrected !== sentence.original;
+              return (
+                <React.Fragment key={sentence.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(sentence.id === selectedId ? null : sentence.id)}
+                    className={`text-left rounded px-0.5 transition-colors duration-200
+                      ${changed ? 'bg-yellow-100 hover:bg-yellow-200' : 'hover:bg-green-50'}
+                      ${sentence.id === selectedId ? 'ring-2 ring-indigo-400' : ''}`}
+                  >
+                    {sentence.original}
+                  </button>{' '}
+                </React.Fragment>
+              );
+            })}
+          </p>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="mt-3 p-3 bg-indigo-50 border border-indigo-200 rounded-md animate-fade-in">
+          {selected.corrected === selected.original ? (
+            <p className="text-green-800">✅ This sentence is correct. Well done!</p>
+          ) : (
+            <CorrectionDiff originalText={selected.original} correctedText={selected.corrected} edits={[]} suggestions={[]} />
+          )}
+          {selected.explanation && <p className="mt-2 text-gray-800">{selected.explanation}</p>}
+        </div>
+      )}
+
+      {essay.paragraphComments.length > 0 && (
+        <div className="mt-4">
+          <p className="text-lg font-semibold text-gray-700">Paragraph Comments:</p>
+          <ul className="space-y-2 mt-2">
+            {essay.paragraphComments.map(comment => (
+              <li key={comment.paragraph} className="p-3 bg-white rounded-md shadow-sm border border-gray-200 text-gray-700">
+                <p className="font-semibold text-indigo-700">Paragraph {comment.paragraph}</p>
+                <p>🧱 {comment.organisation}</p>
+                <p>🔗 {comment.coherence}</p>
+                <p>➕ {comment.linkingWords}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {essay.summary && (
+        <div className="mt-4">
+          <p className="text-lg font-semibold text-gray-700">Overall Summary:</p>
+          <p className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800">{essay.summary}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EssayFeedbackView;
@@ -1,14 +1,19 @@
 // prettier-ignore
 import React, { useState, useCallback } from 'react';
-import { EvaluationType } from '../types';
+import { EvaluationType, WritingTask } from '../types';
+import { countWords } from '../utils/taskChecks';
 
 interface EvaluationFormProps {
   mode: EvaluationType;
   onSubmit: (text: string) => void;
+  onCancel?: () => void; // Stops the evaluation in flight; the text can then be edited while loading
   isLoading: boolean;
+  task?: WritingTask | null; // Shows a word count against the task's minimum
+  essayMode?: boolean;
+  onEssayModeChange?: (essayMode: boolean) => void;
 }
 
-const EvaluationForm: React.FC<EvaluationFormProps> = ({ mode, onSubmit, isLoading }) => {
+const EvaluationForm: React.FC<EvaluationFormProps> = ({ mode, onSubmit, onCancel, isLoading, task, essayMode, onEssayModeChange }) => {
   const [inputText, setInputText] = useState<string>('');
 
   const handleSubmit = useCallback((e: React.FormEvent) => {
@@ -18,25 +23,58 @@ const EvaluationForm: React.FC<EvaluationFormProps> = ({ mode, onSubmit, isLoadi
     }
   }, [inputText, onSubmit]);
 
-  const placeholderText = mode === 'writing'
+  // Editing the text makes feedback that is still arriving out of date.
+  const handleChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setInputText(e.target.value);
+    if (isLoading) onCancel?.();
+  }, [isLoading, onCancel]);
+
+  const placeholderText = task
+    ? `Write about "${task.topic}" here. Try to use: ${task.targetVocabulary.join(', ')}.`
+    : essayMode
+    ? "Write your paragraph or short essay here. Leave an empty line between paragraphs. The AI will give feedback on every sentence and on how your paragraphs fit together."
+    : mode === 'writing'
     ? "Enter your English writing here (e.g., 'Yesterday I go to the park and play with my friend.'). The AI will check grammar, spelling, and sentence structure."
     : "Paste your speech transcript here (e.g., 'Hello, my name is Alex. I am eight years old.'). The AI will evaluate pronunciation, fluency, and coherence.";
 
   return (
     <form onSubmit={handleSubmit} className="mb-8 p-4 bg-blue-50 rounded-lg shadow-inner">
-      <label htmlFor="inputText" className="block text-lg font-medium text-gray-800 mb-3">
-        {mode === 'writing' ? 'Your English Writing' : 'Your Speech Transcript'}
-      </label>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <label htmlFor="inputText" className="block text-lg font-medium text-gray-800">
+          {mode === 'writing' ? 'Your English Writing' : 'Your Speech Transcript'}
+        </label>
+        {onEssayModeChange && (
+          <div className="flex gap-2" role="group" aria-label="Writing length">
+            {[false, true].map(option => (
+              <button
+                key={String(option)}
+                type="button"
+                onClick={() => onEssayModeChange(option)}
+                disabled={isLoading}
+                className={`px-3 py-1 rounded-full text-sm font-semibold transition-all duration-300
+                  ${Boolean(essayMode) === option ? 'bg-blue-600 text-white shadow-md' : 'bg-white text-gray-700 border border-gray-200 hover:bg-blue-100'}`}
+              >
+                {option ? '📄 Essay' : '✏️ Sentence'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
       <textarea
         id="inputText"
         className="w-full p-4 border border-blue-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200 resize-y min-h-[150px] bg-white text-gray-800"
         placeholder={placeholderText}
         value={inputText}
-        onChange={(e) => setInputText(e.target.value)}
-        rows={6}
+        onChange={handleChange}
+        rows={essayMode ? 14 : 6}
         required
-        disabled={isLoading}
+        disabled={isLoading && !onCancel}
       ></textarea>
+      {task && task.minWords > 0 && (
+        <p className={`mt-2 text-sm text-right ${countWords(inputText) >= task.minWords ? 'text-green-700' : 'text-gray-500'}`}>
+          {countWords(inputText)} / {task.minWords} words
+        </p>
+      )}
       <button
         type="submit"
         className="mt-6 w-full py-3 px-6 bg-blue-600 text-white font-bold rounded-full shadow-md hover:bg-blue-700 transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center sticky bottom-4 md:bottom-0"
@@ -54,6 +92,15 @@ const EvaluationForm: React.FC<EvaluationFormProps> = ({ mode, onSubmit, isLoadi
           `${mode === 'writing' ? 'Get Writing Feedback!' : 'Get Speaking Feedback!'}`
         )}
       </button>
+      {isLoading && onCancel && (
+        <button
+          type="button"
+          onClick={onCancel}
+          className="mt-2 w-full py-2 px-6 bg-gray-200 text-gray-700 font-semibold rounded-full hover:bg-gray-300"
+        >
+          Cancel
+        </button>
+      )}
     </form>
   );
 };
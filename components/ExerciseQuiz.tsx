@@ -0,0 +1,164 @@
+// prettier-ignore
+import React, { useState, useCallback } from 'react';
+import { Exercise, ExerciseAnswer } from '../types';
+import { answerExercise, gradeExercise, tokensOf, BLANK } from '../utils/exercises';
+import { getGrammarErrorType } from '../services/grammarTaxonomy';
+
+interface ExerciseQuizProps {
+  exercises: Exercise[];
+  onFinish: (answers: ExerciseAnswer[]) => void;
+}
+
+const optionClass = (isAnswered: boolean, isRight: boolean, isChosen: boolean): string => {
+  if (!isAnswered) return 'bg-white border-gray-200 hover:bg-indigo-50';
+  if (isRight) return 'bg-green-50 border-green-400';
+  return isChosen ? 'bg-red-50 border-red-400' : 'bg-white border-gray-200';
+};
+
+// One exercise at a time; each answer is graded as soon as it is checked.
+const ExerciseQuiz: React.FC<ExerciseQuizProps> = ({ exercises, onFinish }) => {
+  const [index, setIndex] = useState<number>(0);
+  const [response, setResponse] = useState<string>('');
+  const [picked, setPicked] = useState<number[]>([]); // Reorder: indexes of the tiles used, in order
+  const [answers, setAnswers] = useState<ExerciseAnswer[]>([]);
+
+  const exercise = exercises[index];
+  const answer = answers[index] ?? null;
+
+  const handleCheck = useCallback((given: string) => {
+    if (!exercise || answer) return;
+    setResponse(given);
+    setAnswers(current => [...current, answerExercise(exercise, given)]);
+  }, [exercise, answer]);
+
+  const handleNext = useCallback(() => {
+    if (index + 1 >= exercises.length) {
+      onFinish(answers);
+      return;
+    }
+    setIndex(current => current + 1);
+    setResponse('');
+    setPicked([]);
+  }, [index, exercises.length, answers, onFinish]);
+
+  if (!exercise) return null;
+
+  const reordered = picked.map(tileIndex => exercise.options[tileIndex]).join(' ');
+  const [before, after] = exercise.sentence.split(BLANK);
+
+  return (
+    <div className="p-6 bg-white border border-indigo-200 rounded-lg shadow-sm">
+      <div className="flex justify-between text-sm text-gray-500 mb-3">
+        <span>{getGrammarErrorType(exercise.tag).label}</span>
+        <span>Exercise {index + 1} of {exercises.length}</span>
+      </div>
+      <p className="text-lg font-medium text-gray-800 mb-3">{exercise.instruction}</p>
+
+      {exercise.kind === 'multipleChoice' && (
+        <div className="space-y-2">
+          {exercise.sentence && <p className="text-xl text-gray-800 mb-2">{exercise.sentence}</p>}
+          {exercise.options.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => handleCheck(option)}
+              disabled={!!answer}
+              className={`w-full p-3 text-left rounded-lg border transition-colors duration-300 ${optionClass(!!answer, gradeExercise(exercise, option), option === response)}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {exercise.kind === 'gapFill' && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCheck(response);
+          }}
+        >
+          <p className="text-xl text-gray-800 mb-4">
+            {before}
+            <input
+              type="text"
+              value={response}
+              onChange={(e) => setResponse(e.target.value)}
+              disabled={!!answer}
+              autoFocus
+              aria-label="Missing word"
+              className="mx-1 px-2 py-1 w-40 border-b-2 border-indigo-400 bg-indigo-50 text-center focus:outline-none"
+            />
+            {after}
+          </p>
+          {!answer && (
+            <button type="submit" disabled={!response.trim()} className="py-2 px-6 bg-indigo-600 text-white font-semibold rounded-full hover:bg-indigo-700 disabled:opacity-50">
+              Check
+            </button>
+          )}
+        </form>
+      )}
+
+      {exercise.kind === 'reorder' && (
+        <div>
+          <p className="min-h-[3rem] p-3 mb-3 text-xl text-gray-800 bg-indigo-50 rounded-lg border border-dashed border-indigo-300">
+            {reordered || <span className="text-gray-400 text-base">Tap the words in order…</span>}
+          </p>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {exercise.options.map((word, tileIndex) => (
+              <button
+                key={tileIndex}
+                type="button"
+                onClick={() => setPicked(current => [...current, tileIndex])}
+                disabled={!!answer || picked.includes(tileIndex)}
+                className="px-3 py-1 bg-white border border-indigo-300 rounded-lg text-gray-800 hover:bg-indigo-100 disabled:opacity-40"
+              >
+                {word}
+              </button>
+            ))}
+          </div>
+          {!answer && (
+            <div className="flex gap-2">
+              <button type="button" onClick={() => setPicked(current => current.slice(0, -1))} disabled={picked.length === 0} className="py-2 px-4 bg-gray-200 text-gray-700 font-semibold rounded-full hover:bg-gray-300 disabled:opacity-50">
+                Undo
+              </button>
+              <button type="button" onClick={() => handleCheck(reordered)} disabled={picked.length < exercise.options.length} className="py-2 px-6 bg-indigo-600 text-white font-semibold rounded-full hover:bg-indigo-700 disabled:opacity-50">
+                Check
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {exercise.kind === 'errorSpotting' && (
+        <div className="flex flex-wrap gap-2">
+          {tokensOf(exercise.sentence).map((word, wordIndex) => (
+            <button
+              key={wordIndex}
+              type="button"
+              onClick={() => handleCheck(word)}
+              disabled={!!answer}
+              className={`px-3 py-1 text-xl rounded-lg border transition-colors duration-300 ${optionClass(!!answer, gradeExercise(exercise, word), word === response)}`}
+            >
+              {word}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {answer && (
+        <div className={`mt-4 p-4 rounded-lg ${answer.correct ? 'bg-green-50 border border-green-200' : 'bg-orange-50 border border-orange-200'}`}>
+          <p className={`font-semibold ${answer.correct ? 'text-green-700' : 'text-orange-700'}`}>
+            {answer.correct ? '✅ Well done!' : `Not quite. The answer is: ${exercise.answer}`}
+          </p>
+          <p className="text-gray-700 mt-1">💡 {exercise.explanation}</p>
+          <button type="button" onClick={handleNext} className="mt-3 py-2 px-6 bg-indigo-600 text-white font-semibold rounded-full hover:bg-indigo-700">
+            {index + 1 < exercises.length ? 'Next' : 'Finish'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExerciseQuiz;
@@ -1,14 +1,68 @@
 
 // prettier-ignore
-import React from 'react';
-import { WritingFeedback, SpeakingFeedback, EvaluationType } from '../types';
+import React, { useState } from 'react';
+import { WritingFeedback, SpeakingFeedback, EvaluationType, TurnAudio, WordFinding, RewardEvent, VocabularyItemKind } from '../types';
+import CorrectionDiff from './CorrectionDiff';
+import EssayFeedbackView from './EssayFeedbackView';
+import TurnAudioPlayer from './TurnAudioPlayer';
+import RewardCelebration from './RewardCelebration';
+import SpeakButton from './SpeakButton';
+import { getLearnerLevel } from '../services/learnerLevels';
 
 interface FeedbackDisplayProps {
   type: EvaluationType;
   feedback: WritingFeedback | SpeakingFeedback;
+  originalText?: string; // The student's writing, used to show what changed
+  audio?: TurnAudio;     // Speaking only: recordings of the turn, played next to the tips
+  reward?: RewardEvent | null; // What this feedback earned the student
+  isStreaming?: boolean; // Writing only: the feedback is still arriving, so some sections are missing
+  onRefresh?: () => void; // Offered on a cached result: evaluate the same input again
 }
 
-const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ type, feedback }) => {
+type FeedbackLanguage = 'en' | 'vi' | 'both';
+
+const SEVERITY_CLASSES: Record<WordFinding['severity'], string> = {
+  minor: 'bg-yellow-100 text-yellow-800',
+  moderate: 'bg-orange-100 text-orange-800',
+  major: 'bg-red-100 text-red-800',
+};
+
+const VOCABULARY_KIND_LABELS: Record<VocabularyItemKind, string> = {
+  misused: 'Use instead of',
+  betterChoice: 'Try instead of',
+  newWord: 'New word',
+};
+
+const LANGUAGE_OPTIONS: { value: FeedbackLanguage; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'vi', label: 'Tiếng Việt' },
+  { value: 'both', label: 'Both' },
+];
+
+const formatCachedAt = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ type, feedback, originalText, audio, reward, isStreaming, onRefresh }) => {
+  const writing = feedback as WritingFeedback;
+  const speaking = feedback as SpeakingFeedback;
+  const hasVietnamese = Boolean(
+    feedback.introMessageVi || writing.explanationVi || writing.suggestionsVi || speaking.feedbackVi || speaking.pronunciationTipsVi
+  );
+  const [language, setLanguage] = useState<FeedbackLanguage>('both');
+  const activeLanguage: FeedbackLanguage = hasVietnamese ? language : 'en';
+
+  // Falls back to English when a Vietnamese version is missing.
+  const renderText = (english: string, vietnamese?: string) => {
+    if (activeLanguage === 'en' || !vietnamese) return english;
+    if (activeLanguage === 'vi') return vietnamese;
+    return (
+      <>
+        {english}
+        <span className="block mt-1 text-gray-600 italic">🇻🇳 {vietnamese}</span>
+      </>
+    );
+  };
+
   const renderScores = (scores: { [key: string]: number }) => (
     <div className="grid grid-cols-2 gap-4 mt-4 text-center">
       {Object.entries(scores).map(([key, value]) => (
@@ -26,24 +80,79 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ type, feedback }) =>
         <span className="mr-2">✨</span> Your AI Coach's Feedback!
       </h2>
 
-      {(feedback as any).introMessage && (
-        <p className="text-lg text-gray-800 mb-4">{ (feedback as any).introMessage }</p>
+      {isStreaming && (
+        <p className="-mt-2 mb-4 text-sm text-indigo-600 animate-pulse">✍️ Your coach is still writing...</p>
+      )}
+
+      {feedback.level && (
+        <p className="-mt-2 mb-4 text-sm text-gray-500">Marked for {getLearnerLevel(feedback.level).label}</p>
+      )}
+
+      {feedback.cachedAt && (
+        <div className="-mt-2 mb-4 flex flex-wrap items-center gap-2 text-sm">
+          <span className="px-2 py-1 rounded-full bg-amber-100 text-amber-800 font-semibold" title="This input was marked before, so the saved feedback was shown instead of asking the AI again.">
+            ♻️ Reused feedback from {formatCachedAt(feedback.cachedAt)}
+          </span>
+          {onRefresh && (
+            <button type="button" onClick={onRefresh} className="px-3 py-1 rounded-full bg-white border border-indigo-300 text-indigo-700 font-semibold hover:bg-indigo-50">
+              🔄 Get fresh feedback
+            </button>
+          )}
+        </div>
+      )}
+
+      {reward && <RewardCelebration reward={reward} />}
+
+      {hasVietnamese && (
+        <div className="flex gap-2 mb-4" role="group" aria-label="Feedback language">
+          {LANGUAGE_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setLanguage(option.value)}
+              className={`px-3 py-1 rounded-full text-sm font-semibold transition-all duration-300
+                ${language === option.value ? 'bg-indigo-600 text-white shadow-md' : 'bg-white text-gray-700 border border-gray-200 hover:bg-indigo-100'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {feedback.introMessage && (
+        <p className="text-lg text-gray-800 mb-4">{renderText(feedback.introMessage, feedback.introMessageVi)}</p>
       )}
 
       {type === 'writing' && (feedback as WritingFeedback).correctedSentence && (
         <div className="mb-4">
-          <p className="text-lg font-semibold text-gray-700">Corrected Sentence:</p>
-          <p className="p-3 bg-green-50 border border-green-200 rounded-md text-green-800 font-medium italic">
+          <p className="text-lg font-semibold text-gray-700">{writing.essay ? 'Corrected Text:' : 'Corrected Sentence:'}</p>
+          <p className="p-3 bg-green-50 border border-green-200 rounded-md text-green-800 font-medium italic whitespace-pre-line">
             "{ (feedback as WritingFeedback).correctedSentence }"
           </p>
         </div>
       )}
 
+      {type === 'writing' && writing.essay && (
+        <EssayFeedbackView essay={writing.essay} />
+      )}
+
+      {type === 'writing' && !writing.essay && !isStreaming && originalText && (feedback as WritingFeedback).correctedSentence && (
+        <div className="mb-4">
+          <p className="text-lg font-semibold text-gray-700">What Changed:</p>
+          <CorrectionDiff
+            originalText={originalText}
+            correctedText={(feedback as WritingFeedback).correctedSentence}
+            edits={(feedback as WritingFeedback).edits ?? []}
+            suggestions={(feedback as WritingFeedback).suggestions}
+          />
+        </div>
+      )}
+
       {type === 'writing' && (feedback as WritingFeedback).explanation && (
         <div className="mb-4">
           <p className="text-lg font-semibold text-gray-700">Explanation:</p>
           <p className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800">
-            { (feedback as WritingFeedback).explanation }
+            {renderText(writing.explanation, writing.explanationVi)}
           </p>
         </div>
       )}
@@ -52,13 +161,73 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ type, feedback }) =>
         <div className="mb-4">
           <p className="text-lg font-semibold text-gray-700">Overall Feedback:</p>
           <p className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800">
-            { (feedback as SpeakingFeedback).feedback }
+            {renderText(speaking.feedback, speaking.feedbackVi)}
           </p>
         </div>
       )}
 
-      <h3 className="text-2xl font-bold text-indigo-600 mt-6 mb-3">Scores:</h3>
-      {type === 'writing' ? renderScores((feedback as WritingFeedback).scores) : renderScores((feedback as SpeakingFeedback).scores)}
+      {type === 'writing' && writing.taskAchievement && (
+        <div className="mb-4 p-3 bg-white rounded-md border border-indigo-200">
+          <div className="flex items-center justify-between">
+            <p className="text-lg font-semibold text-gray-700">Task Achievement:</p>
+            <p className="text-xl font-bold text-indigo-600">{writing.taskAchievement.score}/10</p>
+          </div>
+          <ul className="mt-2 space-y-1 text-gray-700">
+            <li>{writing.taskAchievement.onTopic ? '✅' : '❌'} Followed the topic</li>
+            <li>{writing.taskAchievement.usedExpectedTense ? '✅' : '❌'} Used the right tense</li>
+            <li>
+              {writing.taskAchievement.meetsWordCount ? '✅' : '❌'} Wrote {writing.taskAchievement.wordCount} words
+            </li>
+          </ul>
+          {(writing.taskAchievement.targetWordsUsed.length > 0 || writing.taskAchievement.targetWordsMissed.length > 0) && (
+            <div className="mt-2 flex flex-wrap gap-2 text-sm">
+              {writing.taskAchievement.targetWordsUsed.map(word => (
+                <span key={word} className="px-2 py-1 bg-green-100 text-green-800 rounded-full">✓ {word}</span>
+              ))}
+              {writing.taskAchievement.targetWordsMissed.map(word => (
+                <span key={word} className="px-2 py-1 bg-gray-100 text-gray-500 rounded-full">{word}</span>
+              ))}
+            </div>
+          )}
+          {writing.taskAchievement.comment && <p className="mt-2 text-gray-700">{writing.taskAchievement.comment}</p>}
+        </div>
+      )}
+
+      {Object.keys(feedback.scores).length > 0 && (
+        <>
+          <h3 className="text-2xl font-bold text-indigo-600 mt-6 mb-3">Scores:</h3>
+          {type === 'writing' ? renderScores((feedback as WritingFeedback).scores) : renderScores((feedback as SpeakingFeedback).scores)}
+        </>
+      )}
+
+      {type === 'speaking' && speaking.fluencyMetrics && (
+        <div className="mt-6">
+          <h3 className="text-2xl font-bold text-indigo-600 mb-3">How You Spoke:</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+            <div className="bg-white p-3 rounded-lg shadow-sm border border-gray-200">
+              <p className="text-sm text-gray-500">Words per minute</p>
+              <p className="text-xl font-bold text-indigo-600">{speaking.fluencyMetrics.wordsPerMinute}</p>
+            </div>
+            <div className="bg-white p-3 rounded-lg shadow-sm border border-gray-200">
+              <p className="text-sm text-gray-500">Pauses</p>
+              <p className="text-xl font-bold text-indigo-600">{speaking.fluencyMetrics.pauseCount}</p>
+            </div>
+            <div className="bg-white p-3 rounded-lg shadow-sm border border-gray-200">
+              <p className="text-sm text-gray-500">Longest pause</p>
+              <p className="text-xl font-bold text-indigo-600">{speaking.fluencyMetrics.longestPauseSeconds} s</p>
+            </div>
+            <div className="bg-white p-3 rounded-lg shadow-sm border border-gray-200">
+              <p className="text-sm text-gray-500">Filler words</p>
+              <p className="text-xl font-bold text-indigo-600">{speaking.fluencyMetrics.fillerCount}</p>
+            </div>
+          </div>
+          {speaking.fluencyMetrics.fillerWords.length > 0 && (
+            <p className="mt-2 text-sm text-gray-600">
+              Try to say fewer of these: {speaking.fluencyMetrics.fillerWords.map(word => `"${word}"`).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
 
       {(type === 'writing' && (feedback as WritingFeedback).suggestions.length > 0) && (
         <div className="mt-6">
@@ -66,20 +235,67 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ type, feedback }) =>
           <ul className="list-disc list-inside space-y-2 text-gray-700">
             {(feedback as WritingFeedback).suggestions.map((suggestion, index) => (
               <li key={index} className="bg-white p-3 rounded-md shadow-sm border border-gray-200">
-                {suggestion}
+                {renderText(suggestion, writing.suggestionsVi?.[index])}
               </li>
             ))}
           </ul>
         </div>
       )}
 
+      {type === 'speaking' && (audio?.student || audio?.coach) && (
+        <div className="mt-6">
+          <h3 className="text-2xl font-bold text-indigo-600 mb-3">🎧 Listen Again:</h3>
+          <div className="space-y-2 bg-white p-3 rounded-md shadow-sm border border-gray-200">
+            {audio.student && <TurnAudioPlayer label="You said:" audio={audio.student} fileName="my-turn.wav" />}
+            {audio.coach && <TurnAudioPlayer label="Coach said:" audio={audio.coach} fileName="coach-reply.wav" />}
+          </div>
+        </div>
+      )}
+
       {(type === 'speaking' && (feedback as SpeakingFeedback).pronunciationTips.length > 0) && (
         <div className="mt-6">
           <h3 className="text-2xl font-bold text-indigo-600 mb-3">Pronunciation Tips:</h3>
           <ul className="list-disc list-inside space-y-2 text-gray-700">
             {(feedback as SpeakingFeedback).pronunciationTips.map((tip, index) => (
               <li key={index} className="bg-white p-3 rounded-md shadow-sm border border-gray-200">
-                {tip}
+                {renderText(tip, speaking.pronunciationTipsVi?.[index])}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {type === 'speaking' && speaking.wordFindings && speaking.wordFindings.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-2xl font-bold text-indigo-600 mb-3">Words to Practise:</h3>
+          <ul className="space-y-2">
+            {speaking.wordFindings.map((finding, index) => (
+              <li key={index} className="bg-white p-3 rounded-md shadow-sm border border-gray-200 flex flex-wrap items-center gap-2 text-gray-700">
+                <span className="font-bold text-gray-800">{finding.word}</span>
+                <span className="font-mono text-indigo-700">{finding.expectedPhonemes}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${SEVERITY_CLASSES[finding.severity]}`}>{finding.severity}</span>
+                <span className="basis-full">{finding.problem}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {feedback.vocabularyItems && feedback.vocabularyItems.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-2xl font-bold text-indigo-600 mb-3">📘 Words to Learn:</h3>
+          <ul className="grid gap-2 sm:grid-cols-2">
+            {feedback.vocabularyItems.map((item, index) => (
+              <li key={index} className="bg-white p-3 rounded-md shadow-sm border border-gray-200 text-gray-700">
+                <p className="flex items-center gap-1">
+                  <span className="font-bold text-gray-800">{item.word}</span>
+                  <SpeakButton text={item.word} />
+                  <span className="text-sm text-gray-500">
+                    {VOCABULARY_KIND_LABELS[item.kind]}{item.studentWord ? ` "${item.studentWord}"` : ''}
+                  </span>
+                </p>
+                <p className="text-sm">🇻🇳 {item.meaningVi}</p>
+                <p className="text-sm italic text-gray-600">"{item.example}"</p>
               </li>
             ))}
           </ul>
@@ -1,9 +1,33 @@
-
 // prettier-ignore
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import logoUrl from './public/vin_school_logo.png';
+import { RewardState, RewardEvent } from '../types';
+import { loadRewardRules } from '../services/rewardRules';
+import { activeStreak, isMilestone, levelForXp } from '../utils/rewards';
+
+interface HeaderProps {
+  rewards?: RewardState | null; // The selected student's rewards
+  celebration?: RewardEvent | null; // The latest reward, celebrated when it is a milestone
+}
+
+const CELEBRATION_MS = 3000;
+
+const Header: React.FC<HeaderProps> = ({ rewards, celebration }) => {
+  const [isCelebrating, setIsCelebrating] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!celebration || !isMilestone(celebration)) return;
+    setIsCelebrating(true);
+    const timer = setTimeout(() => setIsCelebrating(false), CELEBRATION_MS);
+    return () => clearTimeout(timer);
+  }, [celebration]);
+
+  const rules = loadRewardRules();
+  const earnedBadges = rewards
+    ? rules.badges.filter(badge => rewards.badges.some(earned => earned.id === badge.id))
+    : [];
+  const streak = rewards ? activeStreak(rewards, Date.now()) : 0;
 
-const Header: React.FC = () => {
   return (
     <header className="text-center mb-8">
       <div className="flex justify-center mb-4">
@@ -21,6 +45,20 @@ const Header: React.FC = () => {
       <p className="mt-2 text-lg text-gray-600">
         Your friendly AI tutor to help you master English writing and speaking!
       </p>
+      {rewards && (
+        <div className={`mt-4 inline-flex flex-wrap justify-center items-center gap-3 px-4 py-2 bg-amber-50 border border-amber-200 rounded-full ${isCelebrating ? 'animate-bounce' : ''}`}>
+          <span className="font-semibold text-indigo-700">⭐ Level {levelForXp(rewards.xp, rules)}</span>
+          <span className="text-amber-700 font-semibold">{rewards.xp} XP</span>
+          <span className="text-orange-600 font-semibold">🔥 {streak} day{streak === 1 ? '' : 's'}</span>
+          {earnedBadges.length > 0 && (
+            <span className="text-lg" aria-label={`${earnedBadges.length} badges`}>
+              {earnedBadges.map(badge => (
+                <span key={badge.id} title={`${badge.title}: ${badge.description}`}>{badge.emoji}</span>
+              ))}
+            </span>
+          )}
+        </div>
+      )}
     </header>
   );
 };
@@ -0,0 +1,162 @@
+// prettier-ignore
+import React, { useState, useEffect } from 'react';
+import { EvaluationRecord, EvaluationType, LearnerProfile, WritingFeedback, SpeakingFeedback, SessionReport, TurnRecording } from '../types';
+import { listEvaluations, listSessionReports, listSessionRecordings } from '../services/historyStore';
+import FeedbackDisplay from './FeedbackDisplay';
+import SessionReportView from './SessionReportView';
+
+interface HistoryPageProps {
+  profile: LearnerProfile;
+}
+
+const overallScore = (record: EvaluationRecord): number =>
+  record.type === 'writing'
+    ? (record.feedback as WritingFeedback).scores.overallWritingQuality
+    : (record.feedback as SpeakingFeedback).scores.overallSpeakingQuality;
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const HistoryPage: React.FC<HistoryPageProps> = ({ profile }) => {
+  const [records, setRecords] = useState<EvaluationRecord[]>([]);
+  const [filter, setFilter] = useState<EvaluationType | 'all'>('all');
+  const [selected, setSelected] = useState<EvaluationRecord | null>(null);
+  const [sessionReports, setSessionReports] = useState<SessionReport[]>([]);
+  const [selectedReport, setSelectedReport] = useState<SessionReport | null>(null);
+  const [reportRecordings, setReportRecordings] = useState<TurnRecording[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setSelected(null);
+    setSelectedReport(null);
+    Promise.all([listEvaluations(profile.id), listSessionReports(profile.id)])
+      .then(([evaluations, reports]) => {
+        if (cancelled) return;
+        setRecords(evaluations);
+        setSessionReports(reports);
+      })
+      .catch((err: any) => {
+        console.error('Failed to load history:', err);
+        if (!cancelled) setError(err.message || 'Could not load your history.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [profile.id]);
+
+  useEffect(() => {
+    setReportRecordings([]);
+    if (!selectedReport) return;
+    let cancelled = false;
+    listSessionRecordings(selectedReport.id)
+      .then(result => {
+        if (!cancelled) setReportRecordings(result);
+      })
+      .catch(err => console.error('Failed to load recordings:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedReport]);
+
+  const visibleRecords = filter === 'all' ? records : records.filter(record => record.type === filter);
+
+  if (selectedReport) {
+    return <SessionReportView report={selectedReport} studentName={profile.name} recordings={reportRecordings} onClose={() => setSelectedReport(null)} />;
+  }
+
+  if (selected) {
+    return (
+      <div className="animate-fade-in">
+        <button
+          type="button"
+          onClick={() => setSelected(null)}
+          className="mb-4 text-blue-600 font-semibold hover:text-blue-800"
+        >
+          ← Back to history
+        </button>
+        <p className="mb-2 text-sm text-gray-500">{formatDate(selected.createdAt)}</p>
+        <p className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-md text-gray-800 italic">"{selected.input}"</p>
+        <FeedbackDisplay
+          type={selected.type}
+          feedback={selected.feedback}
+          originalText={selected.type === 'writing' ? selected.input : undefined}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-indigo-700">{profile.name}'s Practice History</h2>
+        <select
+          className="p-2 border border-blue-300 rounded-lg bg-white text-gray-800"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as EvaluationType | 'all')}
+        >
+          <option value="all">All</option>
+          <option value="writing">📝 Writing</option>
+          <option value="speaking">🗣️ Speaking</option>
+        </select>
+      </div>
+
+      {isLoading && <p className="text-gray-500">Loading...</p>}
+      {error && <p className="text-red-700">{error}</p>}
+      {!isLoading && !error && visibleRecords.length === 0 && (
+        <p className="text-gray-500">Nothing here yet. Practise some writing or speaking and it will appear here! ✨</p>
+      )}
+
+      {filter !== 'writing' && sessionReports.length > 0 && (
+        <div className="mb-4">
+          <p className="text-lg font-semibold text-gray-700 mb-2">🎙️ Speaking Sessions</p>
+          <ul className="space-y-2">
+            {sessionReports.map(report => (
+              <li key={report.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedReport(report)}
+                  className="w-full text-left p-3 bg-white rounded-lg shadow-sm border border-gray-200 hover:border-blue-400 flex items-center gap-3"
+                >
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm text-gray-500">{formatDate(report.startedAt)}</span>
+                    <span className="block text-gray-800">{report.turns.length} turns</span>
+                  </span>
+                  {report.averageScores && (
+                    <span className="text-lg font-bold text-indigo-600">{report.averageScores.overallSpeakingQuality}/10</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {visibleRecords.map(record => (
+          <li key={record.id}>
+            <button
+              type="button"
+              onClick={() => setSelected(record)}
+              className="w-full text-left p-3 bg-white rounded-lg shadow-sm border border-gray-200 hover:border-blue-400 flex items-center gap-3"
+            >
+              <span className="text-2xl">{record.type === 'writing' ? '📝' : '🗣️'}</span>
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm text-gray-500">{formatDate(record.createdAt)}</span>
+                <span className="block text-gray-800 truncate">{record.input}</span>
+              </span>
+              <span className="text-lg font-bold text-indigo-600">{overallScore(record)}/10</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default HistoryPage;
@@ -0,0 +1,36 @@
+// prettier-ignore
+import React from 'react';
+import { LearnerLevelId } from '../types';
+import { LEARNER_LEVELS } from '../services/learnerLevels';
+
+interface LevelSelectorProps {
+  level: LearnerLevelId;
+  onLevelChange: (level: LearnerLevelId) => void;
+  disabled?: boolean;
+}
+
+const LevelSelector: React.FC<LevelSelectorProps> = ({ level, onLevelChange, disabled }) => {
+  const grades = LEARNER_LEVELS.filter(option => option.id.startsWith('grade-'));
+  const cefrTargets = LEARNER_LEVELS.filter(option => option.id.startsWith('cefr-'));
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-600">
+      Level:
+      <select
+        className="p-2 border border-blue-300 rounded-lg bg-white text-gray-800"
+        value={level}
+        onChange={(e) => onLevelChange(e.target.value as LearnerLevelId)}
+        disabled={disabled}
+      >
+        <optgroup label="School grade">
+          {grades.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+        </optgroup>
+        <optgroup label="CEFR target">
+          {cefrTargets.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+        </optgroup>
+      </select>
+    </label>
+  );
+};
+
+export default LevelSelector;
@@ -0,0 +1,117 @@
+// prettier-ignore
+import React, { useState, useEffect, useCallback } from 'react';
+import { GrammarErrorTag, LearnerProfile, MistakeCard } from '../types';
+import { listMistakeCards, updateMistakeCard, deleteMistakeCard } from '../services/historyStore';
+import { getGrammarErrorType } from '../services/grammarTaxonomy';
+import { dueCards } from '../utils/spacedRepetition';
+import MistakeReviewQuiz from './MistakeReviewQuiz';
+
+interface MistakeNotebookProps {
+  profile: LearnerProfile;
+}
+
+const formatDue = (dueAt: number): string =>
+  dueAt <= Date.now() ? 'today' : new Date(dueAt).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+const MistakeNotebook: React.FC<MistakeNotebookProps> = ({ profile }) => {
+  const [cards, setCards] = useState<MistakeCard[]>([]);
+  const [reviewCards, setReviewCards] = useState<MistakeCard[] | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setReviewCards(null);
+    listMistakeCards(profile.id)
+      .then(result => {
+        if (!cancelled) setCards(result);
+      })
+      .catch((err: any) => {
+        console.error('Failed to load the mistake notebook:', err);
+        if (!cancelled) setError(err.message || 'Could not load your mistake notebook.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [profile.id]);
+
+  const handleReviewed = useCallback((card: MistakeCard) => {
+    setCards(current => current.map(item => (item.id === card.id ? card : item)));
+    updateMistakeCard(card).catch(err => console.error('Failed to save the review:', err));
+  }, []);
+
+  const handleDelete = useCallback((cardId: string) => {
+    setCards(current => current.filter(item => item.id !== cardId));
+    deleteMistakeCard(cardId).catch(err => console.error('Failed to delete the card:', err));
+  }, []);
+
+  const due = dueCards(cards);
+  const byCategory = new Map<GrammarErrorTag, MistakeCard[]>();
+  cards.forEach(card => byCategory.set(card.category, [...(byCategory.get(card.category) ?? []), card]));
+
+  if (reviewCards) {
+    return (
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-indigo-700 mb-4">🧠 Review time, {profile.name}!</h2>
+        <MistakeReviewQuiz cards={reviewCards} onReviewed={handleReviewed} onFinish={() => setReviewCards(null)} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-bold text-indigo-700">📒 {profile.name}'s Mistake Notebook</h2>
+        <button
+          type="button"
+          onClick={() => setReviewCards(due)}
+          disabled={due.length === 0}
+          className="py-2 px-6 bg-green-600 text-white font-bold rounded-full shadow-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {due.length > 0 ? `Review ${due.length} card${due.length === 1 ? '' : 's'}` : 'Nothing to review today'}
+        </button>
+      </div>
+
+      {isLoading && <p className="text-gray-500">Loading...</p>}
+      {error && <p className="p-3 bg-red-100 border border-red-400 rounded-md text-red-700">{error}</p>}
+      {!isLoading && !error && cards.length === 0 && (
+        <p className="text-gray-500">No mistakes saved yet. Corrections from the Writing Coach will appear here for you to practise.</p>
+      )}
+
+      {[...byCategory.entries()].map(([category, categoryCards]) => (
+        <div key={category} className="mb-6">
+          <h3 className="text-lg font-semibold text-gray-700 mb-2">
+            {getGrammarErrorType(category).label} <span className="text-sm font-normal text-gray-500">({categoryCards.length})</span>
+          </h3>
+          <ul className="space-y-2">
+            {categoryCards.map(card => (
+              <li key={card.id} className="p-3 bg-white rounded-lg border border-gray-200 flex items-start justify-between gap-3">
+                <div>
+                  <p>
+                    <span className="line-through text-red-600">{card.wrote || '(missing)'}</span>
+                    <span className="mx-2 text-gray-400">→</span>
+                    <span className="font-semibold text-green-700">{card.correct || '(leave out)'}</span>
+                  </p>
+                  <p className="text-sm text-gray-600">{card.rule}</p>
+                  <p className="text-sm text-gray-500 italic">"{card.correctedSentence}"</p>
+                </div>
+                <div className="text-right text-xs text-gray-500 whitespace-nowrap">
+                  <p>Next review: {formatDue(card.dueAt)}</p>
+                  <button type="button" onClick={() => handleDelete(card.id)} className="mt-1 text-gray-400 hover:text-red-600" aria-label="Delete card">
+                    🗑️
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MistakeNotebook;
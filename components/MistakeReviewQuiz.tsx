@@ -0,0 +1,123 @@
+// prettier-ignore
+import React, { useState, useMemo, useCallback } from 'react';
+import { MistakeCard } from '../types';
+import { getGrammarErrorType } from '../services/grammarTaxonomy';
+import { buildReviewItem, gradeAnswer } from '../utils/mistakeCards';
+import { reviewCard, ReviewQuality } from '../utils/spacedRepetition';
+
+interface MistakeReviewQuizProps {
+  cards: MistakeCard[]; // The cards due, in the order to review them
+  onReviewed: (card: MistakeCard) => void; // With its new schedule
+  onFinish: () => void;
+}
+
+const MistakeReviewQuiz: React.FC<MistakeReviewQuizProps> = ({ cards, onReviewed, onFinish }) => {
+  const [index, setIndex] = useState<number>(0);
+  const [answer, setAnswer] = useState<string>('');
+  const [quality, setQuality] = useState<ReviewQuality | null>(null);
+  const [correctCount, setCorrectCount] = useState<number>(0);
+
+  const card = cards[index];
+  const item = useMemo(() => (card ? buildReviewItem(card) : null), [card]);
+
+  const handleCheck = useCallback((given: string) => {
+    if (!card || !item || quality !== null) return;
+    const grade = gradeAnswer(card, item, given);
+    setAnswer(given);
+    setQuality(grade);
+    if (grade >= 3) setCorrectCount(count => count + 1);
+    onReviewed(reviewCard(card, grade));
+  }, [card, item, quality, onReviewed]);
+
+  const handleNext = useCallback(() => {
+    setIndex(current => current + 1);
+    setAnswer('');
+    setQuality(null);
+  }, []);
+
+  if (!card || !item) {
+    return (
+      <div className="p-6 bg-green-50 border border-green-200 rounded-lg text-center">
+        <p className="text-2xl font-bold text-green-700 mb-2">🎉 Review finished!</p>
+        <p className="text-gray-700 mb-4">You got {correctCount} of {cards.length} right.</p>
+        <button type="button" onClick={onFinish} className="py-2 px-6 bg-indigo-600 text-white font-semibold rounded-full hover:bg-indigo-700">
+          Back to my notebook
+        </button>
+      </div>
+    );
+  }
+
+  const isCorrect = quality !== null && quality >= 3;
+
+  return (
+    <div className="p-6 bg-white border border-indigo-200 rounded-lg shadow-sm">
+      <div className="flex justify-between text-sm text-gray-500 mb-3">
+        <span>{getGrammarErrorType(card.category).label}</span>
+        <span>Question {index + 1} of {cards.length}</span>
+      </div>
+
+      {item.kind === 'fillBlank' ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCheck(answer);
+          }}
+        >
+          <p className="text-lg font-medium text-gray-800 mb-3">Fill in the missing word:</p>
+          <p className="text-xl text-gray-800 mb-4">
+            {item.before}
+            <input
+              type="text"
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              disabled={quality !== null}
+              autoFocus
+              aria-label="Missing word"
+              className="mx-1 px-2 py-1 w-40 border-b-2 border-indigo-400 bg-indigo-50 text-center focus:outline-none"
+            />
+            {item.after}
+          </p>
+          {quality === null && (
+            <button type="submit" disabled={!answer.trim()} className="py-2 px-6 bg-indigo-600 text-white font-semibold rounded-full hover:bg-indigo-700 disabled:opacity-50">
+              Check
+            </button>
+          )}
+        </form>
+      ) : (
+        <div>
+          <p className="text-lg font-medium text-gray-800 mb-3">Which sentence is correct?</p>
+          <div className="space-y-2">
+            {item.options.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => handleCheck(option)}
+                disabled={quality !== null}
+                className={`w-full p-3 text-left rounded-lg border transition-colors duration-300
+                  ${quality !== null && option === item.answer ? 'bg-green-50 border-green-400' : ''}
+                  ${quality !== null && option === answer && option !== item.answer ? 'bg-red-50 border-red-400' : ''}
+                  ${quality === null ? 'bg-white border-gray-200 hover:bg-indigo-50' : ''}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {quality !== null && (
+        <div className={`mt-4 p-4 rounded-lg ${isCorrect ? 'bg-green-50 border border-green-200' : 'bg-orange-50 border border-orange-200'}`}>
+          <p className={`font-semibold ${isCorrect ? 'text-green-700' : 'text-orange-700'}`}>
+            {isCorrect ? '✅ Well done!' : `Not quite. The answer is: ${item.answer}`}
+          </p>
+          <p className="text-gray-700 mt-1">💡 {card.rule}</p>
+          <button type="button" onClick={handleNext} className="mt-3 py-2 px-6 bg-indigo-600 text-white font-semibold rounded-full hover:bg-indigo-700">
+            {index + 1 < cards.length ? 'Next' : 'Finish'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MistakeReviewQuiz;
@@ -1,11 +1,11 @@
 
 // prettier-ignore
 import React from 'react';
-import { EvaluationType } from '../types';
+import { AppMode } from '../types';
 
 interface ModeSwitcherProps {
-  activeMode: EvaluationType;
-  onModeChange: (mode: EvaluationType) => void;
+  activeMode: AppMode;
+  onModeChange: (mode: AppMode) => void;
 }
 
 const ModeSwitcher: React.FC<ModeSwitcherProps> = ({ activeMode, onModeChange }) => {
@@ -23,7 +23,7 @@ const ModeSwitcher: React.FC<ModeSwitcherProps> = ({ activeMode, onModeChange })
       </button>
       <button
         onClick={() => onModeChange('speaking')}
-        className={`px-6 py-3 rounded-full font-semibold transition-all duration-300
+        className={`px-6 py-3 mr-4 rounded-full font-semibold transition-all duration-300
           ${activeMode === 'speaking'
             ? 'bg-blue-600 text-white shadow-md'
             : 'bg-gray-200 text-gray-700 hover:bg-blue-100 hover:text-blue-700'
@@ -31,6 +31,26 @@ const ModeSwitcher: React.FC<ModeSwitcherProps> = ({ activeMode, onModeChange })
       >
         🗣️ Speaking Coach
       </button>
+      <button
+        onClick={() => onModeChange('practice')}
+        className={`px-6 py-3 mr-4 rounded-full font-semibold transition-all duration-300
+          ${activeMode === 'practice'
+            ? 'bg-blue-600 text-white shadow-md'
+            : 'bg-gray-200 text-gray-700 hover:bg-blue-100 hover:text-blue-700'
+          }`}
+      >
+        🏋️ Practice
+      </button>
+      <button
+        onClick={() => onModeChange('teacher')}
+        className={`px-6 py-3 rounded-full font-semibold transition-all duration-300
+          ${activeMode === 'teacher'
+            ? 'bg-blue-600 text-white shadow-md'
+            : 'bg-gray-200 text-gray-700 hover:bg-blue-100 hover:text-blue-700'
+          }`}
+      >
+        👩‍🏫 Teacher
+      </button>
     </div>
   );
 };
@@ -0,0 +1,116 @@
+// prettier-ignore
+import React, { useState, useEffect, useCallback } from 'react';
+import { Exercise, ExerciseAnswer, ExerciseSource, LearnerLevelId, LearnerProfile } from '../types';
+import { generateExercises } from '../services/evaluationService';
+import { ApiError, API_ERROR_DESCRIPTIONS } from '../services/apiErrors';
+import { listEvaluations } from '../services/historyStore';
+import { getGrammarErrorType } from '../services/grammarTaxonomy';
+import { accuracyByTag, recentExerciseSources, sourceTags } from '../utils/exercises';
+import ExerciseQuiz from './ExerciseQuiz';
+
+interface PracticeModeProps {
+  profile: LearnerProfile | null;
+  level: LearnerLevelId;
+  sessionSources: ExerciseSource[]; // This visit's corrected writing, used when no student is selected
+  onFinish: (answers: ExerciseAnswer[]) => void;
+}
+
+// Exercises made from the student's recent corrections: saved writing for a selected student,
+// otherwise what was written since the page was opened.
+const PracticeMode: React.FC<PracticeModeProps> = ({ profile, level, sessionSources, onFinish }) => {
+  const [sources, setSources] = useState<ExerciseSource[]>(sessionSources);
+  const [exercises, setExercises] = useState<Exercise[] | null>(null);
+  const [results, setResults] = useState<ExerciseAnswer[] | null>(null);
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setExercises(null);
+    setResults(null);
+    setError(null);
+    if (!profile) {
+      setSources(sessionSources);
+      return;
+    }
+    listEvaluations(profile.id)
+      .then(records => {
+        if (!cancelled) setSources(recentExerciseSources(records));
+      })
+      .catch((err: any) => {
+        console.error('Failed to load recent writing:', err);
+        if (!cancelled) setError(err.message || 'Could not load your recent writing.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [profile?.id, sessionSources]);
+
+  const handleGenerate = useCallback(async () => {
+    setIsGenerating(true);
+    setError(null);
+    setResults(null);
+    try {
+      setExercises(await generateExercises(sources, { level }));
+    } catch (err: any) {
+      console.error('Exercise generation failed:', err);
+      setError(err instanceof ApiError ? API_ERROR_DESCRIPTIONS[err.code].message : err.message || 'Could not make exercises. Please try again.');
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [sources, level]);
+
+  const handleFinish = useCallback((answers: ExerciseAnswer[]) => {
+    setExercises(null);
+    setResults(answers);
+    onFinish(answers);
+  }, [onFinish]);
+
+  if (exercises) {
+    return <ExerciseQuiz exercises={exercises} onFinish={handleFinish} />;
+  }
+
+  const tags = sourceTags(sources);
+  const correctCount = results?.filter(answer => answer.correct).length ?? 0;
+
+  return (
+    <div className="mb-8">
+      {results && (
+        <div className="mb-6 p-6 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-2xl font-bold text-green-700 mb-2">🎉 You got {correctCount} of {results.length} right!</p>
+          <ul className="space-y-1 text-gray-700">
+            {accuracyByTag(results).map(entry => (
+              <li key={entry.tag}>
+                {entry.correct === entry.total ? '✅' : '💪'} {getGrammarErrorType(entry.tag).label}: {entry.correct}/{entry.total}
+              </li>
+            ))}
+          </ul>
+          {!profile && <p className="mt-2 text-sm text-gray-500">Choose a student to save your practice results.</p>}
+        </div>
+      )}
+
+      <div className="p-6 bg-indigo-50 border border-indigo-200 rounded-lg text-center">
+        <h2 className="text-2xl font-bold text-indigo-700 mb-2">🏋️ Grammar Practice</h2>
+        {sources.length === 0 ? (
+          <p className="text-gray-600">No corrections to practise yet. Write something in the Writing Coach first! ✍️</p>
+        ) : (
+          <>
+            <p className="text-gray-700 mb-1">Exercises made from your last {sources.length} corrected piece{sources.length === 1 ? '' : 's'} of writing.</p>
+            <p className="text-sm text-gray-500 mb-4">Practising: {tags.map(tag => getGrammarErrorType(tag).label).join(', ')}</p>
+            <button
+              type="button"
+              onClick={handleGenerate}
+              disabled={isGenerating}
+              className="py-3 px-8 bg-green-600 text-white font-bold rounded-full shadow-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isGenerating ? 'Making your exercises...' : results ? 'Practise again' : 'Start practising'}
+            </button>
+          </>
+        )}
+        {error && <p className="mt-4 p-3 bg-red-100 border border-red-400 rounded-md text-red-700">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default PracticeMode;
@@ -0,0 +1,97 @@
+// prettier-ignore
+import React, { useState, useCallback } from 'react';
+import { LearnerProfile } from '../types';
+
+interface ProfileSelectorProps {
+  profiles: LearnerProfile[];
+  activeProfile: LearnerProfile | null;
+  onSelectProfile: (profileId: string | null) => void;
+  onCreateProfile: (details: Pick<LearnerProfile, 'name' | 'className' | 'gradeLevel'>) => void;
+}
+
+const GRADE_LEVELS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+const ProfileSelector: React.FC<ProfileSelectorProps> = ({ profiles, activeProfile, onSelectProfile, onCreateProfile }) => {
+  const [isCreating, setIsCreating] = useState<boolean>(false);
+  const [name, setName] = useState<string>('');
+  const [className, setClassName] = useState<string>('');
+  const [gradeLevel, setGradeLevel] = useState<number>(3);
+
+  const handleCreate = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onCreateProfile({ name: name.trim(), className: className.trim(), gradeLevel });
+    setName('');
+    setClassName('');
+    setIsCreating(false);
+  }, [name, className, gradeLevel, onCreateProfile]);
+
+  if (isCreating) {
+    return (
+      <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-3">
+        <label className="text-sm text-gray-600">
+          Name
+          <input
+            className="block mt-1 p-2 border border-blue-300 rounded-lg bg-white text-gray-800"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+            autoFocus
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          Class
+          <input
+            className="block mt-1 p-2 w-24 border border-blue-300 rounded-lg bg-white text-gray-800"
+            value={className}
+            onChange={(e) => setClassName(e.target.value)}
+            placeholder="3A1"
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          Grade
+          <select
+            className="block mt-1 p-2 border border-blue-300 rounded-lg bg-white text-gray-800"
+            value={gradeLevel}
+            onChange={(e) => setGradeLevel(Number(e.target.value))}
+          >
+            {GRADE_LEVELS.map(grade => <option key={grade} value={grade}>Grade {grade}</option>)}
+          </select>
+        </label>
+        <button type="submit" className="py-2 px-4 bg-blue-600 text-white font-semibold rounded-full hover:bg-blue-700">
+          Save
+        </button>
+        <button type="button" onClick={() => setIsCreating(false)} className="py-2 px-4 text-gray-600 hover:text-gray-800">
+          Cancel
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <span className="text-sm text-gray-600">Student:</span>
+      <select
+        className="p-2 border border-blue-300 rounded-lg bg-white text-gray-800"
+        value={activeProfile?.id ?? ''}
+        onChange={(e) => onSelectProfile(e.target.value || null)}
+      >
+        <option value="">Guest (not saved)</option>
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}{profile.className ? ` (${profile.className})` : ''}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => setIsCreating(true)}
+        className="py-2 px-4 bg-gray-200 text-gray-700 font-semibold rounded-full hover:bg-blue-100 hover:text-blue-700"
+      >
+        + New Student
+      </button>
+    </div>
+  );
+};
+
+export default ProfileSelector;
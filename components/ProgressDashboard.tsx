@@ -0,0 +1,150 @@
+// prettier-ignore
+import React, { useState, useEffect, useMemo } from 'react';
+import { EvaluationRecord, EvaluationType, LearnerProfile, PracticeResult } from '../types';
+import { listEvaluations, listPracticeResults } from '../services/historyStore';
+import { getGrammarErrorType } from '../services/grammarTaxonomy';
+import {
+  scoreKeysFor,
+  overallKeyFor,
+  formatScoreLabel,
+  weeklyAverages,
+  bestAndWorstSessions,
+  mostImproved,
+} from '../utils/progressStats';
+import { accuracyByTag } from '../utils/exercises';
+import ScoreTrendChart from './ScoreTrendChart';
+import WeaknessProfileView from './WeaknessProfileView';
+
+// Practice accuracy is summarised over the latest sets only, so it reflects current skill.
+const RECENT_PRACTICE_SETS = 10;
+
+interface ProgressDashboardProps {
+  profile: LearnerProfile;
+}
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ profile }) => {
+  const [records, setRecords] = useState<EvaluationRecord[]>([]);
+  const [practice, setPractice] = useState<PracticeResult[]>([]);
+  const [type, setType] = useState<EvaluationType>('writing');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([listEvaluations(profile.id), listPracticeResults(profile.id)])
+      .then(([evaluations, practiceResults]) => {
+        if (!cancelled) {
+          setRecords(evaluations);
+          setPractice(practiceResults);
+        }
+      })
+      .catch((err: any) => {
+        console.error('Failed to load progress:', err);
+        if (!cancelled) setError(err.message || 'Could not load progress.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [profile.id]);
+
+  const typeRecords = useMemo(() => records.filter(record => record.type === type), [records, type]);
+  const categories = scoreKeysFor(type);
+  const improved = useMemo(() => mostImproved(typeRecords, categories), [typeRecords, categories]);
+  const { best, worst } = useMemo(() => bestAndWorstSessions(typeRecords, overallKeyFor(type)), [typeRecords, type]);
+  const recentPractice = practice.slice(0, RECENT_PRACTICE_SETS);
+  const practiceAnswers = useMemo(() => practice.slice(0, RECENT_PRACTICE_SETS).flatMap(result => result.answers), [practice]);
+  const practiceCorrect = practiceAnswers.filter(answer => answer.correct).length;
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-indigo-700">{profile.name}'s Progress</h2>
+        <div className="flex gap-2">
+          {(['writing', 'speaking'] as EvaluationType[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setType(option)}
+              className={`px-4 py-2 rounded-full font-semibold transition-all duration-300
+                ${type === option ? 'bg-blue-600 text-white shadow-md' : 'bg-gray-200 text-gray-700 hover:bg-blue-100 hover:text-blue-700'}`}
+            >
+              {option === 'writing' ? '📝 Writing' : '🗣️ Speaking'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-red-700">{error}</p>}
+
+      {typeRecords.length === 0 ? (
+        <p className="text-gray-500">No {type} practice saved yet. Scores will appear here after some practice! ✨</p>
+      ) : (
+        <>
+          {improved && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-green-800 animate-fade-in">
+              <p className="font-semibold text-lg">🌟 Most improved: {formatScoreLabel(improved.category)}</p>
+              <p>Up from {improved.from}/10 to {improved.to}/10 (+{improved.change}). Keep it up!</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {categories.map(category => (
+              <ScoreTrendChart
+                key={category}
+                title={formatScoreLabel(category)}
+                points={weeklyAverages(typeRecords, category)}
+              />
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+            {best && (
+              <div className="p-3 bg-white rounded-lg shadow-sm border border-gray-200">
+                <p className="text-sm text-gray-500">🏆 Best session · {formatDate(best.record.createdAt)}</p>
+                <p className="text-xl font-bold text-indigo-600">{best.score}/10</p>
+                <p className="text-gray-700 truncate italic">"{best.record.input}"</p>
+              </div>
+            )}
+            {worst && worst.record.id !== best?.record.id && (
+              <div className="p-3 bg-white rounded-lg shadow-sm border border-gray-200">
+                <p className="text-sm text-gray-500">💪 Needs more practice · {formatDate(worst.record.createdAt)}</p>
+                <p className="text-xl font-bold text-indigo-600">{worst.score}/10</p>
+                <p className="text-gray-700 truncate italic">"{worst.record.input}"</p>
+              </div>
+            )}
+          </div>
+
+          {type === 'writing' && (
+            <div className="mt-6">
+              <WeaknessProfileView records={typeRecords} title="🔍 Mistakes to work on" />
+            </div>
+          )}
+        </>
+      )}
+
+      {practiceAnswers.length > 0 && (
+        <div className="mt-6 p-4 bg-white rounded-lg shadow-sm border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-700">🏋️ Grammar practice</h3>
+          <p className="text-sm text-gray-500 mb-3">
+            {practiceCorrect} of {practiceAnswers.length} right in the last {recentPractice.length} practice set{recentPractice.length === 1 ? '' : 's'}
+            {' '}· latest on {formatDate(practice[0].createdAt)}
+          </p>
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+            {accuracyByTag(practiceAnswers).map(entry => (
+              <li key={entry.tag} className="flex justify-between p-2 bg-gray-50 rounded-md">
+                <span className="text-gray-700">{getGrammarErrorType(entry.tag).label}</span>
+                <span className={`font-semibold ${entry.correct / entry.total >= 0.8 ? 'text-green-700' : 'text-orange-700'}`}>
+                  {entry.correct}/{entry.total}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,224 @@
+// prettier-ignore
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { startLiveSpeakingSession } from '../services/evaluationService';
+import { listReadingPassages } from '../services/readingPassages';
+import { getLearnerLevel } from '../services/learnerLevels';
+import { SpeakingFeedback, LearnerLevelId, ReadingResult } from '../types';
+import { alignReading, scoreReading } from '../utils/readingAlignment';
+import { decodeWav, encodeWav, joinRecordings } from '../utils/wav';
+import { LIVE_INPUT_SAMPLE_RATE } from '../utils/pcm';
+import ReadingPassageView from './ReadingPassageView';
+
+interface ReadAloudPracticeProps {
+  level: LearnerLevelId;
+  onSubmitTranscriptForEvaluation: (transcript: string, audio?: Blob) => Promise<SpeakingFeedback | null>;
+  onResult: (result: ReadingResult | null) => void;
+  isLoadingGlobal: boolean;
+  errorGlobal: string | null;
+  onClearFeedback: () => void;
+  onSetLoading: (isLoading: boolean) => void;
+  onSetError: (error: string | null) => void;
+}
+
+const CUSTOM_PASSAGE_ID = 'custom';
+
+// The student may pause mid-passage, which the live session treats as separate turns,
+// so their recordings are joined into one for the evaluation.
+const joinStudentAudio = async (recordings: Blob[]): Promise<Blob | undefined> => {
+  if (recordings.length === 0) return undefined;
+  const parts = await Promise.all(recordings.map(async recording => decodeWav(await recording.arrayBuffer())));
+  return encodeWav(joinRecordings(parts, LIVE_INPUT_SAMPLE_RATE));
+};
+
+const ReadAloudPractice: React.FC<ReadAloudPracticeProps> = ({
+  level,
+  onSubmitTranscriptForEvaluation,
+  onResult,
+  isLoadingGlobal,
+  errorGlobal,
+  onClearFeedback,
+  onSetLoading,
+  onSetError,
+}) => {
+  const passages = useMemo(() => listReadingPassages(level), [level]);
+  const [passageId, setPassageId] = useState<string>(passages[0]?.id ?? CUSTOM_PASSAGE_ID);
+  const [customText, setCustomText] = useState<string>('');
+  const [isReading, setIsReading] = useState<boolean>(false);
+  const [spoken, setSpoken] = useState<string>('');
+
+  const liveSessionRef = useRef<{ close: () => void } | null>(null);
+  const completedTextRef = useRef<string>('');   // Student text from finished turns
+  const spokenRef = useRef<string>('');
+  const recordingsRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef<number | null>(null);  // When the student started reading
+  const lastHeardAtRef = useRef<number | null>(null); // When their words last changed
+
+  const passage = passageId === CUSTOM_PASSAGE_ID
+    ? { id: null, text: customText.trim() }
+    : { id: passageId, text: passages.find(item => item.id === passageId)?.text ?? '' };
+
+  const liveWords = useMemo(() => alignReading(passage.text, spoken), [passage.text, spoken]);
+
+  const updateSpoken = useCallback((text: string) => {
+    if (text === spokenRef.current) return;
+    const now = Date.now();
+    startedAtRef.current ??= now;
+    lastHeardAtRef.current = now;
+    spokenRef.current = text;
+    setSpoken(text);
+  }, []);
+
+  const finishReading = useCallback(async () => {
+    const session = liveSessionRef.current;
+    if (!session) return; // Already finished
+    liveSessionRef.current = null;
+    session.close();
+    setIsReading(false);
+    const text = spokenRef.current.trim();
+    if (!text) return;
+
+    const seconds = ((lastHeardAtRef.current ?? 0) - (startedAtRef.current ?? 0)) / 1000;
+    onResult(scoreReading(alignReading(passage.text, text), seconds, passage.id));
+
+    onSetLoading(true);
+    try {
+      await onSubmitTranscriptForEvaluation(text, await joinStudentAudio(recordingsRef.current));
+    } catch (evalError: any) {
+      onSetError(evalError.message || 'Failed to get feedback on your reading.');
+    } finally {
+      onSetLoading(false);
+    }
+  }, [passage.text, passage.id, onResult, onSetLoading, onSetError, onSubmitTranscriptForEvaluation]);
+
+  // Finishing from a live-session callback must use the latest passage and props.
+  const finishReadingRef = useRef(finishReading);
+  finishReadingRef.current = finishReading;
+
+  const startReading = useCallback(async () => {
+    if (!passage.text) {
+      onSetError('Choose a passage or type one in first.');
+      return;
+    }
+    onClearFeedback();
+    onResult(null);
+    onSetError(null);
+    onSetLoading(true);
+    completedTextRef.current = '';
+    spokenRef.current = '';
+    recordingsRef.current = [];
+    startedAtRef.current = null;
+    lastHeardAtRef.current = null;
+    setSpoken('');
+
+    try {
+      const sessionHandle = await startLiveSpeakingSession({
+        onTurnEvent: (event) => {
+          if (event.type === 'partialTranscript') {
+            updateSpoken(`${completedTextRef.current} ${event.student}`.trim());
+          } else if (event.type === 'turnComplete') {
+            completedTextRef.current = `${completedTextRef.current} ${event.student}`.trim();
+            updateSpoken(completedTextRef.current);
+            if (event.audio?.student) recordingsRef.current.push(event.audio.student);
+            // Stop by itself once every word of the passage has been reached.
+            if (!alignReading(passage.text, completedTextRef.current).some(word => word.status === 'pending')) {
+              void finishReadingRef.current();
+            }
+          }
+        },
+        onAIStartSpeaking: () => undefined,
+        onAIStopSpeaking: () => undefined,
+        onError: (message) => {
+          onSetError(message);
+          setIsReading(false);
+          onSetLoading(false);
+        },
+        onClose: () => {
+          // If the connection ends early, mark what was read so far.
+          setIsReading(false);
+          void finishReadingRef.current();
+        },
+      }, { level, readAloudPassage: passage.text });
+      liveSessionRef.current = sessionHandle;
+      setIsReading(true);
+      onSetLoading(false);
+    } catch (error: any) {
+      console.error('Error starting read-aloud session:', error);
+      onSetError(error.message || 'Could not start reading practice. Please check microphone permissions.');
+      onSetLoading(false);
+      setIsReading(false);
+    }
+  }, [passage.text, level, onClearFeedback, onResult, onSetError, onSetLoading, updateSpoken]);
+
+  // Clean up session on component unmount
+  useEffect(() => {
+    return () => {
+      liveSessionRef.current?.close();
+    };
+  }, []);
+
+  return (
+    <div className="mb-8 p-4 bg-teal-50 rounded-lg shadow-inner text-center">
+      <p className="block text-lg font-medium text-gray-800 mb-3">Read the passage aloud, as clearly as you can!</p>
+
+      <div className="flex flex-wrap justify-center gap-2 mb-4">
+        {passages.map(item => (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => setPassageId(item.id)}
+            disabled={isReading}
+            className={`px-4 py-2 rounded-full text-sm font-semibold transition-all duration-300 disabled:opacity-50
+              ${passageId === item.id ? 'bg-teal-600 text-white shadow-md' : 'bg-white text-gray-700 border border-gray-200 hover:bg-teal-100'}`}
+          >
+            {item.title}
+            {item.level !== level && <span className="ml-1 font-normal opacity-75">({getLearnerLevel(item.level).label})</span>}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => setPassageId(CUSTOM_PASSAGE_ID)}
+          disabled={isReading}
+          className={`px-4 py-2 rounded-full text-sm font-semibold transition-all duration-300 disabled:opacity-50
+            ${passageId === CUSTOM_PASSAGE_ID ? 'bg-teal-600 text-white shadow-md' : 'bg-white text-gray-700 border border-gray-200 hover:bg-teal-100'}`}
+        >
+          ✏️ My own passage
+        </button>
+      </div>
+
+      {passageId === CUSTOM_PASSAGE_ID && !isReading && (
+        <textarea
+          className="w-full p-3 mb-4 border border-teal-300 rounded-lg text-gray-800"
+          rows={4}
+          placeholder="Paste or type the passage to read..."
+          value={customText}
+          onChange={(e) => setCustomText(e.target.value)}
+        />
+      )}
+
+      {passage.text && <div className="mb-4"><ReadingPassageView words={liveWords} /></div>}
+
+      <p className="text-gray-600 text-sm mb-4 min-h-[24px]">
+        {errorGlobal ? `Error: ${errorGlobal}` : isReading ? 'Listening... read at your own pace. 🎤' : 'Press Start when you are ready. ✨'}
+      </p>
+
+      {!isReading ? (
+        <button
+          onClick={startReading}
+          className="w-full py-3 px-6 bg-green-600 text-white font-bold rounded-full shadow-md hover:bg-green-700 transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={isLoadingGlobal || !passage.text}
+        >
+          {isLoadingGlobal ? 'Please wait...' : '📖 Start Reading'}
+        </button>
+      ) : (
+        <button
+          onClick={() => void finishReading()}
+          className="w-full py-3 px-6 bg-red-600 text-white font-bold rounded-full shadow-md hover:bg-red-700 transition-colors duration-300"
+        >
+          I've Finished
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ReadAloudPractice;
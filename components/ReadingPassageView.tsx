@@ -0,0 +1,42 @@
+// prettier-ignore
+import React from 'react';
+import { ReadingWord, ReadingWordStatus } from '../types';
+
+interface ReadingPassageViewProps {
+  words: ReadingWord[];
+}
+
+const STATUS_CLASSES: Record<ReadingWordStatus, string> = {
+  correct: 'bg-green-100 text-green-800',
+  substituted: 'bg-orange-100 text-orange-800 underline decoration-wavy decoration-orange-400',
+  skipped: 'bg-red-100 text-red-700 line-through',
+  inserted: 'text-purple-600 italic text-sm',
+  pending: 'text-gray-500',
+};
+
+export const READING_STATUS_LABELS: Record<ReadingWordStatus, string> = {
+  correct: 'Read correctly',
+  substituted: 'Said a different word',
+  skipped: 'Skipped',
+  inserted: 'Extra word',
+  pending: 'Not read yet',
+};
+
+// The passage with every word coloured by how it was read. Extra words the student said
+// are shown in brackets where they were said.
+const ReadingPassageView: React.FC<ReadingPassageViewProps> = ({ words }) => (
+  <p className="p-4 bg-white rounded-lg border border-gray-200 text-lg leading-loose text-left">
+    {words.map((word, index) => (
+      <React.Fragment key={index}>
+        <span
+          className={`rounded px-1 ${STATUS_CLASSES[word.status]}`}
+          title={word.status === 'substituted' ? `You said "${word.spoken}"` : READING_STATUS_LABELS[word.status]}
+        >
+          {word.status === 'inserted' ? `[${word.spoken}]` : word.reference}
+        </span>{' '}
+      </React.Fragment>
+    ))}
+  </p>
+);
+
+export default ReadingPassageView;
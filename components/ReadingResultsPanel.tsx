@@ -0,0 +1,42 @@
+// prettier-ignore
+import React from 'react';
+import { ReadingResult, ReadingWordStatus } from '../types';
+import ReadingPassageView, { READING_STATUS_LABELS } from './ReadingPassageView';
+
+interface ReadingResultsPanelProps {
+  result: ReadingResult;
+}
+
+const COUNTED_STATUSES: ReadingWordStatus[] = ['correct', 'substituted', 'skipped', 'inserted'];
+
+const ReadingResultsPanel: React.FC<ReadingResultsPanelProps> = ({ result }) => (
+  <div className="p-6 bg-gradient-to-r from-green-50 to-teal-50 rounded-xl shadow-lg border border-green-200 animate-fade-in">
+    <h2 className="text-2xl font-bold text-teal-700 mb-4">📖 Reading Results</h2>
+
+    <div className="grid grid-cols-2 gap-4 text-center mb-4">
+      <div className="bg-white p-3 rounded-lg shadow-sm border border-gray-200">
+        <p className="text-sm text-gray-500">Accuracy</p>
+        <p className="text-xl font-bold text-teal-600">{result.accuracy}%</p>
+      </div>
+      <div className="bg-white p-3 rounded-lg shadow-sm border border-gray-200">
+        <p className="text-sm text-gray-500">Words correct per minute</p>
+        <p className="text-xl font-bold text-teal-600">{result.wordsCorrectPerMinute}</p>
+      </div>
+    </div>
+    <p className="text-sm text-gray-600 mb-3">
+      {result.correctCount} of {result.attemptedCount} words read correctly in {result.durationSeconds} seconds.
+    </p>
+
+    <ul className="flex flex-wrap gap-2 mb-4 text-sm">
+      {COUNTED_STATUSES.map(status => (
+        <li key={status} className="px-2 py-1 bg-white rounded-full border border-gray-200 text-gray-700">
+          {READING_STATUS_LABELS[status]}: {result.words.filter(word => word.status === status).length}
+        </li>
+      ))}
+    </ul>
+
+    <ReadingPassageView words={result.words} />
+  </div>
+);
+
+export default ReadingResultsPanel;
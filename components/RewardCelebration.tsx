@@ -0,0 +1,60 @@
+// prettier-ignore
+import React, { useEffect, useState } from 'react';
+import { RewardEvent } from '../types';
+import { isMilestone } from '../utils/rewards';
+
+interface RewardCelebrationProps {
+  reward: RewardEvent;
+}
+
+const CELEBRATION_MS = 3000;
+
+// Shown with the feedback: the XP earned, plus a bouncing party for streaks, levels and badges.
+const RewardCelebration: React.FC<RewardCelebrationProps> = ({ reward }) => {
+  const [isCelebrating, setIsCelebrating] = useState<boolean>(isMilestone(reward));
+
+  useEffect(() => {
+    setIsCelebrating(isMilestone(reward));
+    const timer = setTimeout(() => setIsCelebrating(false), CELEBRATION_MS);
+    return () => clearTimeout(timer);
+  }, [reward]);
+
+  return (
+    <div className="mb-4 p-4 bg-gradient-to-r from-yellow-50 to-amber-100 border border-amber-300 rounded-lg" role="status">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className={`text-3xl ${isCelebrating ? 'animate-bounce' : ''}`}>🎉</span>
+        <p className="text-xl font-bold text-amber-700">+{reward.xpEarned} XP</p>
+        {reward.improvementBonus > 0 && (
+          <span className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-sm font-semibold">
+            📈 +{reward.improvementBonus} for beating your average!
+          </span>
+        )}
+        {reward.streakExtended && (
+          <span className="px-3 py-1 bg-orange-100 text-orange-700 rounded-full text-sm font-semibold">
+            🔥 {reward.streak}-day streak!
+          </span>
+        )}
+        {reward.levelUp !== null && (
+          <span className="px-3 py-1 bg-indigo-100 text-indigo-700 rounded-full text-sm font-semibold">
+            ⭐ Level {reward.levelUp}!
+          </span>
+        )}
+      </div>
+      {reward.newBadges.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {reward.newBadges.map(badge => (
+            <div key={badge.id} className="flex items-center gap-2 px-3 py-2 bg-white rounded-lg shadow-sm border border-amber-200">
+              <span className={`text-2xl ${isCelebrating ? 'animate-bounce' : ''}`}>{badge.emoji}</span>
+              <div className="text-left">
+                <p className="font-semibold text-gray-800">New badge: {badge.title}</p>
+                <p className="text-sm text-gray-600">{badge.description}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RewardCelebration;
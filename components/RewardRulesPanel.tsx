@@ -0,0 +1,76 @@
+// prettier-ignore
+import React, { useState, useCallback, useRef } from 'react';
+import { RewardRules } from '../types';
+import { loadRewardRules, importRewardRulesFromJson, resetRewardRules } from '../services/rewardRules';
+import { downloadFile, readFileAsText } from '../utils/download';
+import { formatScoreLabel } from '../utils/progressStats';
+
+// Lets a teacher see and tune the XP and badge rules: download them as JSON, edit, import.
+const RewardRulesPanel: React.FC = () => {
+  const [rules, setRules] = useState<RewardRules>(() => loadRewardRules());
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleDownload = useCallback(() => {
+    downloadFile('reward-rules.json', JSON.stringify(rules, null, 2), 'application/json');
+  }, [rules]);
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = importRewardRulesFromJson(await readFileAsText(file));
+      setRules(loadRewardRules());
+      setMessage(`Rules updated with ${result.badges} badges.` + (result.errors.length ? ` Skipped: ${result.errors.join(' ')}` : ''));
+    } catch (err: any) {
+      console.error('Reward rules import failed:', err);
+      setMessage(err.message || 'Could not import the rules.');
+    }
+  }, []);
+
+  const handleReset = useCallback(() => {
+    resetRewardRules();
+    setRules(loadRewardRules());
+    setMessage('Back to the built-in rules.');
+  }, []);
+
+  return (
+    <div className="mt-8 p-4 bg-amber-50 rounded-lg border border-amber-200">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h3 className="text-xl font-bold text-amber-700">🏅 Rewards</h3>
+        <div className="flex flex-wrap gap-2 text-sm">
+          <button type="button" onClick={handleDownload} className="py-1 px-3 bg-white text-amber-700 font-semibold rounded-full border border-amber-300 hover:bg-amber-100">
+            Download rules
+          </button>
+          <button type="button" onClick={() => fileInputRef.current?.click()} className="py-1 px-3 bg-white text-amber-700 font-semibold rounded-full border border-amber-300 hover:bg-amber-100">
+            Import rules (JSON)
+          </button>
+          <button type="button" onClick={handleReset} className="py-1 px-3 bg-white text-gray-600 font-semibold rounded-full border border-gray-300 hover:bg-gray-100">
+            Reset
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      {message && <p className="mb-3 text-sm text-gray-700">{message}</p>}
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-700 mb-3">
+        {Object.entries(rules.xp).map(([key, value]) => (
+          <span key={key}>{formatScoreLabel(key)}: <span className="font-semibold">{value}</span></span>
+        ))}
+      </div>
+      <ul className="grid gap-2 sm:grid-cols-2 text-sm">
+        {rules.badges.map(badge => (
+          <li key={badge.id} className="p-2 bg-white rounded-md border border-gray-200">
+            <span className="mr-1">{badge.emoji}</span>
+            <span className="font-semibold text-gray-800">{badge.title}</span>
+            <span className="block text-gray-500">{badge.description} ({badge.metric} ≥ {badge.threshold})</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RewardRulesPanel;
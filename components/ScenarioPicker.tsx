@@ -0,0 +1,38 @@
+// prettier-ignore
+import React from 'react';
+import { LearnerLevelId, RolePlayScenario } from '../types';
+import { ROLE_PLAY_SCENARIOS } from '../services/rolePlayScenarios';
+import { getLearnerLevel } from '../services/learnerLevels';
+
+interface ScenarioPickerProps {
+  level: LearnerLevelId;
+  selectedId: string | null; // null for a free conversation
+  onSelect: (scenario: RolePlayScenario | null) => void;
+  disabled?: boolean;
+}
+
+const chipClass = (selected: boolean) =>
+  `px-4 py-2 rounded-full text-sm font-semibold transition-all duration-300 disabled:opacity-50
+  ${selected ? 'bg-purple-600 text-white shadow-md' : 'bg-white text-gray-700 border border-gray-200 hover:bg-purple-100'}`;
+
+const ScenarioPicker: React.FC<ScenarioPickerProps> = ({ level, selectedId, onSelect, disabled }) => (
+  <div className="flex flex-wrap justify-center gap-2 mb-4" role="group" aria-label="Role-play scenario">
+    <button type="button" onClick={() => onSelect(null)} disabled={disabled} className={chipClass(selectedId === null)}>
+      💬 Free conversation
+    </button>
+    {ROLE_PLAY_SCENARIOS.map(scenario => (
+      <button
+        key={scenario.id}
+        type="button"
+        onClick={() => onSelect(scenario)}
+        disabled={disabled}
+        className={chipClass(selectedId === scenario.id)}
+      >
+        {scenario.emoji} {scenario.title}
+        {scenario.level !== level && <span className="ml-1 font-normal opacity-75">({getLearnerLevel(scenario.level).label})</span>}
+      </button>
+    ))}
+  </div>
+);
+
+export default ScenarioPicker;
@@ -0,0 +1,61 @@
+// prettier-ignore
+import React from 'react';
+import { WeeklyAverage } from '../utils/progressStats';
+
+interface ScoreTrendChartProps {
+  title: string;
+  points: WeeklyAverage[];
+}
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 28 };
+const GRID_SCORES = [0, 5, 10];
+
+const formatWeek = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+// A small, dependency-free SVG line chart of weekly average scores on a 0-10 scale.
+const ScoreTrendChart: React.FC<ScoreTrendChartProps> = ({ title, points }) => {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) =>
+    PADDING.left + (points.length === 1 ? plotWidth / 2 : (index / (points.length - 1)) * plotWidth);
+  const y = (score: number) => PADDING.top + plotHeight - (score / 10) * plotHeight;
+
+  const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${x(index)},${y(point.average)}`).join(' ');
+
+  return (
+    <div className="bg-white p-3 rounded-lg shadow-sm border border-gray-200">
+      <p className="text-sm font-semibold text-gray-600 mb-1">{title}</p>
+      {points.length === 0 ? (
+        <p className="text-sm text-gray-400 py-8 text-center">No scores yet</p>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${title} weekly average`}>
+          {GRID_SCORES.map(score => (
+            <g key={score}>
+              <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(score)} y2={y(score)} stroke="#e5e7eb" />
+              <text x={PADDING.left - 6} y={y(score) + 4} textAnchor="end" fontSize="10" fill="#9ca3af">{score}</text>
+            </g>
+          ))}
+          <path d={path} fill="none" stroke="#4f46e5" strokeWidth="2" />
+          {points.map((point, index) => (
+            <g key={point.weekStart}>
+              <circle cx={x(index)} cy={y(point.average)} r="4" fill="#4f46e5">
+                <title>{`Week of ${formatWeek(point.weekStart)}: ${point.average}/10 (${point.count} sessions)`}</title>
+              </circle>
+              {(index === 0 || index === points.length - 1) && (
+                <text x={x(index)} y={HEIGHT - 6} textAnchor="middle" fontSize="10" fill="#6b7280">
+                  {formatWeek(point.weekStart)}
+                </text>
+              )}
+            </g>
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+};
+
+export default ScoreTrendChart;
@@ -0,0 +1,129 @@
+// prettier-ignore
+import React, { useCallback, useState } from 'react';
+import { SessionReport, TurnRecording } from '../types';
+import { SPEAKING_SCORE_KEYS, formatScoreLabel } from '../utils/progressStats';
+import { formatSessionReportText } from '../utils/sessionReport';
+import { downloadFile } from '../utils/download';
+import { decodeWav, encodeWav, joinRecordings } from '../utils/wav';
+import { LIVE_OUTPUT_SAMPLE_RATE } from '../utils/pcm';
+
+interface SessionReportViewProps {
+  report: SessionReport;
+  studentName?: string;
+  recordings?: TurnRecording[]; // In the order they were spoken
+  onClose: () => void;
+}
+
+// One WAV of the whole conversation, at the coach's (higher) rate so nothing is lost.
+const buildSessionRecording = async (recordings: TurnRecording[]): Promise<Blob> => {
+  const parts = await Promise.all(recordings.map(async recording => decodeWav(await recording.audio.arrayBuffer())));
+  return encodeWav(joinRecordings(parts, LIVE_OUTPUT_SAMPLE_RATE));
+};
+
+const SessionReportView: React.FC<SessionReportViewProps> = ({ report, studentName, recordings = [], onClose }) => {
+  const [isPreparingAudio, setIsPreparingAudio] = useState<boolean>(false);
+  const minutes = Math.max(1, Math.round((report.endedAt - report.startedAt) / 60000));
+  const fileBase = `speaking-session-${new Date(report.startedAt).toISOString().slice(0, 16).replace(/[T:]/g, '-')}`;
+
+  const handleExportText = useCallback(() => {
+    downloadFile(`${fileBase}.txt`, formatSessionReportText(report, studentName), 'text/plain;charset=utf-8');
+  }, [report, studentName, fileBase]);
+
+  const handleExportJson = useCallback(() => {
+    downloadFile(`${fileBase}.json`, JSON.stringify(report, null, 2), 'application/json');
+  }, [report, fileBase]);
+
+  const handleExportAudio = useCallback(async () => {
+    setIsPreparingAudio(true);
+    try {
+      downloadFile(`${fileBase}.wav`, await buildSessionRecording(recordings), 'audio/wav');
+    } catch (err) {
+      console.error('Failed to build the session recording:', err);
+    } finally {
+      setIsPreparingAudio(false);
+    }
+  }, [recordings, fileBase]);
+
+  return (
+    <div className="mt-6 p-6 bg-gradient-to-r from-purple-50 to-indigo-50 rounded-xl shadow-lg border border-purple-200 text-left animate-fade-in">
+      <div className="flex items-start justify-between gap-3">
+        <h2 className="text-2xl font-bold text-indigo-700">🎉 Session Report</h2>
+        <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close report">✕</button>
+      </div>
+      <p className="text-gray-600 mb-4">
+        You talked for about {minutes} minute{minutes === 1 ? '' : 's'} and took {report.turns.length} turn{report.turns.length === 1 ? '' : 's'}.
+      </p>
+
+      {report.rolePlay && (
+        <div className="mb-4 p-4 bg-white rounded-lg border border-gray-200">
+          <p className="text-lg font-semibold text-gray-700">🎭 {report.rolePlay.title}</p>
+          <p className="text-gray-700 mt-1">
+            {report.rolePlay.goalReached ? '✅ You reached the goal:' : '❌ Not reached yet:'} {report.rolePlay.goal}
+          </p>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {report.rolePlay.targetPhrasesUsed.map(phrase => (
+              <span key={phrase} className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-sm">✓ {phrase}</span>
+            ))}
+            {report.rolePlay.targetPhrasesMissed.map(phrase => (
+              <span key={phrase} className="px-3 py-1 bg-gray-100 text-gray-500 rounded-full text-sm">Try: {phrase}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {report.averageScores ? (
+        <div className="grid grid-cols-2 gap-4 text-center">
+          {SPEAKING_SCORE_KEYS.map(key => (
+            <div key={key} className="bg-white p-3 rounded-lg shadow-sm border border-gray-200">
+              <p className="text-sm text-gray-500">Average {formatScoreLabel(key)}</p>
+              <p className="text-xl font-bold text-indigo-600">{report.averageScores![key]}/10</p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-500">No turns were scored in this session.</p>
+      )}
+
+      {report.bestSentence && (
+        <div className="mt-4">
+          <p className="text-lg font-semibold text-gray-700">🏆 Your best sentence:</p>
+          <p className="p-3 bg-green-50 border border-green-200 rounded-md text-green-800 italic">
+            "{report.bestSentence.text}" ({report.bestSentence.score}/10)
+          </p>
+        </div>
+      )}
+
+      {report.recurringProblems.length > 0 && (
+        <div className="mt-4">
+          <p className="text-lg font-semibold text-gray-700">💪 Things to practise:</p>
+          <ul className="list-disc list-inside space-y-1 text-gray-700">
+            {report.recurringProblems.map(({ problem, count }) => (
+              <li key={problem}>{problem} <span className="text-sm text-gray-500">(came up {count} times)</span></li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="mt-6 flex flex-wrap gap-2">
+        <button type="button" onClick={handleExportText} className="py-2 px-4 bg-indigo-100 text-indigo-700 font-semibold rounded-full hover:bg-indigo-200">
+          Download report (text)
+        </button>
+        <button type="button" onClick={handleExportJson} className="py-2 px-4 bg-indigo-100 text-indigo-700 font-semibold rounded-full hover:bg-indigo-200">
+          Download report (JSON)
+        </button>
+        {recordings.length > 0 && (
+          <button
+            type="button"
+            onClick={handleExportAudio}
+            disabled={isPreparingAudio}
+            className="py-2 px-4 bg-indigo-100 text-indigo-700 font-semibold rounded-full hover:bg-indigo-200 disabled:opacity-50"
+          >
+            {isPreparingAudio ? 'Preparing audio...' : 'Download recordings (WAV)'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionReportView;
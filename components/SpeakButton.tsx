@@ -0,0 +1,42 @@
+// prettier-ignore
+import React, { useState, useCallback } from 'react';
+import { speakText } from '../services/pronunciation';
+
+interface SpeakButtonProps {
+  text: string;
+  className?: string;
+}
+
+const SpeakButton: React.FC<SpeakButtonProps> = ({ text, className = '' }) => {
+  const [isSpeaking, setIsSpeaking] = useState<boolean>(false);
+  const [failed, setFailed] = useState<boolean>(false);
+
+  const handleClick = useCallback(async (e: React.MouseEvent) => {
+    e.stopPropagation(); // Flashcards flip when clicked
+    setIsSpeaking(true);
+    setFailed(false);
+    try {
+      await speakText(text);
+    } catch (err) {
+      console.error('Failed to read the word aloud:', err);
+      setFailed(true);
+    } finally {
+      setIsSpeaking(false);
+    }
+  }, [text]);
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={isSpeaking}
+      title={failed ? 'Could not play the word. Try again.' : `Listen to "${text}"`}
+      aria-label={`Listen to ${text}`}
+      className={`px-2 rounded-full hover:bg-indigo-100 disabled:opacity-50 ${className}`}
+    >
+      {isSpeaking ? '⏳' : failed ? '🔇' : '🔊'}
+    </button>
+  );
+};
+
+export default SpeakButton;
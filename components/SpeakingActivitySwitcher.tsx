@@ -0,0 +1,33 @@
+// prettier-ignore
+import React from 'react';
+import { SpeakingActivity } from '../types';
+
+interface SpeakingActivitySwitcherProps {
+  activity: SpeakingActivity;
+  onActivityChange: (activity: SpeakingActivity) => void;
+  disabled?: boolean;
+}
+
+const ACTIVITIES: { value: SpeakingActivity; label: string }[] = [
+  { value: 'conversation', label: '💬 Conversation' },
+  { value: 'readAloud', label: '📖 Read Aloud' },
+];
+
+const SpeakingActivitySwitcher: React.FC<SpeakingActivitySwitcherProps> = ({ activity, onActivityChange, disabled }) => (
+  <div className="flex justify-center gap-2 mb-4" role="group" aria-label="Speaking activity">
+    {ACTIVITIES.map(option => (
+      <button
+        key={option.value}
+        type="button"
+        onClick={() => onActivityChange(option.value)}
+        disabled={disabled}
+        className={`px-4 py-2 rounded-full text-sm font-semibold transition-all duration-300 disabled:opacity-50
+          ${activity === option.value ? 'bg-purple-600 text-white shadow-md' : 'bg-white text-gray-700 border border-gray-200 hover:bg-purple-100'}`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+export default SpeakingActivitySwitcher;
@@ -1,10 +1,22 @@
 // prettier-ignore
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { startLiveSpeakingSession, getEvaluation } from '../services/geminiService';
-import { SpeakingFeedback } from '../types';
+import { startLiveSpeakingSession } from '../services/evaluationService';
+import { SpeakingFeedback, LearnerLevelId, ConversationTurn, SessionReport, TurnAudio, TurnRecording, RolePlayScenario } from '../types';
+import { GOAL_REACHED_PHRASE } from '../services/rolePlayScenarios';
+import { buildSessionReport, assessRolePlay } from '../utils/sessionReport';
+import { createId } from '../utils/id';
+import ConversationTranscript from './ConversationTranscript';
+import SessionReportView from './SessionReportView';
+import FeedbackDisplay from './FeedbackDisplay';
+import ScenarioPicker from './ScenarioPicker';
 
 interface SpeakingInterfaceProps {
-  onSubmitTranscriptForEvaluation: (transcript: string) => Promise<SpeakingFeedback | null>;
+  level: LearnerLevelId;
+  profileId: string | null;
+  studentName?: string;
+  onSessionReport: (report: SessionReport) => void;
+  onTurnRecorded: (recordings: TurnRecording[]) => void;
+  onSubmitTranscriptForEvaluation: (transcript: string, audio?: Blob) => Promise<SpeakingFeedback | null>;
   isLoadingGlobal: boolean;
   errorGlobal: string | null;
   onClearFeedback: () => void;
@@ -13,6 +25,11 @@ interface SpeakingInterfaceProps {
 }
 
 const SpeakingInterface: React.FC<SpeakingInterfaceProps> = ({
+  level,
+  profileId,
+  studentName,
+  onSessionReport,
+  onTurnRecorded,
   onSubmitTranscriptForEvaluation,
   isLoadingGlobal,
   errorGlobal,
@@ -25,11 +42,98 @@ const SpeakingInterface: React.FC<SpeakingInterfaceProps> = ({
   const [currentOutputDisplayTranscript, setCurrentOutputDisplayTranscript] = useState<string>('');
   const [isAIThinking, setIsAIThinking] = useState<boolean>(false);
   const [isAIAudioPlaying, setIsAIAudioPlaying] = useState<boolean>(false);
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+  const [selectedTurnId, setSelectedTurnId] = useState<string | null>(null);
+  const [sessionReport, setSessionReport] = useState<SessionReport | null>(null);
+  const [recordings, setRecordings] = useState<TurnRecording[]>([]);
+  const [scenario, setScenario] = useState<RolePlayScenario | null>(null);
 
   const liveSessionRef = useRef<{ close: () => void } | null>(null);
   const inputTranscriptRef = useRef<string>('');
   const outputTranscriptRef = useRef<string>('');
-  const conversationHistoryRef = useRef<string[]>([]); // To store full turns for context if needed
+  // The ref mirrors `turns` so callbacks from the live session always see the latest list.
+  const turnsRef = useRef<ConversationTurn[]>([]);
+  const pendingEvaluationsRef = useRef<Set<Promise<void>>>(new Set());
+  const sessionStartedAtRef = useRef<number | null>(null);
+  const sessionIdRef = useRef<string>(createId());
+
+  const updateTurns = useCallback((update: (current: ConversationTurn[]) => ConversationTurn[]) => {
+    turnsRef.current = update(turnsRef.current);
+    setTurns(turnsRef.current);
+  }, []);
+
+  // Builds the report once per session, after any turn still being evaluated has its feedback.
+  const finishSession = useCallback(async () => {
+    const startedAt = sessionStartedAtRef.current;
+    if (startedAt === null) return;
+    sessionStartedAtRef.current = null;
+    await Promise.all(pendingEvaluationsRef.current);
+    if (turnsRef.current.length === 0) return;
+    const report = buildSessionReport(turnsRef.current, {
+      id: sessionIdRef.current,
+      profileId,
+      level,
+      startedAt,
+      rolePlay: scenario ? assessRolePlay(turnsRef.current, scenario, GOAL_REACHED_PHRASE) : undefined,
+    });
+    setSessionReport(report);
+    onSessionReport(report);
+  }, [profileId, level, scenario, onSessionReport]);
+
+  // Set below; lets a turn end the session once a role-play reaches its turn limit.
+  const stopSpeakingRef = useRef<() => void>(() => undefined);
+
+  const handleTurnComplete = useCallback(async (student: string, coach: string, audio?: TurnAudio) => {
+    const turn: ConversationTurn = { id: createId(), student, coach, feedback: null, createdAt: Date.now() };
+    updateTurns(current => [...current, turn]);
+
+    const turnRecordings = (['student', 'coach'] as const).flatMap(role => {
+      const blob = audio?.[role];
+      return blob ? [{
+        id: `${turn.id}:${role}`,
+        sessionId: sessionIdRef.current,
+        turnId: turn.id,
+        profileId,
+        role,
+        audio: blob,
+        createdAt: turn.createdAt,
+      }] : [];
+    });
+    if (turnRecordings.length > 0) {
+      setRecordings(current => [...current, ...turnRecordings]);
+      onTurnRecorded(turnRecordings);
+    }
+
+    // The finished turn now lives in the transcript, so the live bubbles start fresh
+    inputTranscriptRef.current = '';
+    outputTranscriptRef.current = '';
+    setCurrentInputDisplayTranscript('');
+    setCurrentOutputDisplayTranscript('');
+
+    // The coach can speak first (e.g. a greeting); there is nothing to evaluate then
+    if (!student) return;
+    console.log("Turn complete. Evaluating:", student);
+
+    // Trigger detailed evaluation for the completed student turn
+    onSetLoading(true);
+    const evaluation = (async () => {
+      try {
+        const feedback = await onSubmitTranscriptForEvaluation(student, audio?.student ?? undefined);
+        updateTurns(current => current.map(item => (item.id === turn.id ? { ...item, feedback } : item)));
+      } catch (evalError: any) {
+        onSetError(evalError.message || 'Failed to get detailed feedback for the turn.');
+      } finally {
+        onSetLoading(false);
+      }
+    })();
+    pendingEvaluationsRef.current.add(evaluation);
+    // Stopped only after this turn's evaluation is pending, so the report waits for it
+    if (scenario && turnsRef.current.filter(item => item.student).length >= scenario.turnLimit) {
+      stopSpeakingRef.current();
+    }
+    await evaluation;
+    pendingEvaluationsRef.current.delete(evaluation);
+  }, [onSetLoading, onSetError, onSubmitTranscriptForEvaluation, updateTurns, profileId, onTurnRecorded, scenario]);
 
   const startSpeaking = useCallback(async () => {
     onClearFeedback();
@@ -37,42 +141,33 @@ const SpeakingInterface: React.FC<SpeakingInterfaceProps> = ({
     onSetLoading(true);
     setCurrentInputDisplayTranscript('');
     setCurrentOutputDisplayTranscript('');
-    conversationHistoryRef.current = [];
+    updateTurns(() => []);
+    setSelectedTurnId(null);
+    setSessionReport(null);
+    setRecordings([]);
+    sessionIdRef.current = createId();
+    pendingEvaluationsRef.current.clear();
 
     try {
       const sessionHandle = await startLiveSpeakingSession({
-        onTranscriptionUpdate: (input, output) => {
-          inputTranscriptRef.current = input;
-          outputTranscriptRef.current = output;
-          setCurrentInputDisplayTranscript(input);
-          setCurrentOutputDisplayTranscript(output);
-          if (input.length > 0 || output.length > 0) {
-            setIsAIThinking(true); // AI is processing or speaking
-          } else {
-            setIsAIThinking(false); // No activity
-          }
-        },
-        onTurnComplete: async (fullInputTranscript) => {
-          console.log("Turn complete. Evaluating:", fullInputTranscript);
-          conversationHistoryRef.current.push(`You: ${fullInputTranscript}`);
-          if (outputTranscriptRef.current) {
-            conversationHistoryRef.current.push(`Coach: ${outputTranscriptRef.current}`);
-          }
-          
-          // Clear current turn's display but retain for conversation history
-          inputTranscriptRef.current = '';
-          outputTranscriptRef.current = '';
-          setCurrentInputDisplayTranscript('');
-          setCurrentOutputDisplayTranscript('');
-
-          // Trigger detailed evaluation for the completed student turn
-          onSetLoading(true);
-          try {
-            await onSubmitTranscriptForEvaluation(fullInputTranscript);
-          } catch (evalError: any) {
-            onSetError(evalError.message || 'Failed to get detailed feedback for the turn.');
-          } finally {
-            onSetLoading(false);
+        onTurnEvent: (event) => {
+          switch (event.type) {
+            case 'turnStarted':
+              setIsAIThinking(false);
+              break;
+            case 'partialTranscript':
+              inputTranscriptRef.current = event.student;
+              outputTranscriptRef.current = event.coach;
+              setCurrentInputDisplayTranscript(event.student);
+              setCurrentOutputDisplayTranscript(event.coach);
+              setIsAIThinking(true); // AI is processing or speaking
+              break;
+            case 'interrupted':
+              setIsAIThinking(false);
+              break;
+            case 'turnComplete':
+              void handleTurnComplete(event.student, event.coach, event.audio);
+              break;
           }
         },
         onAIStartSpeaking: () => {
@@ -92,6 +187,7 @@ const SpeakingInterface: React.FC<SpeakingInterfaceProps> = ({
           onSetLoading(false);
         },
         onClose: () => {
+          void finishSession();
           setIsRecording(false);
           onSetLoading(false);
           liveSessionRef.current = null;
@@ -102,8 +198,9 @@ const SpeakingInterface: React.FC<SpeakingInterfaceProps> = ({
           setIsAIThinking(false);
           setIsAIAudioPlaying(false);
         },
-      });
+      }, { level, scenario: scenario ?? undefined });
       liveSessionRef.current = sessionHandle;
+      sessionStartedAtRef.current = Date.now();
       setIsRecording(true);
       onSetLoading(false);
     } catch (error: any) {
@@ -112,7 +209,7 @@ const SpeakingInterface: React.FC<SpeakingInterfaceProps> = ({
       onSetLoading(false);
       setIsRecording(false);
     }
-  }, [onClearFeedback, onSetError, onSetLoading, onSubmitTranscriptForEvaluation]);
+  }, [onClearFeedback, onSetError, onSetLoading, level, scenario, updateTurns, handleTurnComplete, finishSession]);
 
   const stopSpeaking = useCallback(() => {
     if (liveSessionRef.current) {
@@ -123,7 +220,20 @@ const SpeakingInterface: React.FC<SpeakingInterfaceProps> = ({
     onSetLoading(false);
     setIsAIThinking(false);
     setIsAIAudioPlaying(false);
-  }, [onSetLoading]);
+    void finishSession();
+  }, [onSetLoading, finishSession]);
+  stopSpeakingRef.current = stopSpeaking;
+
+  const handleSelectTurn = useCallback((turnId: string) => {
+    setSelectedTurnId(current => (current === turnId ? null : turnId));
+  }, []);
+
+  const studentTurnCount = turns.filter(turn => turn.student).length;
+  const selectedTurn = turns.find(turn => turn.id === selectedTurnId) ?? null;
+  const selectedAudio: TurnAudio = {
+    student: recordings.find(item => item.turnId === selectedTurnId && item.role === 'student')?.audio ?? null,
+    coach: recordings.find(item => item.turnId === selectedTurnId && item.role === 'coach')?.audio ?? null,
+  };
 
   // Clean up session on component unmount
   useEffect(() => {
@@ -151,19 +261,43 @@ const SpeakingInterface: React.FC<SpeakingInterfaceProps> = ({
         Let's practice your English speaking!
       </p>
 
-      <div className="flex flex-col gap-4 text-left mb-6">
-        <div className="bg-white p-3 rounded-lg shadow-sm border border-purple-200">
-          <p className="text-sm font-semibold text-gray-600">You:</p>
-          <p className="text-gray-800 italic min-h-[40px]">
-            {currentInputDisplayTranscript || (isRecording && !isAIThinking && !isAIAudioPlaying ? "..." : "")}
-          </p>
-        </div>
-        <div className="bg-white p-3 rounded-lg shadow-sm border border-blue-200">
-          <p className="text-sm font-semibold text-gray-600">Coach:</p>
-          <p className="text-blue-700 italic min-h-[40px]">
-            {currentOutputDisplayTranscript || (isAIThinking || isAIAudioPlaying ? "..." : "")}
-          </p>
+      {!isRecording && (
+        <ScenarioPicker level={level} selectedId={scenario?.id ?? null} onSelect={setScenario} disabled={isLoadingGlobal} />
+      )}
+
+      {scenario && (
+        <div className="mb-4 p-4 bg-white rounded-lg border border-purple-200 text-left">
+          <div className="flex items-start justify-between gap-3">
+            <p className="font-semibold text-purple-700">{scenario.emoji} {scenario.title}</p>
+            {isRecording && (
+              <span className="text-sm text-gray-500 whitespace-nowrap">
+                Turn {Math.min(studentTurnCount + 1, scenario.turnLimit)} of {scenario.turnLimit}
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 mt-1">The coach is {scenario.coachRole}.</p>
+          <p className="text-gray-700 mt-2"><span className="font-semibold">🎯 Your goal:</span> {scenario.goal}</p>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {scenario.targetPhrases.map(phrase => (
+              <span key={phrase} className="px-3 py-1 bg-purple-100 text-purple-700 rounded-full text-sm">"{phrase}"</span>
+            ))}
+          </div>
         </div>
+      )}
+
+      <div className="mb-6">
+        <ConversationTranscript
+          turns={turns}
+          liveStudentText={currentInputDisplayTranscript || (isRecording && !isAIThinking && !isAIAudioPlaying ? "..." : "")}
+          liveCoachText={currentOutputDisplayTranscript || (isAIThinking || isAIAudioPlaying ? "..." : "")}
+          selectedTurnId={selectedTurnId}
+          onSelectTurn={handleSelectTurn}
+        />
+        {selectedTurn?.feedback && (
+          <div className="mt-4 text-left">
+            <FeedbackDisplay type="speaking" feedback={selectedTurn.feedback} audio={selectedAudio} />
+          </div>
+        )}
       </div>
 
       <p className="text-gray-600 text-sm mb-4 min-h-[24px]">
@@ -201,6 +335,10 @@ const SpeakingInterface: React.FC<SpeakingInterfaceProps> = ({
           Stop Speaking
         </button>
       )}
+
+      {sessionReport && !isRecording && (
+        <SessionReportView report={sessionReport} studentName={studentName} recordings={recordings} onClose={() => setSessionReport(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,102 @@
+// prettier-ignore
+import React, { useState, useCallback, useRef } from 'react';
+import { WritingTask, LearnerLevelId } from '../types';
+import { listWritingTasks, importTasksFromJson } from '../services/writingTasks';
+import { getLearnerLevel } from '../services/learnerLevels';
+import { readFileAsText } from '../utils/download';
+
+interface TaskPickerProps {
+  level: LearnerLevelId;
+  selectedTask: WritingTask | null;
+  onSelectTask: (task: WritingTask | null) => void;
+}
+
+const TaskPicker: React.FC<TaskPickerProps> = ({ level, selectedTask, onSelectTask }) => {
+  const [tasks, setTasks] = useState<WritingTask[]>(() => listWritingTasks());
+  const [showAllLevels, setShowAllLevels] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const visibleTasks = showAllLevels ? tasks : tasks.filter(task => task.level === level);
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = importTasksFromJson(await readFileAsText(file));
+      setTasks(listWritingTasks());
+      setMessage(`Added ${result.imported} tasks.` + (result.errors.length ? ` Skipped: ${result.errors.join(' ')}` : ''));
+    } catch (err: any) {
+      console.error('Task import failed:', err);
+      setMessage(err.message || 'Could not import tasks.');
+    }
+  }, []);
+
+  return (
+    <div className="mb-6 p-4 bg-indigo-50 rounded-lg shadow-inner">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <p className="text-lg font-medium text-gray-800">Choose a writing task</p>
+        <div className="flex items-center gap-3 text-sm">
+          <label className="flex items-center gap-1 text-gray-600">
+            <input type="checkbox" checked={showAllLevels} onChange={(e) => setShowAllLevels(e.target.checked)} />
+            All levels
+          </label>
+          <button type="button" onClick={() => fileInputRef.current?.click()} className="text-indigo-700 font-semibold hover:text-indigo-900">
+            + Import tasks (JSON)
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      {message && <p className="mb-3 text-sm text-gray-700">{message}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => onSelectTask(null)}
+          className={`px-4 py-2 rounded-full text-sm font-semibold transition-all duration-300
+            ${!selectedTask ? 'bg-indigo-600 text-white shadow-md' : 'bg-white text-gray-700 border border-gray-200 hover:bg-indigo-100'}`}
+        >
+          ✏️ Free writing
+        </button>
+        {visibleTasks.map(task => (
+          <button
+            key={task.id}
+            type="button"
+            onClick={() => onSelectTask(task)}
+            className={`px-4 py-2 rounded-full text-sm font-semibold transition-all duration-300
+              ${selectedTask?.id === task.id ? 'bg-indigo-600 text-white shadow-md' : 'bg-white text-gray-700 border border-gray-200 hover:bg-indigo-100'}`}
+          >
+            {task.topic}
+            {showAllLevels && <span className="ml-1 font-normal opacity-75">({getLearnerLevel(task.level).label})</span>}
+          </button>
+        ))}
+      </div>
+      {visibleTasks.length === 0 && (
+        <p className="mt-3 text-sm text-gray-500">No tasks for this level yet. Tick "All levels" to see every task.</p>
+      )}
+
+      {selectedTask && (
+        <div className="mt-4 p-3 bg-white rounded-lg border border-indigo-200 animate-fade-in">
+          {selectedTask.imageUrl && (
+            <img src={selectedTask.imageUrl} alt={selectedTask.picture} className="mb-3 max-h-48 rounded-md mx-auto" />
+          )}
+          <p className="font-semibold text-gray-800">{selectedTask.instructions}</p>
+          {selectedTask.picture && <p className="mt-1 text-gray-600 italic">{selectedTask.picture}</p>}
+          <div className="mt-3 flex flex-wrap gap-2 text-sm">
+            {selectedTask.targetVocabulary.map(word => (
+              <span key={word} className="px-2 py-1 bg-yellow-100 text-yellow-800 rounded-full">{word}</span>
+            ))}
+          </div>
+          <p className="mt-2 text-sm text-gray-500">
+            At least {selectedTask.minWords} words
+            {selectedTask.expectedTense && ` · Use the ${selectedTask.expectedTense}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskPicker;
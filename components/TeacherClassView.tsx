@@ -0,0 +1,221 @@
+// prettier-ignore
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { EvaluationRecord, EvaluationType, LearnerProfile, WritingFeedback } from '../types';
+import { listProfiles, listAllEvaluations, importClassData } from '../services/historyStore';
+import { scoreKeysFor, formatScoreLabel, scoresOf } from '../utils/progressStats';
+import { toCsv, toClassExport, parseClassExport } from '../utils/exportResults';
+import { downloadFile, readFileAsText } from '../utils/download';
+import RewardRulesPanel from './RewardRulesPanel';
+import WeaknessProfileView from './WeaknessProfileView';
+
+interface TeacherClassViewProps {
+  onProfilesChanged: () => void;
+}
+
+const RECENT_SUBMISSIONS = 5;
+
+const average = (values: number[]): number | null =>
+  values.length ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : null;
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const TeacherClassView: React.FC<TeacherClassViewProps> = ({ onProfilesChanged }) => {
+  const [profiles, setProfiles] = useState<LearnerProfile[]>([]);
+  const [evaluations, setEvaluations] = useState<EvaluationRecord[]>([]);
+  const [type, setType] = useState<EvaluationType>('writing');
+  const [classFilter, setClassFilter] = useState<string>('all');
+  const [expandedProfileId, setExpandedProfileId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [loadedProfiles, loadedEvaluations] = await Promise.all([listProfiles(), listAllEvaluations()]);
+      setProfiles(loadedProfiles);
+      setEvaluations(loadedEvaluations);
+    } catch (err: any) {
+      console.error('Failed to load class data:', err);
+      setError(err.message || 'Could not load class data.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const classNames = useMemo(
+    () => [...new Set(profiles.map(profile => profile.className).filter(Boolean))].sort(),
+    [profiles]
+  );
+  const visibleProfiles = classFilter === 'all' ? profiles : profiles.filter(profile => profile.className === classFilter);
+  const visibleProfileIds = new Set(visibleProfiles.map(profile => profile.id));
+  const visibleEvaluations = evaluations.filter(record => visibleProfileIds.has(record.profileId));
+  const categories = scoreKeysFor(type);
+
+  const handleExportCsv = useCallback(() => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`english-coach-results-${date}.csv`, toCsv(visibleProfiles, visibleEvaluations), 'text/csv;charset=utf-8');
+  }, [visibleProfiles, visibleEvaluations]);
+
+  const handleExportJson = useCallback(() => {
+    const date = new Date().toISOString().slice(0, 10);
+    const data = toClassExport(visibleProfiles, visibleEvaluations);
+    downloadFile(`english-coach-results-${date}.json`, JSON.stringify(data, null, 2), 'application/json');
+  }, [visibleProfiles, visibleEvaluations]);
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setMessage(null);
+    try {
+      const data = parseClassExport(await readFileAsText(file));
+      const summary = await importClassData(data.profiles, data.evaluations);
+      setMessage(`Imported ${summary.profilesAdded} new students and ${summary.evaluationsAdded} results` +
+        (summary.evaluationsSkipped ? ` (${summary.evaluationsSkipped} already here were skipped).` : '.'));
+      await loadData();
+      onProfilesChanged();
+    } catch (err: any) {
+      console.error('Import failed:', err);
+      setError(err.message || 'Could not import this file.');
+    }
+  }, [loadData, onProfilesChanged]);
+
+  return (
+    <div className="mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-bold text-indigo-700">👩‍🏫 Class Overview</h2>
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={handleExportCsv} className="py-2 px-4 bg-indigo-100 text-indigo-700 font-semibold rounded-full hover:bg-indigo-200">
+            Export CSV
+          </button>
+          <button type="button" onClick={handleExportJson} className="py-2 px-4 bg-indigo-100 text-indigo-700 font-semibold rounded-full hover:bg-indigo-200">
+            Export JSON
+          </button>
+          <button type="button" onClick={() => fileInputRef.current?.click()} className="py-2 px-4 bg-gray-200 text-gray-700 font-semibold rounded-full hover:bg-blue-100 hover:text-blue-700">
+            Import JSON
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        <select
+          className="p-2 border border-blue-300 rounded-lg bg-white text-gray-800"
+          value={classFilter}
+          onChange={(e) => setClassFilter(e.target.value)}
+        >
+          <option value="all">All classes</option>
+          {classNames.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select
+          className="p-2 border border-blue-300 rounded-lg bg-white text-gray-800"
+          value={type}
+          onChange={(e) => setType(e.target.value as EvaluationType)}
+        >
+          <option value="writing">📝 Writing scores</option>
+          <option value="speaking">🗣️ Speaking scores</option>
+        </select>
+      </div>
+
+      {message && <p className="mb-4 p-3 bg-green-50 border border-green-200 rounded-md text-green-800">{message}</p>}
+      {error && <p className="mb-4 p-3 bg-red-100 border border-red-400 rounded-md text-red-700">{error}</p>}
+
+      {visibleProfiles.length === 0 ? (
+        <p className="text-gray-500">No students yet. Create student profiles or import a class export.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left border-collapse">
+            <thead>
+              <tr className="bg-blue-50 text-gray-700">
+                <th className="p-2">Student</th>
+                {categories.map(category => (
+                  <th key={category} className="p-2 text-center">
+                    {formatScoreLabel(category)}
+                    <span className="block text-xs font-normal text-gray-500">latest / avg</span>
+                  </th>
+                ))}
+                <th className="p-2 text-center">Sessions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleProfiles.map(profile => {
+                // evaluations are sorted newest first
+                const records = evaluations.filter(record => record.profileId === profile.id && record.type === type);
+                const isExpanded = expandedProfileId === profile.id;
+                return (
+                  <React.Fragment key={profile.id}>
+                    <tr
+                      className="border-t border-gray-200 hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpandedProfileId(isExpanded ? null : profile.id)}
+                    >
+                      <td className="p-2 font-semibold text-gray-800">
+                        {isExpanded ? '▾' : '▸'} {profile.name}
+                        <span className="block text-xs font-normal text-gray-500">
+                          {profile.className || 'No class'} · Grade {profile.gradeLevel}
+                        </span>
+                      </td>
+                      {categories.map(category => {
+                        const latest = records[0] ? scoresOf(records[0])[category] : undefined;
+                        const avg = average(records.map(record => scoresOf(record)[category]).filter(value => typeof value === 'number'));
+                        return (
+                          <td key={category} className="p-2 text-center">
+                            <span className="font-bold text-indigo-600">{latest ?? '–'}</span>
+                            <span className="text-gray-500"> / {avg ?? '–'}</span>
+                          </td>
+                        );
+                      })}
+                      <td className="p-2 text-center text-gray-700">{records.length}</td>
+                    </tr>
+                    {isExpanded && (
+                      <tr>
+                        <td colSpan={categories.length + 2} className="p-2 bg-gray-50">
+                          {records.length === 0 ? (
+                            <p className="text-gray-500">No {type} submissions yet.</p>
+                          ) : (
+                            <ul className="space-y-2">
+                              {records.slice(0, RECENT_SUBMISSIONS).map(record => (
+                                <li key={record.id} className="p-2 bg-white rounded-md border border-gray-200">
+                                  <span className="text-xs text-gray-500">{formatDate(record.createdAt)}</span>
+                                  <p className="text-gray-800">"{record.input}"</p>
+                                  {record.type === 'writing' && (
+                                    <p className="text-green-800">✓ {(record.feedback as WritingFeedback).correctedSentence}</p>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {type === 'writing' && records.length > 0 && (
+                            <div className="mt-2">
+                              <WeaknessProfileView records={records} title={`🔍 ${profile.name}'s error patterns`} />
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {type === 'writing' && visibleEvaluations.some(record => record.type === 'writing') && (
+        <div className="mt-6">
+          <WeaknessProfileView
+            records={visibleEvaluations}
+            title={`🔍 Error patterns for ${classFilter === 'all' ? 'all classes' : classFilter}`}
+          />
+        </div>
+      )}
+
+      <RewardRulesPanel />
+    </div>
+  );
+};
+
+export default TeacherClassView;
@@ -0,0 +1,33 @@
+// prettier-ignore
+import React, { useEffect, useState } from 'react';
+
+interface TurnAudioPlayerProps {
+  label: string;
+  audio: Blob;
+  fileName: string;
+}
+
+const TurnAudioPlayer: React.FC<TurnAudioPlayerProps> = ({ label, audio, fileName }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  // Object URLs hold the audio in memory until revoked.
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(audio);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [audio]);
+
+  if (!url) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <span className="text-sm font-semibold text-gray-600 w-28">{label}</span>
+      <audio controls src={url} className="h-10 flex-1 min-w-[200px]" />
+      <a href={url} download={fileName} className="text-sm text-blue-600 font-semibold hover:text-blue-800">
+        Download
+      </a>
+    </div>
+  );
+};
+
+export default TurnAudioPlayer;
@@ -0,0 +1,77 @@
+// prettier-ignore
+import React, { useState, useCallback } from 'react';
+import { WordBankEntry } from '../types';
+import SpeakButton from './SpeakButton';
+
+interface VocabularyFlashcardsProps {
+  entries: WordBankEntry[];
+  onMarkLearned: (entry: WordBankEntry) => void;
+  onFinish: () => void;
+}
+
+// The word on the front; the Vietnamese meaning and an example on the back.
+const VocabularyFlashcards: React.FC<VocabularyFlashcardsProps> = ({ entries, onMarkLearned, onFinish }) => {
+  const [index, setIndex] = useState<number>(0);
+  const [isFlipped, setIsFlipped] = useState<boolean>(false);
+
+  const entry = entries[index];
+
+  const handleNext = useCallback((learned: boolean) => {
+    if (learned && entry) onMarkLearned(entry);
+    setIsFlipped(false);
+    setIndex(current => current + 1);
+  }, [entry, onMarkLearned]);
+
+  if (!entry) {
+    return (
+      <div className="p-6 bg-green-50 border border-green-200 rounded-lg text-center">
+        <p className="text-2xl font-bold text-green-700 mb-4">🎉 You went through all {entries.length} cards!</p>
+        <button type="button" onClick={onFinish} className="py-2 px-6 bg-indigo-600 text-white font-semibold rounded-full hover:bg-indigo-700">
+          Back to my words
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-center">
+      <p className="text-sm text-gray-500 mb-2">Card {index + 1} of {entries.length} · tap the card to turn it over</p>
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => setIsFlipped(flipped => !flipped)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            setIsFlipped(flipped => !flipped);
+          }
+        }}
+        className="mx-auto max-w-md min-h-[12rem] p-6 flex flex-col items-center justify-center bg-white border-2 border-indigo-200 rounded-xl shadow-md cursor-pointer hover:border-indigo-400 transition-colors duration-300"
+      >
+        <p className="text-3xl font-bold text-indigo-700 flex items-center gap-2">
+          {entry.word}
+          <SpeakButton text={entry.word} className="text-2xl" />
+        </p>
+        {isFlipped && (
+          <div className="mt-4">
+            <p className="text-lg text-gray-800">🇻🇳 {entry.meaningVi}</p>
+            <p className="mt-2 text-gray-600 italic flex items-center justify-center gap-1">
+              "{entry.example}"
+              <SpeakButton text={entry.example} />
+            </p>
+          </div>
+        )}
+      </div>
+      <div className="mt-4 flex justify-center gap-3">
+        <button type="button" onClick={() => handleNext(false)} className="py-2 px-6 bg-gray-200 text-gray-700 font-semibold rounded-full hover:bg-gray-300">
+          Still learning
+        </button>
+        <button type="button" onClick={() => handleNext(true)} className="py-2 px-6 bg-green-600 text-white font-semibold rounded-full hover:bg-green-700">
+          ✓ I know it
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VocabularyFlashcards;
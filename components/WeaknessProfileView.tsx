@@ -0,0 +1,71 @@
+// prettier-ignore
+import React, { useMemo } from 'react';
+import { EvaluationRecord } from '../types';
+import { buildWeaknessProfile } from '../utils/errorTags';
+import { getGrammarErrorType } from '../services/grammarTaxonomy';
+
+interface WeaknessProfileViewProps {
+  records: EvaluationRecord[]; // Writing evaluations; other types are ignored
+  title: string;
+  focusCount?: number; // How many of the top error types get a practice recommendation
+}
+
+// The most frequent error types, ranked, with focused practice for the top few.
+const WeaknessProfileView: React.FC<WeaknessProfileViewProps> = ({ records, title, focusCount = 3 }) => {
+  const profile = useMemo(() => buildWeaknessProfile(records), [records]);
+  const maxCount = profile.entries[0]?.count ?? 0;
+  const focus = profile.entries.slice(0, focusCount);
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-sm border border-gray-200">
+      <h3 className="text-lg font-semibold text-gray-700">{title}</h3>
+      <p className="text-sm text-gray-500 mb-3">
+        {profile.totalErrors} mistake{profile.totalErrors === 1 ? '' : 's'} in {profile.submissions} piece{profile.submissions === 1 ? '' : 's'} of writing
+      </p>
+
+      {profile.entries.length === 0 ? (
+        <p className="text-gray-500">No mistakes found yet. ✨</p>
+      ) : (
+        <>
+          <ol className="space-y-2">
+            {profile.entries.map((entry, index) => (
+              <li key={entry.tag} className="flex items-center gap-3 text-sm">
+                <span className="w-44 shrink-0 text-gray-700">{index + 1}. {getGrammarErrorType(entry.tag).label}</span>
+                <div className="flex-1 h-3 bg-gray-100 rounded-full overflow-hidden" aria-hidden="true">
+                  <div
+                    className={`h-full rounded-full ${index < focus.length ? 'bg-orange-400' : 'bg-indigo-300'}`}
+                    style={{ width: `${(entry.count / maxCount) * 100}%` }}
+                  />
+                </div>
+                <span className="w-36 shrink-0 text-right text-gray-600">
+                  {entry.count} · in {entry.submissions} of {profile.submissions}
+                </span>
+              </li>
+            ))}
+          </ol>
+
+          <h4 className="mt-4 mb-2 font-semibold text-gray-700">🎯 Focus practice</h4>
+          <ul className="space-y-2">
+            {focus.map(entry => {
+              const errorType = getGrammarErrorType(entry.tag);
+              return (
+                <li key={entry.tag} className="p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm">
+                  <p className="font-semibold text-orange-800">{errorType.label}</p>
+                  <p className="text-gray-700">{errorType.description}</p>
+                  <p className="mt-1">
+                    <span className="line-through text-red-600">{errorType.example.wrong}</span>
+                    <span className="mx-2 text-gray-400">→</span>
+                    <span className="text-green-700">{errorType.example.right}</span>
+                  </p>
+                  <p className="mt-1 text-gray-800">💡 {errorType.practice}</p>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WeaknessProfileView;
@@ -0,0 +1,126 @@
+// prettier-ignore
+import React, { useState, useEffect, useCallback } from 'react';
+import { LearnerProfile, WordBankEntry } from '../types';
+import { listWordBank, updateWordBankEntry } from '../services/historyStore';
+import SpeakButton from './SpeakButton';
+import VocabularyFlashcards from './VocabularyFlashcards';
+
+interface WordBankProps {
+  profile: LearnerProfile;
+}
+
+type WordFilter = 'learning' | 'learned' | 'all';
+
+const FILTERS: { value: WordFilter; label: string }[] = [
+  { value: 'learning', label: 'Still learning' },
+  { value: 'learned', label: 'Learned' },
+  { value: 'all', label: 'All words' },
+];
+
+const WordBank: React.FC<WordBankProps> = ({ profile }) => {
+  const [entries, setEntries] = useState<WordBankEntry[]>([]);
+  const [filter, setFilter] = useState<WordFilter>('learning');
+  const [flashcards, setFlashcards] = useState<WordBankEntry[] | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setFlashcards(null);
+    listWordBank(profile.id)
+      .then(result => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch((err: any) => {
+        console.error('Failed to load the word bank:', err);
+        if (!cancelled) setError(err.message || 'Could not load your words.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [profile.id]);
+
+  const setLearned = useCallback((entry: WordBankEntry, learned: boolean) => {
+    const updated: WordBankEntry = { ...entry, learned, learnedAt: learned ? Date.now() : null };
+    setEntries(current => current.map(item => (item.id === entry.id ? updated : item)));
+    updateWordBankEntry(updated).catch(err => console.error('Failed to save the word:', err));
+  }, []);
+
+  const handleMarkLearned = useCallback((entry: WordBankEntry) => setLearned(entry, true), [setLearned]);
+
+  const learning = entries.filter(entry => !entry.learned);
+  const visible = filter === 'all' ? entries : filter === 'learned' ? entries.filter(entry => entry.learned) : learning;
+
+  if (flashcards) {
+    return (
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-indigo-700 mb-4">🃏 Flashcards</h2>
+        <VocabularyFlashcards entries={flashcards} onMarkLearned={handleMarkLearned} onFinish={() => setFlashcards(null)} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-bold text-indigo-700">🔤 {profile.name}'s Word Bank</h2>
+        <button
+          type="button"
+          onClick={() => setFlashcards(learning)}
+          disabled={learning.length === 0}
+          className="py-2 px-6 bg-green-600 text-white font-bold rounded-full shadow-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Practise {learning.length} word{learning.length === 1 ? '' : 's'} with flashcards
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-4" role="group" aria-label="Show words">
+        {FILTERS.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setFilter(option.value)}
+            className={`px-3 py-1 rounded-full text-sm font-semibold transition-all duration-300
+              ${filter === option.value ? 'bg-indigo-600 text-white shadow-md' : 'bg-white text-gray-700 border border-gray-200 hover:bg-indigo-100'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {isLoading && <p className="text-gray-500">Loading...</p>}
+      {error && <p className="p-3 bg-red-100 border border-red-400 rounded-md text-red-700">{error}</p>}
+      {!isLoading && !error && visible.length === 0 && (
+        <p className="text-gray-500">
+          {entries.length === 0 ? 'No words yet. New words from your feedback will be collected here.' : 'No words here.'}
+        </p>
+      )}
+
+      <ul className="grid gap-2 sm:grid-cols-2">
+        {visible.map(entry => (
+          <li key={entry.id} className="p-3 bg-white rounded-lg border border-gray-200">
+            <div className="flex items-start justify-between gap-2">
+              <p className="flex items-center gap-1">
+                <span className={`font-bold ${entry.learned ? 'text-green-700' : 'text-gray-800'}`}>{entry.word}</span>
+                <SpeakButton text={entry.word} />
+              </p>
+              <label className="flex items-center gap-1 text-sm text-gray-600 whitespace-nowrap">
+                <input type="checkbox" checked={entry.learned} onChange={(e) => setLearned(entry, e.target.checked)} />
+                Learned
+              </label>
+            </div>
+            <p className="text-sm text-gray-700">🇻🇳 {entry.meaningVi}</p>
+            <p className="text-sm italic text-gray-600">"{entry.example}"</p>
+            {entry.studentWord && <p className="text-xs text-gray-500 mt-1">Instead of "{entry.studentWord}"</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default WordBank;
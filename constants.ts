@@ -1,4 +1,5 @@
-
 // prettier-ignore
 export const GEMINI_MODEL_NAME = 'gemini-2.5-flash';
 export const API_KEY = process.env.API_KEY;
+// 'gemini' or 'mock'. When unset, the mock provider is used if no API key is configured.
+export const EVALUATION_PROVIDER = process.env.EVALUATION_PROVIDER;
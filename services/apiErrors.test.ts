@@ -0,0 +1,55 @@
+// prettier-ignore
+import { describe, it, expect } from 'vitest';
+import { toApiError, isRetryable } from './apiErrors';
+
+// Shaped like the SDK's errors: `status` plus the API's JSON error body as the message.
+const QUOTA_MESSAGE = 'You exceeded your current quota, please check your plan and billing details.';
+
+const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+const quotaError = (quotaId: string, retryDelay?: string) => httpError(429, JSON.stringify({
+  error: {
+    code: 429,
+    message: QUOTA_MESSAGE,
+    status: 'RESOURCE_EXHAUSTED',
+    details: [
+      {
+        '@type': 'type.googleapis.com/google.rpc.QuotaFailure',
+        violations: [{ quotaMetric: 'generativelanguage.googleapis.com/generate_content_free_tier_requests', quotaId, quotaDimensions: { location: 'global', model: 'gemini-2.5-flash' }, quotaValue: '10' }],
+      },
+      { '@type': 'type.googleapis.com/google.rpc.Help', links: [{ description: 'Learn more about Gemini API quotas', url: 'https://ai.google.dev/gemini-api/docs/rate-limits' }] },
+      ...(retryDelay ? [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay }] : []),
+    ],
+  },
+}));
+
+describe('toApiError', () => {
+  it('retries when a per-minute quota is hit, even though the message mentions billing', () => {
+    const error = toApiError(quotaError('GenerateRequestsPerMinutePerProjectPerModel-FreeTier', '37s'));
+    expect(error.code).toBe('rateLimited');
+    expect(isRetryable(error)).toBe(true);
+  });
+
+  it('fails fast when the daily quota is used up', () => {
+    const error = toApiError(quotaError('GenerateRequestsPerDayPerProjectPerModel-FreeTier', '52s'));
+    expect(error.code).toBe('quota');
+    expect(isRetryable(error)).toBe(false);
+  });
+
+  it('reads the details from a streaming error too', () => {
+    const streamed = quotaError('GenerateRequestsPerDayPerProjectPerModel-FreeTier');
+    streamed.message = `got status: RESOURCE_EXHAUSTED. ${streamed.message}`;
+    expect(toApiError(streamed).code).toBe('quota');
+  });
+
+  it('treats a 429 without details as rate limiting', () => {
+    expect(toApiError(httpError(429, JSON.stringify({ error: { code: 429, message: QUOTA_MESSAGE, status: 'RESOURCE_EXHAUSTED' } }))).code).toBe('rateLimited');
+    expect(toApiError(new Error(`RESOURCE_EXHAUSTED: ${QUOTA_MESSAGE}`)).code).toBe('rateLimited');
+  });
+
+  it('fails fast on a bad API key', () => {
+    const error = toApiError(httpError(400, 'API key not valid. Please pass a valid API key.'));
+    expect(error.code).toBe('auth');
+    expect(isRetryable(error)).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+// prettier-ignore
+import { FeedbackValidationError } from './feedbackValidation';
+
+// Failed model requests are sorted into a few codes, so the UI can explain what happened in
+// words a child understands and the request layer knows which failures are worth retrying.
+export type ApiErrorCode =
+  | 'rateLimited' // Too many requests right now (HTTP 429); worth waiting and retrying
+  | 'quota'       // The API key has used up its quota, so retrying will not help
+  | 'auth'        // Missing, invalid or unauthorised API key
+  | 'network'     // The request never reached the API, e.g. while offline
+  | 'timeout'     // No answer in time
+  | 'unavailable' // The API is overloaded or failing on its side
+  | 'safety'      // The model refused to answer because of its safety filters
+  | 'parse'       // The model answered, but not in the format we asked for
+  | 'unknown';
+
+export class ApiError extends Error {
+  code: ApiErrorCode;
+
+  constructor(code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+  }
+}
+
+const RETRYABLE_CODES: ApiErrorCode[] = ['rateLimited', 'network', 'timeout', 'unavailable'];
+
+export const isRetryable = (error: ApiError): boolean => RETRYABLE_CODES.includes(error.code);
+
+export const isAbortError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === 'AbortError';
+
+// The Gemini SDK reports HTTP failures with a `status`; the message holds the API's own
+// status name (e.g. "RESOURCE_EXHAUSTED"), which is all there is for some errors.
+// Rate limiting and a used-up quota share that status and even the wording ("You exceeded
+// your current quota..."), so they are told apart by the error details in the message's JSON:
+// a QuotaFailure names the quota that ran out, and only a daily one will not come back within
+// a retry or two. A per-minute quota, a RetryInfo delay or no details at all count as rate limiting.
+interface ErrorDetail {
+  '@type'?: string;
+  violations?: { quotaId?: string }[];
+}
+
+const errorDetails = (message: string): ErrorDetail[] => {
+  const start = message.indexOf('{'); // Streaming errors prefix the JSON with "got status: ..."
+  if (start < 0) return [];
+  try {
+    const details = JSON.parse(message.slice(start))?.error?.details;
+    return Array.isArray(details) ? details : [];
+  } catch {
+    return [];
+  }
+};
+
+const isDailyQuota = (message: string): boolean =>
+  errorDetails(message).some(detail =>
+    detail['@type']?.endsWith('google.rpc.QuotaFailure') &&
+    detail.violations?.some(violation => /PerDay/i.test(violation.quotaId ?? ''))
+  );
+
+const codeFor = (error: any): ApiErrorCode => {
+  if (error instanceof FeedbackValidationError) return 'parse';
+  const status = typeof error?.status === 'number' ? error.status : 0;
+  const message = String(error?.message ?? '');
+  if (status === 429 || /RESOURCE_EXHAUSTED/i.test(message)) {
+    return isDailyQuota(message) ? 'quota' : 'rateLimited';
+  }
+  if (status === 401 || status === 403 || /API_KEY|API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return 'auth';
+  if (status >= 500 || /UNAVAILABLE|overloaded|INTERNAL/i.test(message)) return 'unavailable';
+  if (error?.name === 'TimeoutError' || /DEADLINE_EXCEEDED/i.test(message)) return 'timeout';
+  if (/SAFETY|blocked/i.test(message)) return 'safety';
+  if ((error instanceof TypeError && /fetch|network/i.test(message)) || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return 'network';
+  }
+  return 'unknown';
+};
+
+// Wraps anything thrown by a model request. Check `isAbortError` first: a cancelled request
+// should reach the caller as the AbortError it is, not as a failure.
+export const toApiError = (error: unknown, action = 'The AI request failed'): ApiError => {
+  if (error instanceof ApiError) return error;
+  const message = (error as { message?: string } | null)?.message || 'Unknown error';
+  return new ApiError(codeFor(error), `${action}: ${message}`);
+};
+
+export interface ApiErrorDescription {
+  emoji: string;
+  title: string;
+  message: string;
+}
+
+// Shown to students instead of the technical message, which still goes to the console.
+export const API_ERROR_DESCRIPTIONS: Record<ApiErrorCode, ApiErrorDescription> = {
+  rateLimited: {
+    emoji: '⏳',
+    title: 'The coach is very busy right now',
+    message: 'Lots of students are asking for help at the same time. Wait a minute, then try again.',
+  },
+  quota: {
+    emoji: '😴',
+    title: 'The coach has answered all it can for now',
+    message: 'Please tell your teacher so they can check the app settings.',
+  },
+  auth: {
+    emoji: '🔑',
+    title: 'The coach cannot sign in',
+    message: 'Please ask your teacher to check the app settings.',
+  },
+  network: {
+    emoji: '📡',
+    title: 'No internet connection',
+    message: 'Check that your device is online, then try again.',
+  },
+  timeout: {
+    emoji: '🐢',
+    title: 'The coach took too long to answer',
+    message: 'Please try again. Shorter writing gets an answer faster.',
+  },
+  unavailable: {
+    emoji: '🛠️',
+    title: 'The coach is taking a short break',
+    message: 'Something is not working on the coach\'s side. Please try again in a few minutes.',
+  },
+  safety: {
+    emoji: '🙈',
+    title: 'The coach could not answer this one',
+    message: 'Some words in your text could not be checked. Try changing them and ask again.',
+  },
+  parse: {
+    emoji: '🧩',
+    title: 'The coach got its answer muddled',
+    message: 'Please try again.',
+  },
+  unknown: {
+    emoji: '😕',
+    title: 'Oops! Something went wrong.',
+    message: 'Please try again.',
+  },
+};
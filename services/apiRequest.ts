@@ -0,0 +1,129 @@
+// prettier-ignore
+import { ApiError, isAbortError, isRetryable, toApiError } from './apiErrors';
+
+// Every call to the model goes through `runApiRequest`, which gives it a timeout, retries
+// transient failures with exponential backoff and jitter, and caps how many requests are in
+// flight at once.
+
+export interface ApiRequestOptions {
+  action?: string;      // What was being done, for the error message, e.g. "Failed to get evaluation"
+  signal?: AbortSignal; // Cancels the request (and any retries), which then rejects with an AbortError
+  timeoutMs?: number;   // Per attempt
+  maxRetries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 16_000;
+// Per browser tab: it stops one tab from flooding the API (e.g. a teacher's demo or a burst of
+// retries), but each student's device has its own limit. When a whole class submits at once
+// on a shared API key, the jittered retries on rate limiting are what spread the load.
+const MAX_CONCURRENT_REQUESTS = 4;
+
+// "Full jitter": a random wait up to the exponential cap, so retries from many clients spread out.
+export const backoffDelay = (attempt: number, random: () => number = Math.random): number =>
+  Math.round(random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt));
+
+const abortReason = (signal: AbortSignal): unknown =>
+  signal.reason ?? new DOMException('The request was cancelled.', 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortReason(signal));
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortReason(signal!));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// --- Concurrency limit ---
+let activeRequests = 0;
+const waiting: (() => void)[] = [];
+
+const acquireSlot = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortReason(signal));
+    return;
+  }
+  if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+    activeRequests++;
+    resolve();
+    return;
+  }
+  const onAbort = () => {
+    waiting.splice(waiting.indexOf(start), 1);
+    reject(abortReason(signal!));
+  };
+  const start = () => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  };
+  waiting.push(start);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// A freed slot goes straight to the next request in the queue.
+const releaseSlot = () => {
+  const next = waiting.shift();
+  if (next) {
+    next();
+  } else {
+    activeRequests--;
+  }
+};
+// --- End concurrency limit ---
+
+// One attempt, aborted when it runs out of time or the caller cancels.
+const attemptWithTimeout = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  const timeout = new ApiError('timeout', `No answer after ${Math.round(timeoutMs / 1000)} seconds.`);
+  const timer = setTimeout(() => controller.abort(timeout), timeoutMs);
+  const onAbort = () => controller.abort(abortReason(signal!));
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    return await operation(controller.signal);
+  } catch (error) {
+    // Whatever the operation threw after being aborted, report why it was aborted.
+    throw controller.signal.aborted ? controller.signal.reason : error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Runs `operation` until it succeeds, fails for good or is cancelled. Failures reject with an
+// ApiError; a cancellation rejects with the AbortError, so callers can tell the two apart.
+export const runApiRequest = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: ApiRequestOptions = {}
+): Promise<T> => {
+  const { action, signal, timeoutMs = DEFAULT_TIMEOUT_MS, maxRetries = DEFAULT_MAX_RETRIES } = options;
+  for (let attempt = 0; ; attempt++) {
+    let error: ApiError;
+    await acquireSlot(signal);
+    try {
+      return await attemptWithTimeout(operation, timeoutMs, signal);
+    } catch (thrown) {
+      if (isAbortError(thrown)) throw thrown;
+      error = toApiError(thrown, action);
+    } finally {
+      releaseSlot();
+    }
+    if (!isRetryable(error) || attempt >= maxRetries) throw error;
+    console.warn(`Retrying after a failed AI request (${error.code}, attempt ${attempt + 1} of ${maxRetries}):`, error.message);
+    // The slot is given up while waiting, so other students' requests are not held back.
+    await wait(backoffDelay(attempt), signal);
+  }
+};
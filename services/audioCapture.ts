@@ -0,0 +1,96 @@
+// prettier-ignore
+import { createResampler, floatTo16BitPcm, LIVE_INPUT_SAMPLE_RATE } from '../utils/pcm';
+
+// Microphone capture for the live session. An AudioWorklet collects the raw samples off
+// the main thread; they are then resampled from the device's own rate (often 44.1 or
+// 48 kHz, whatever was asked for) to 16 kHz and converted to Int16 PCM.
+
+const WORKLET_NAME = 'pcm-capture';
+
+// About 40 ms at 48 kHz: small enough to keep latency low, big enough that the main
+// thread is not woken up for every 128-sample render quantum.
+const WORKLET_BATCH_SAMPLES = 2048;
+
+// Inlined so the worklet loads the same way with or without a bundler.
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.batch = new Float32Array(${WORKLET_BATCH_SAMPLES});
+    this.length = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      let offset = 0;
+      while (offset < channel.length) {
+        const count = Math.min(channel.length - offset, this.batch.length - this.length);
+        this.batch.set(channel.subarray(offset, offset + count), this.length);
+        this.length += count;
+        offset += count;
+        if (this.length === this.batch.length) {
+          this.port.postMessage(this.batch, [this.batch.buffer]);
+          this.batch = new Float32Array(${WORKLET_BATCH_SAMPLES});
+          this.length = 0;
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${WORKLET_NAME}', PcmCaptureProcessor);
+`;
+
+export interface MicrophoneCapture {
+  deviceSampleRate: number;
+  stop: () => void;
+}
+
+export const startMicrophoneCapture = async (
+  stream: MediaStream,
+  onChunk: (pcm: Int16Array) => void,
+  targetSampleRate: number = LIVE_INPUT_SAMPLE_RATE
+): Promise<MicrophoneCapture> => {
+  const audioContext = new AudioContext();
+  if (!audioContext.audioWorklet) {
+    await audioContext.close();
+    throw new Error('This browser cannot record audio for the speaking coach. Please update your browser.');
+  }
+
+  const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'text/javascript' }));
+  try {
+    await audioContext.audioWorklet.addModule(moduleUrl);
+  } catch (error) {
+    await audioContext.close();
+    throw error;
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const resample = createResampler(audioContext.sampleRate, targetSampleRate);
+  const source = audioContext.createMediaStreamSource(stream);
+  const worklet = new AudioWorkletNode(audioContext, WORKLET_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit', // Stereo microphones are mixed down to mono
+  });
+  worklet.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    const samples = resample(event.data);
+    if (samples.length > 0) onChunk(floatTo16BitPcm(samples));
+  };
+  source.connect(worklet);
+  // The worklet writes no output; connecting it keeps the graph pulling audio through it.
+  worklet.connect(audioContext.destination);
+
+  return {
+    deviceSampleRate: audioContext.sampleRate,
+    stop: () => {
+      worklet.port.onmessage = null;
+      source.disconnect();
+      worklet.disconnect();
+      audioContext.close();
+    },
+  };
+};
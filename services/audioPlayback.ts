@@ -0,0 +1,49 @@
+// prettier-ignore
+import { bytesToPcm16, pcm16ToBytes, pcm16ToFloat } from '../utils/pcm';
+import { PcmAudio } from '../utils/wav';
+
+// Audio output: 16-bit PCM from the model (the live coach's replies, spoken words) is
+// turned into AudioBuffers and played through Web Audio.
+
+export function decodeAudioData(
+  data: Uint8Array,
+  ctx: AudioContext,
+  sampleRate: number,
+): AudioBuffer {
+  const samples = pcm16ToFloat(bytesToPcm16(data));
+  // The buffer keeps the model's own rate; the browser resamples it to the device on playback.
+  const buffer = ctx.createBuffer(1, samples.length, sampleRate);
+  buffer.getChannelData(0).set(samples);
+  return buffer;
+}
+
+// Plays one clip and resolves when it has finished.
+export const playPcmAudio = async ({ pcm, sampleRate }: PcmAudio): Promise<void> => {
+  const ctx = new AudioContext();
+  try {
+    const source = ctx.createBufferSource();
+    source.buffer = decodeAudioData(pcm16ToBytes(pcm), ctx, sampleRate);
+    source.connect(ctx.destination);
+    await new Promise<void>(resolve => {
+      source.addEventListener('ended', () => resolve());
+      source.start();
+    });
+  } finally {
+    await ctx.close();
+  }
+};
+
+// For providers without speech synthesis (e.g. the offline mock).
+export const speakWithBrowser = (text: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (typeof speechSynthesis === 'undefined') {
+      reject(new Error('This browser cannot read words aloud.'));
+      return;
+    }
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = 'en-US';
+    utterance.rate = 0.9;
+    utterance.onend = () => resolve();
+    utterance.onerror = (event) => reject(new Error(`Could not read the word aloud (${event.error}).`));
+    speechSynthesis.speak(utterance);
+  });
@@ -0,0 +1,49 @@
+// prettier-ignore
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CachedEvaluation, WritingFeedback } from '../types';
+
+// An in-memory stand-in for the IndexedDB store.
+const { entries } = vi.hoisted(() => ({ entries: new Map<string, CachedEvaluation>() }));
+
+vi.mock('./historyStore', () => ({
+  getCachedEvaluation: async (key: string) => entries.get(key),
+  listCachedEvaluations: async () => [...entries.values()],
+  saveCachedEvaluation: async (entry: CachedEvaluation) => void entries.set(entry.key, entry),
+  deleteCachedEvaluations: async (keys: string[]) => keys.forEach(key => entries.delete(key)),
+}));
+
+const { readCachedEvaluation, writeCachedEvaluation } = await import('./evaluationCache');
+
+const feedback: WritingFeedback = {
+  introMessage: 'Good try! 😊',
+  correctedSentence: 'I went to school.',
+  explanation: '',
+  edits: [],
+  scores: { grammar: 7, vocabulary: 8, sentenceStructure: 7, overallWritingQuality: 7.5 },
+  suggestions: [],
+};
+
+beforeEach(() => entries.clear());
+
+describe('evaluation cache', () => {
+  it('marks a hit as already recorded only for a profile that was given it before', async () => {
+    await writeCachedEvaluation('key', feedback, 'minh');
+
+    const again = await readCachedEvaluation('key', 'minh');
+    const classmate = await readCachedEvaluation('key', 'lan');
+
+    expect(again).toMatchObject({ cachedAt: expect.any(Number), alreadyRecorded: true });
+    expect(classmate?.cachedAt).toEqual(expect.any(Number));
+    expect(classmate?.alreadyRecorded).toBeUndefined();
+    expect(entries.get('key')?.profileIds).toEqual(['minh', 'lan']);
+    expect((await readCachedEvaluation('key', 'lan'))?.alreadyRecorded).toBe(true);
+  });
+
+  it('treats entries saved without profiles as new to everyone', async () => {
+    const now = Date.now();
+    entries.set('old', { key: 'old', feedback, createdAt: now, lastUsedAt: now, size: 1 });
+
+    expect((await readCachedEvaluation('old', 'minh'))?.alreadyRecorded).toBeUndefined();
+    expect((await readCachedEvaluation('old', 'minh'))?.alreadyRecorded).toBe(true);
+  });
+});
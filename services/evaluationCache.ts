@@ -0,0 +1,49 @@
+// prettier-ignore
+import { WritingFeedback, SpeakingFeedback } from '../types';
+import { getCachedEvaluation, listCachedEvaluations, saveCachedEvaluation, deleteCachedEvaluations } from './historyStore';
+import { isExpired, recordCacheUse, selectEvictions } from '../utils/evaluationCache';
+
+// Finished evaluations are kept in IndexedDB, so a resubmitted sentence or a demo example
+// the teacher runs again does not cost another model call. The cache is only an
+// optimisation: if it cannot be read or written, evaluations carry on without it.
+
+// A hit is returned with `cachedAt` set, so the UI can say the result was reused, and with
+// `alreadyRecorded` set when `profileId` has been given it before.
+export const readCachedEvaluation = async (key: string, profileId?: string): Promise<WritingFeedback | SpeakingFeedback | null> => {
+  try {
+    const entry = await getCachedEvaluation(key);
+    if (!entry) return null;
+    const now = Date.now();
+    if (isExpired(entry, now)) {
+      await deleteCachedEvaluations([key]);
+      return null;
+    }
+    const { entry: used, alreadyUsed } = recordCacheUse(entry, profileId, now);
+    await saveCachedEvaluation(used);
+    return { ...entry.feedback, cachedAt: entry.createdAt, ...(alreadyUsed && { alreadyRecorded: true }) };
+  } catch (error) {
+    console.error('Could not read the evaluation cache:', error);
+    return null;
+  }
+};
+
+export const writeCachedEvaluation = async (
+  key: string,
+  feedback: WritingFeedback | SpeakingFeedback,
+  profileId?: string
+): Promise<void> => {
+  try {
+    const now = Date.now();
+    await saveCachedEvaluation({
+      key,
+      feedback,
+      createdAt: now,
+      lastUsedAt: now,
+      size: JSON.stringify(feedback).length,
+      profileIds: profileId ? [profileId] : [],
+    });
+    await deleteCachedEvaluations(selectEvictions(await listCachedEvaluations(), now));
+  } catch (error) {
+    console.error('Could not save to the evaluation cache:', error);
+  }
+};
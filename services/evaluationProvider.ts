@@ -0,0 +1,67 @@
+// prettier-ignore
+import { WritingFeedback, SpeakingFeedback, EvaluationType, LearnerLevelId, WritingTask, TurnAudio, FluencyMetrics, RolePlayScenario, Exercise, ExerciseSource } from '../types';
+import { PcmAudio } from '../utils/wav';
+
+// Turn lifecycle of a live session. `student` and `coach` always hold the whole text of
+// the current turn so far, never just the latest fragment.
+export type LiveTurnEvent =
+  | { type: 'turnStarted' }
+  | { type: 'partialTranscript'; student: string; coach: string }
+  | { type: 'interrupted'; student: string; coach: string } // The student spoke over the coach
+  | { type: 'turnComplete'; student: string; coach: string; interrupted: boolean; audio?: TurnAudio };
+
+export interface LiveSessionCallbacks {
+  onTurnEvent: (event: LiveTurnEvent) => void;
+  onAIStartSpeaking: () => void;
+  onAIStopSpeaking: () => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+export interface EvaluationOptions {
+  level?: LearnerLevelId;
+  bilingual?: boolean; // Also return Vietnamese versions of the feedback text
+  task?: WritingTask;  // Writing only: the library task the student answered
+  essay?: boolean;     // Writing only: give per-sentence and per-paragraph feedback
+  audio?: Blob;        // Speaking only: WAV recording of the turn, listened to by the model
+  fluencyMetrics?: FluencyMetrics; // Speaking only: measured from `audio` by the facade
+  onPartial?: (partial: WritingFeedback) => void; // Writing only: streams what has arrived so far
+  signal?: AbortSignal; // Cancels the evaluation, which then rejects with an AbortError
+  fresh?: boolean;      // Ask the provider again even if a cached result exists
+  profileId?: string;   // Who is asking, so a cached result they were already credited for is marked
+}
+
+export interface ExerciseOptions {
+  level?: LearnerLevelId;
+  count?: number; // How many exercises to ask for
+}
+
+export interface LiveSessionOptions {
+  level?: LearnerLevelId;
+  readAloudPassage?: string; // Read-aloud practice: the coach listens instead of chatting
+  scenario?: RolePlayScenario; // Role-play: the coach plays a character with its own voice
+}
+
+export interface LiveSessionHandle {
+  close: () => void;
+}
+
+// A backend that can evaluate student work and run a live speaking session.
+// The Gemini provider talks to the real API; the mock provider is scripted and
+// works offline, so the UI can be developed and demoed without an API key.
+export interface EvaluationProvider {
+  name: string;
+  // Part of the evaluation cache key. Bump it whenever prompts or response schemas change,
+  // so results made with the old ones are not reused.
+  promptVersion: string;
+  getEvaluation: (
+    type: EvaluationType,
+    inputText: string,
+    options?: EvaluationOptions
+  ) => Promise<WritingFeedback | SpeakingFeedback>;
+  // A practice set targeting the error types in the student's recent corrections.
+  generateExercises: (sources: ExerciseSource[], options?: ExerciseOptions) => Promise<Exercise[]>;
+  startLiveSpeakingSession: (callbacks: LiveSessionCallbacks, options?: LiveSessionOptions) => Promise<LiveSessionHandle>;
+  // Reads a word or sentence aloud as PCM; null when the provider cannot synthesise speech.
+  synthesizeSpeech: (text: string) => Promise<PcmAudio | null>;
+}
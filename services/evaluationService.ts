@@ -0,0 +1,143 @@
+// prettier-ignore
+import { API_KEY, EVALUATION_PROVIDER } from '../constants';
+import { WritingFeedback, SpeakingFeedback, EvaluationType, FluencyMetrics, Exercise, ExerciseSource, LearnerLevelId } from '../types';
+import {
+  EvaluationProvider,
+  EvaluationOptions,
+  ExerciseOptions,
+  LiveSessionCallbacks,
+  LiveSessionHandle,
+  LiveSessionOptions,
+} from './evaluationProvider';
+import { DEFAULT_LEVEL_ID } from './learnerLevels';
+import { buildTaskAchievement } from '../utils/taskChecks';
+import { tagEdits, countErrorTags } from '../utils/errorTags';
+import { isGradable } from '../utils/exercises';
+import { computeFluencyMetrics } from '../utils/fluencyMetrics';
+import { evaluationCacheKey } from '../utils/evaluationCache';
+import { readCachedEvaluation, writeCachedEvaluation } from './evaluationCache';
+import { decodeWav, PcmAudio } from '../utils/wav';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockService';
+
+const selectDefaultProvider = (): EvaluationProvider => {
+  if (EVALUATION_PROVIDER === 'mock') {
+    return mockProvider;
+  }
+  if (EVALUATION_PROVIDER === 'gemini') {
+    return geminiProvider;
+  }
+  if (!API_KEY) {
+    console.warn('No API key configured. Using the offline mock evaluation provider.');
+    return mockProvider;
+  }
+  return geminiProvider;
+};
+
+let activeProvider: EvaluationProvider = selectDefaultProvider();
+
+export const getEvaluationProvider = (): EvaluationProvider => activeProvider;
+
+// Swap the backend at runtime, e.g. to force the mock provider during a demo.
+export const setEvaluationProvider = (provider: EvaluationProvider): void => {
+  activeProvider = provider;
+};
+
+// A recording that cannot be read still gets feedback, just without the timings.
+const measureFluency = async (audio: Blob, transcript: string): Promise<FluencyMetrics | undefined> => {
+  try {
+    return computeFluencyMetrics(decodeWav(await audio.arrayBuffer()), transcript);
+  } catch (error) {
+    console.error('Could not measure fluency from the recording:', error);
+    return undefined;
+  }
+};
+
+// Every edit carries an error tag (from the provider, or worked out locally) and the tags are
+// counted, so the weakness profile does not depend on which provider marked the writing.
+const withErrorTags = (feedback: WritingFeedback): WritingFeedback => {
+  const edits = tagEdits(feedback.edits ?? []);
+  return { ...feedback, edits, errorTags: countErrorTags(edits) };
+};
+
+// The level used is stamped on the result so saved history shows what it was marked against.
+// Writing can be streamed with `onPartial`; the partial results are for display only.
+// For guided tasks, the provider's judgement is combined with exact local checks; for
+// recorded speaking turns, fluency timings are measured here and passed to the provider.
+const evaluate = async (
+  type: EvaluationType,
+  inputText: string,
+  options: EvaluationOptions & { level: LearnerLevelId }
+): Promise<WritingFeedback | SpeakingFeedback> => {
+  const { level } = options;
+  if (type === 'speaking' && options.audio) {
+    const fluencyMetrics = await measureFluency(options.audio, inputText);
+    const feedback = await activeProvider.getEvaluation(type, inputText, { ...options, level, fluencyMetrics });
+    return { ...feedback, level, fluencyMetrics };
+  }
+  const { onPartial } = options;
+  const feedback = await activeProvider.getEvaluation(type, inputText, {
+    ...options,
+    level,
+    onPartial: onPartial && (partial => onPartial({ ...partial, level })),
+  });
+  if (type !== 'writing') return { ...feedback, level };
+  const writing = withErrorTags(feedback as WritingFeedback);
+  if (options.task) {
+    return {
+      ...writing,
+      level,
+      taskId: options.task.id,
+      taskAchievement: buildTaskAchievement(options.task, inputText, writing.taskAchievement),
+    };
+  }
+  return { ...writing, level };
+};
+
+// Results for text input are cached (see services/evaluationCache.ts) unless `fresh` is set;
+// a recording is never the same twice, so speaking turns with audio are not.
+export const getEvaluation = async (
+  type: EvaluationType,
+  inputText: string,
+  options: EvaluationOptions = {}
+): Promise<WritingFeedback | SpeakingFeedback> => {
+  const level = options.level ?? DEFAULT_LEVEL_ID;
+  const cacheKey = type === 'speaking' && options.audio ? null : evaluationCacheKey({
+    type,
+    text: inputText,
+    provider: activeProvider.name,
+    promptVersion: activeProvider.promptVersion,
+    level,
+    bilingual: Boolean(options.bilingual),
+    taskId: type === 'writing' ? options.task?.id : undefined,
+    essay: type === 'writing' && Boolean(options.essay),
+  });
+  if (cacheKey && !options.fresh) {
+    const cached = await readCachedEvaluation(cacheKey, options.profileId);
+    if (cached) return cached;
+  }
+  const feedback = await evaluate(type, inputText, { ...options, level });
+  if (cacheKey) void writeCachedEvaluation(cacheKey, feedback, options.profileId); // Never rejects, so it is not waited for
+  return feedback;
+};
+
+// Exercises that cannot be graded locally are dropped, so every question shown has one right answer.
+export const generateExercises = async (sources: ExerciseSource[], options: ExerciseOptions = {}): Promise<Exercise[]> => {
+  if (sources.length === 0) {
+    throw new Error('There is no corrected writing to practise yet. Try the Writing Coach first!');
+  }
+  const level = options.level ?? DEFAULT_LEVEL_ID;
+  const exercises = (await activeProvider.generateExercises(sources, { ...options, level })).filter(isGradable);
+  if (exercises.length === 0) {
+    throw new Error('Could not make any exercises this time. Please try again.');
+  }
+  return exercises;
+};
+
+export const synthesizeSpeech = (text: string): Promise<PcmAudio | null> =>
+  activeProvider.synthesizeSpeech(text);
+
+export const startLiveSpeakingSession = (
+  callbacks: LiveSessionCallbacks,
+  options: LiveSessionOptions = {}
+): Promise<LiveSessionHandle> => activeProvider.startLiveSpeakingSession(callbacks, options);
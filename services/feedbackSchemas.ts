@@ -0,0 +1,222 @@
+// prettier-ignore
+import { Type } from "@google/genai";
+import { SchemaNode } from './feedbackValidation';
+import { GRAMMAR_ERROR_TAG_IDS } from './grammarTaxonomy';
+
+// Response schemas for JSON output. They are sent to the model as `responseSchema`
+// and are also the source of truth for validating what comes back
+// (see feedbackValidation.ts).
+
+const scoreSchema: SchemaNode = { type: Type.NUMBER, minimum: 0, maximum: 10 };
+
+// A tag that cannot be repaired falls back to the first option, so the catch-all goes first.
+const errorTagSchema: SchemaNode = {
+  type: Type.STRING,
+  enum: ['otherGrammar', ...GRAMMAR_ERROR_TAG_IDS.filter(tag => tag !== 'otherGrammar')],
+};
+
+export interface ResponseSchema extends SchemaNode {
+  properties: Record<string, SchemaNode>;
+  required: string[];
+  propertyOrdering: string[];
+}
+
+// Returns a copy of `schema` with extra (required) top-level properties appended.
+const extendSchema = (schema: ResponseSchema, properties: Record<string, SchemaNode>): ResponseSchema => {
+  const keys = Object.keys(properties);
+  return {
+    ...schema,
+    properties: { ...schema.properties, ...properties },
+    required: [...schema.required, ...keys],
+    propertyOrdering: [...schema.propertyOrdering, ...keys],
+  };
+};
+
+export const writingResponseSchema: ResponseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    introMessage: { type: Type.STRING },
+    correctedSentence: { type: Type.STRING },
+    explanation: { type: Type.STRING },
+    edits: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          original: { type: Type.STRING },
+          replacement: { type: Type.STRING },
+          category: { type: Type.STRING },
+          reason: { type: Type.STRING },
+          tag: errorTagSchema,
+        },
+        required: ['original', 'replacement', 'category', 'reason', 'tag'],
+      },
+    },
+    scores: {
+      type: Type.OBJECT,
+      properties: {
+        grammar: scoreSchema,
+        vocabulary: scoreSchema,
+        sentenceStructure: scoreSchema,
+        overallWritingQuality: scoreSchema,
+      },
+      required: ['grammar', 'vocabulary', 'sentenceStructure', 'overallWritingQuality'],
+    },
+    suggestions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+    },
+  },
+  required: ['introMessage', 'correctedSentence', 'explanation', 'edits', 'scores', 'suggestions'],
+  propertyOrdering: ['introMessage', 'correctedSentence', 'explanation', 'edits', 'scores', 'suggestions'],
+};
+
+export const speakingResponseSchema: ResponseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    introMessage: { type: Type.STRING },
+    feedback: { type: Type.STRING },
+    scores: {
+      type: Type.OBJECT,
+      properties: {
+        pronunciation: scoreSchema,
+        fluency: scoreSchema,
+        confidence: scoreSchema,
+        overallSpeakingQuality: scoreSchema,
+      },
+      required: ['pronunciation', 'fluency', 'confidence', 'overallSpeakingQuality'],
+    },
+    pronunciationTips: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+    },
+  },
+  required: ['introMessage', 'feedback', 'scores', 'pronunciationTips'],
+  propertyOrdering: ['introMessage', 'feedback', 'scores', 'pronunciationTips'],
+};
+
+// Practice exercises generated from the student's corrections (graded in utils/exercises.ts).
+export const exerciseResponseSchema: ResponseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    exercises: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ['multipleChoice', 'gapFill', 'reorder', 'errorSpotting'] },
+          tag: errorTagSchema,
+          instruction: { type: Type.STRING },
+          sentence: { type: Type.STRING },
+          options: { type: Type.ARRAY, items: { type: Type.STRING } },
+          answer: { type: Type.STRING },
+          explanation: { type: Type.STRING },
+        },
+        required: ['kind', 'tag', 'instruction', 'sentence', 'options', 'answer', 'explanation'],
+      },
+    },
+  },
+  required: ['exercises'],
+  propertyOrdering: ['exercises'],
+};
+
+const vietnameseText: SchemaNode = { type: Type.STRING };
+const vietnameseList: SchemaNode = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+// Bilingual mode: every feedback text field gets a Vietnamese twin (e.g. explanationVi).
+export const withVietnameseWriting = (schema: ResponseSchema): ResponseSchema => extendSchema(schema, {
+  introMessageVi: vietnameseText,
+  explanationVi: vietnameseText,
+  suggestionsVi: vietnameseList,
+});
+
+export const withVietnameseSpeaking = (schema: ResponseSchema): ResponseSchema => extendSchema(schema, {
+  introMessageVi: vietnameseText,
+  feedbackVi: vietnameseText,
+  pronunciationTipsVi: vietnameseList,
+});
+
+// Audio evaluation: word-level findings from listening to the recording.
+export const withWordFindings = (schema: ResponseSchema): ResponseSchema => extendSchema(schema, {
+  wordFindings: {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        word: { type: Type.STRING },
+        expectedPhonemes: { type: Type.STRING },
+        problem: { type: Type.STRING },
+        severity: { type: Type.STRING, enum: ['minor', 'moderate', 'major'] },
+      },
+      required: ['word', 'expectedPhonemes', 'problem', 'severity'],
+    },
+  },
+});
+
+// Words for the student's word bank, for both writing and speaking.
+export const withVocabularyItems = (schema: ResponseSchema): ResponseSchema => extendSchema(schema, {
+  vocabularyItems: {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        word: { type: Type.STRING },
+        kind: { type: Type.STRING, enum: ['misused', 'betterChoice', 'newWord'] },
+        studentWord: { type: Type.STRING },
+        meaningVi: { type: Type.STRING },
+        example: { type: Type.STRING },
+      },
+      required: ['word', 'kind', 'studentWord', 'meaningVi', 'example'],
+    },
+  },
+});
+
+// Guided tasks: the model judges topic and tense; word counts and target words are checked locally.
+export const withTaskAchievement = (schema: ResponseSchema): ResponseSchema => extendSchema(schema, {
+  taskAchievement: {
+    type: Type.OBJECT,
+    properties: {
+      score: scoreSchema,
+      onTopic: { type: Type.BOOLEAN },
+      usedExpectedTense: { type: Type.BOOLEAN },
+      comment: { type: Type.STRING },
+    },
+    required: ['score', 'onTopic', 'usedExpectedTense', 'comment'],
+  },
+});
+
+// Essay mode: sentences are numbered locally and referred to by id (see sentenceSplit.ts).
+export const withEssay = (schema: ResponseSchema): ResponseSchema => extendSchema(schema, {
+  essay: {
+    type: Type.OBJECT,
+    properties: {
+      sentences: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.STRING },
+            corrected: { type: Type.STRING },
+            explanation: { type: Type.STRING },
+          },
+          required: ['id', 'corrected', 'explanation'],
+        },
+      },
+      paragraphComments: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            paragraph: { type: Type.INTEGER, minimum: 1 },
+            organisation: { type: Type.STRING },
+            coherence: { type: Type.STRING },
+            linkingWords: { type: Type.STRING },
+          },
+          required: ['paragraph', 'organisation', 'coherence', 'linkingWords'],
+        },
+      },
+      summary: { type: Type.STRING },
+    },
+    required: ['sentences', 'paragraphComments', 'summary'],
+  },
+});
@@ -0,0 +1,76 @@
+// prettier-ignore
+import { describe, it, expect } from 'vitest';
+import { validateAgainstSchema, isBlockingIssue } from './feedbackValidation';
+import { writingResponseSchema, speakingResponseSchema } from './feedbackSchemas';
+import { WritingFeedback, SpeakingFeedback } from '../types';
+
+const validWriting = {
+  introMessage: 'Good try! 😊',
+  correctedSentence: 'I went to school.',
+  explanation: '"Go" becomes "went" in the past.',
+  edits: [{ original: 'go', replacement: 'went', category: 'grammar', reason: 'Past tense.', tag: 'pastTense' }],
+  scores: { grammar: 7, vocabulary: 8, sentenceStructure: 7, overallWritingQuality: 7.5 },
+  suggestions: ['Use the past tense for yesterday.'],
+};
+
+describe('validateAgainstSchema', () => {
+  it('accepts valid feedback unchanged and without issues', () => {
+    const { value, issues } = validateAgainstSchema<WritingFeedback>(writingResponseSchema, validWriting);
+    expect(value).toEqual(validWriting);
+    expect(issues).toEqual([]);
+  });
+
+  it('clamps scores to 0-10 and rounds them to one decimal place', () => {
+    const scores = { grammar: 87, vocabulary: -2, sentenceStructure: 7.26, overallWritingQuality: 10 };
+    const { value, issues } = validateAgainstSchema<WritingFeedback>(writingResponseSchema, { ...validWriting, scores });
+    expect(value.scores).toEqual({ grammar: 10, vocabulary: 0, sentenceStructure: 7.3, overallWritingQuality: 10 });
+    expect(issues.map(issue => [issue.path, issue.code])).toEqual([['scores.grammar', 'clamped'], ['scores.vocabulary', 'clamped']]);
+    expect(issues.some(isBlockingIssue)).toBe(false);
+  });
+
+  it('coerces "8.7/10", "87%" and "6" to numbers on the 0-10 scale', () => {
+    const scores = { grammar: '8.7/10', vocabulary: '87%', sentenceStructure: '6', overallWritingQuality: '43/50' };
+    const { value, issues } = validateAgainstSchema<WritingFeedback>(writingResponseSchema, { ...validWriting, scores });
+    expect(value.scores).toEqual({ grammar: 8.7, vocabulary: 8.7, sentenceStructure: 6, overallWritingQuality: 8.6 });
+    expect(issues.every(issue => issue.code === 'coerced')).toBe(true);
+  });
+
+  it('fills missing required fields with safe defaults and reports them as blocking', () => {
+    const { value, issues } = validateAgainstSchema<SpeakingFeedback>(speakingResponseSchema, { introMessage: 'Hi!', scores: { fluency: 6 } });
+    expect(value).toEqual({
+      introMessage: 'Hi!',
+      feedback: '',
+      scores: { pronunciation: 0, fluency: 6, confidence: 0, overallSpeakingQuality: 0 },
+      pronunciationTips: [],
+    });
+    expect(issues.filter(isBlockingIssue).map(issue => issue.path)).toEqual([
+      'feedback',
+      'scores.pronunciation',
+      'scores.confidence',
+      'scores.overallSpeakingQuality',
+      'pronunciationTips',
+    ]);
+  });
+
+  it('wraps a single suggestion in a list without blocking', () => {
+    const { value, issues } = validateAgainstSchema<WritingFeedback>(writingResponseSchema, { ...validWriting, suggestions: 'Read more.' });
+    expect(value.suggestions).toEqual(['Read more.']);
+    expect(issues).toEqual([{ path: 'suggestions', code: 'coerced', message: 'wrapped a single string in a list' }]);
+  });
+
+  it('fixes the case of an enum value, but treats an unknown one as blocking', () => {
+    const edit = validWriting.edits[0];
+    const recased = validateAgainstSchema<WritingFeedback>(writingResponseSchema, { ...validWriting, edits: [{ ...edit, tag: 'PastTense' }] });
+    expect(recased.value.edits[0].tag).toBe('pastTense');
+    expect(recased.issues.some(isBlockingIssue)).toBe(false);
+
+    const unknown = validateAgainstSchema<WritingFeedback>(writingResponseSchema, { ...validWriting, edits: [{ ...edit, tag: 'tenses' }] });
+    expect(unknown.value.edits[0].tag).toBe('otherGrammar');
+    expect(unknown.issues.filter(isBlockingIssue).map(issue => issue.path)).toEqual(['edits[0].tag']);
+  });
+
+  it('reports a response that is not an object at the root', () => {
+    const { issues } = validateAgainstSchema(writingResponseSchema, ['not', 'an', 'object']);
+    expect(issues[0]).toEqual({ path: '', code: 'invalid_type', message: 'expected an object' });
+  });
+});
@@ -0,0 +1,186 @@
+// prettier-ignore
+import { Type } from "@google/genai";
+
+// Validates and repairs model output against the same schema objects that are sent
+// as `responseSchema`, so the checks can never drift from what we asked for.
+
+export interface SchemaNode {
+  type: Type;
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  items?: SchemaNode;
+  minimum?: number;
+  maximum?: number;
+  enum?: string[];
+}
+
+export type ValidationIssueCode = 'missing' | 'invalid_type' | 'coerced' | 'clamped';
+
+export interface ValidationIssue {
+  path: string;
+  code: ValidationIssueCode;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  issues: ValidationIssue[];
+}
+
+export class FeedbackValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[]) {
+    super(message);
+    this.name = 'FeedbackValidationError';
+    this.issues = issues;
+  }
+}
+
+// Issues that mean the model left something out, as opposed to ones we repaired silently.
+export const isBlockingIssue = (issue: ValidationIssue): boolean =>
+  issue.code === 'missing' || issue.code === 'invalid_type';
+
+export const describeIssues = (issues: ValidationIssue[]): string =>
+  issues.map(issue => `${issue.path || 'response'}: ${issue.message}`).join('; ');
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : (path ? `${path}.${key}` : key);
+
+const defaultFor = (schema: SchemaNode): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const result: Record<string, unknown> = {};
+      for (const key of schema.required ?? []) {
+        const child = schema.properties?.[key];
+        if (child) result[key] = defaultFor(child);
+      }
+      return result;
+    }
+    case Type.ARRAY:
+      return [];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return schema.minimum ?? 0;
+    case Type.BOOLEAN:
+      return false;
+    default:
+      return schema.enum?.[0] ?? '';
+  }
+};
+
+// Accepts "8.7", "8.7/10", "87/100" and "87%", scaling fractions to the schema's maximum.
+const parseNumericString = (text: string, maximum: number | undefined): number | null => {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*(?:\/\s*(\d+(?:\.\d+)?)|(%))?/);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  if (match[2] && maximum !== undefined) {
+    const denominator = parseFloat(match[2]);
+    return denominator > 0 ? (value / denominator) * maximum : value;
+  }
+  if (match[3] && maximum !== undefined) {
+    return (value / 100) * maximum;
+  }
+  return value;
+};
+
+const validateNode = (schema: SchemaNode, value: unknown, path: string, issues: ValidationIssue[]): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, code: 'invalid_type', message: 'expected an object' });
+        value = {};
+      }
+      const input = value as Record<string, unknown>;
+      const result: Record<string, unknown> = { ...input };
+      for (const [key, child] of Object.entries(schema.properties ?? {})) {
+        const childPath = joinPath(path, key);
+        if (input[key] === undefined || input[key] === null) {
+          if (schema.required?.includes(key)) {
+            issues.push({ path: childPath, code: 'missing', message: 'required field is missing' });
+            result[key] = defaultFor(child);
+          }
+          continue;
+        }
+        result[key] = validateNode(child, input[key], childPath, issues);
+      }
+      return result;
+    }
+
+    case Type.ARRAY: {
+      let items: unknown[];
+      if (Array.isArray(value)) {
+        items = value;
+      } else if (typeof value === 'string' && value.trim()) {
+        issues.push({ path, code: 'coerced', message: 'wrapped a single string in a list' });
+        items = [value];
+      } else {
+        issues.push({ path, code: 'invalid_type', message: 'expected a list' });
+        items = [];
+      }
+      return schema.items
+        ? items.map((item, index) => validateNode(schema.items!, item, joinPath(path, index), issues))
+        : items;
+    }
+
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      let numeric: number | null = typeof value === 'number' && Number.isFinite(value) ? value : null;
+      if (numeric === null && typeof value === 'string') {
+        numeric = parseNumericString(value, schema.maximum);
+        if (numeric !== null) {
+          issues.push({ path, code: 'coerced', message: `converted "${value}" to a number` });
+        }
+      }
+      if (numeric === null) {
+        issues.push({ path, code: 'invalid_type', message: 'expected a number' });
+        return defaultFor(schema);
+      }
+      const clamped = Math.min(schema.maximum ?? Infinity, Math.max(schema.minimum ?? -Infinity, numeric));
+      if (clamped !== numeric) {
+        issues.push({ path, code: 'clamped', message: `clamped ${numeric} to ${clamped}` });
+      }
+      const rounded = schema.type === Type.INTEGER ? Math.round(clamped) : Math.round(clamped * 10) / 10;
+      return rounded;
+    }
+
+    case Type.BOOLEAN: {
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') {
+        issues.push({ path, code: 'coerced', message: `converted "${value}" to a boolean` });
+        return value === 'true';
+      }
+      issues.push({ path, code: 'invalid_type', message: 'expected true or false' });
+      return false;
+    }
+
+    default: {
+      if (typeof value === 'string' && schema.enum && !schema.enum.includes(value)) {
+        const normalised = value.trim().toLowerCase();
+        const match = schema.enum.find(option => option.toLowerCase() === normalised);
+        if (match) {
+          issues.push({ path, code: 'coerced', message: `converted "${value}" to "${match}"` });
+          return match;
+        }
+        issues.push({ path, code: 'invalid_type', message: `expected one of ${schema.enum.join(', ')}` });
+        return schema.enum[0];
+      }
+      if (typeof value === 'string') return value;
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        issues.push({ path, code: 'coerced', message: 'converted a value to text' });
+        return String(value);
+      }
+      issues.push({ path, code: 'invalid_type', message: 'expected text' });
+      return '';
+    }
+  }
+};
+
+// Returns a repaired copy of `value` that satisfies `schema`, plus every problem found on
+// the way. Missing required fields are filled with safe defaults (empty text, empty lists,
+// the minimum score) so the UI can always render the result.
+export const validateAgainstSchema = <T>(schema: SchemaNode, value: unknown): ValidationResult<T> => {
+  const issues: ValidationIssue[] = [];
+  const repaired = validateNode(schema, value, '', issues) as T;
+  return { value: repaired, issues };
+};
@@ -0,0 +1,71 @@
+// prettier-ignore
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ApiError } from './apiErrors';
+import { WritingFeedback } from '../types';
+
+// Each call to the fake client answers with the next queued response text.
+const { responses, prompts } = vi.hoisted(() => ({ responses: [] as string[], prompts: [] as string[] }));
+
+vi.mock('../constants', () => ({ API_KEY: 'test-key', GEMINI_MODEL_NAME: 'test-model', EVALUATION_PROVIDER: 'gemini' }));
+
+vi.mock('@google/genai', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@google/genai')>();
+  class GoogleGenAI {
+    models = {
+      generateContent: async (request: { contents: string }) => {
+        prompts.push(request.contents);
+        return { text: responses.shift() ?? '' };
+      },
+    };
+  }
+  return { ...actual, GoogleGenAI };
+});
+
+const { geminiProvider } = await import('./geminiService');
+
+const validWriting = {
+  introMessage: 'Good try! 😊',
+  correctedSentence: 'I went to school.',
+  explanation: '"Go" becomes "went" in the past.',
+  edits: [{ original: 'go', replacement: 'went', category: 'grammar', reason: 'Past tense.', tag: 'pastTense' }],
+  scores: { grammar: 7, vocabulary: 8, sentenceStructure: 7, overallWritingQuality: '7.5/10' },
+  suggestions: ['Use the past tense for yesterday.'],
+  vocabularyItems: [],
+};
+
+beforeEach(() => {
+  responses.length = 0;
+  prompts.length = 0;
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('geminiProvider.getEvaluation repair loop', () => {
+  it('re-asks with the problems listed and uses the repaired answer', async () => {
+    const { suggestions, ...withoutSuggestions } = validWriting;
+    responses.push('Sorry, here you go: {', JSON.stringify(withoutSuggestions), JSON.stringify(validWriting));
+
+    const feedback = await geminiProvider.getEvaluation('writing', 'I go to school yesterday.') as WritingFeedback;
+
+    expect(prompts).toHaveLength(3);
+    expect(prompts[1]).toContain('response: response was not valid JSON');
+    expect(prompts[2]).toContain('suggestions: required field is missing');
+    expect(feedback.scores).toEqual({ grammar: 7, vocabulary: 8, sentenceStructure: 7, overallWritingQuality: 7.5 });
+    expect(feedback.suggestions).toEqual(suggestions);
+  });
+
+  it('fails with a parse error naming the problem once the repair attempts run out', async () => {
+    const broken = JSON.stringify({ ...validWriting, scores: { grammar: 7 } });
+    responses.push(broken, broken, broken);
+
+    const evaluation = geminiProvider.getEvaluation('writing', 'I go to school yesterday.');
+
+    await expect(evaluation).rejects.toBeInstanceOf(ApiError);
+    await expect(evaluation).rejects.toMatchObject({
+      code: 'parse',
+      message: expect.stringContaining('scores.vocabulary: required field is missing'),
+    });
+    expect(prompts).toHaveLength(3);
+  });
+});
@@ -1,269 +1,422 @@
 
 // prettier-ignore
-import { GoogleGenAI, GenerateContentResponse, LiveServerMessage, Modality, Type, Blob } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, LiveServerMessage, Modality, Blob, Session, FinishReason } from "@google/genai";
 import { API_KEY, GEMINI_MODEL_NAME } from '../constants';
-import { WritingFeedback, SpeakingFeedback, EvaluationType } from '../types';
+import { WritingFeedback, SpeakingFeedback, EssayFeedback, EvaluationType, WritingTask, RolePlayScenario, Exercise, ExerciseSource } from '../types';
+import {
+  EvaluationProvider,
+  EvaluationOptions,
+  ExerciseOptions,
+  LiveSessionCallbacks,
+  LiveSessionHandle,
+  LiveSessionOptions,
+} from './evaluationProvider';
+import { getLearnerLevel, LearnerLevel } from './learnerLevels';
+import { GOAL_REACHED_PHRASE } from './rolePlayScenarios';
+import { GRAMMAR_ERROR_TYPES } from './grammarTaxonomy';
+import { createLiveTurnTracker } from './liveTurnTracker';
+import { startMicrophoneCapture, MicrophoneCapture } from './audioCapture';
+import { createTurnRecorder } from './turnRecorder';
+import { decodeAudioData } from './audioPlayback';
+import { ApiError, isAbortError, toApiError } from './apiErrors';
+import { runApiRequest } from './apiRequest';
+import { describeFluencyMetrics } from '../utils/fluencyMetrics';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  bytesToPcm16,
+  pcm16ToBytes,
+  LIVE_INPUT_SAMPLE_RATE,
+  LIVE_OUTPUT_SAMPLE_RATE,
+} from '../utils/pcm';
+import { PcmAudio } from '../utils/wav';
+import { splitEssay, formatNumberedEssay, alignSentenceFeedback, EssaySentence, ModelSentenceFeedback } from '../utils/sentenceSplit';
+import { BLANK } from '../utils/exercises';
+import { parsePartialJson } from '../utils/partialJson';
+import { toPartialWritingFeedback } from '../utils/partialFeedback';
+import {
+  writingResponseSchema,
+  speakingResponseSchema,
+  withVietnameseWriting,
+  withVietnameseSpeaking,
+  withTaskAchievement,
+  withEssay,
+  withWordFindings,
+  withVocabularyItems,
+  exerciseResponseSchema,
+  ResponseSchema,
+} from './feedbackSchemas';
+import {
+  ValidationIssue,
+  FeedbackValidationError,
+  validateAgainstSchema,
+  isBlockingIssue,
+  describeIssues,
+} from './feedbackValidation';
 
-if (!API_KEY) {
-  throw new Error('API_KEY is not defined. Please set the API_KEY environment variable.');
-}
+const BILINGUAL_INSTRUCTION = ' In addition, fill every field ending in "Vi" with a natural Vietnamese translation of the matching English field, written simply enough for a young child and their parents to understand. Keep English example words and the corrected sentence in English inside the Vietnamese text.';
 
-// Instantiate GoogleGenAI here, but note that for Veo models requiring API key selection,
-// a new instance should be created before each call. For text models like this,
-// a single instance is generally fine.
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-// Define response schemas for JSON output
-const writingResponseSchema = {
-  type: Type.OBJECT,
-  properties: {
-    introMessage: { type: Type.STRING },
-    correctedSentence: { type: Type.STRING },
-    explanation: { type: Type.STRING },
-    scores: {
-      type: Type.OBJECT,
-      properties: {
-        grammar: { type: Type.NUMBER },
-        vocabulary: { type: Type.NUMBER },
-        sentenceStructure: { type: Type.NUMBER },
-        overallWritingQuality: { type: Type.NUMBER },
-      },
-      required: ['grammar', 'vocabulary', 'sentenceStructure', 'overallWritingQuality'],
-    },
-    suggestions: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-    },
-  },
-  required: ['introMessage', 'correctedSentence', 'explanation', 'scores', 'suggestions'],
-  propertyOrdering: ['introMessage', 'correctedSentence', 'explanation', 'scores', 'suggestions'],
-};
+const VOCABULARY_STEP = 'List up to 4 words for the student to learn in "vocabularyItems": words they misused (kind "misused"), better choices for plain words they used (kind "betterChoice"), and new words suited to their level that are related to their topic (kind "newWord"). Put the word the student actually used in "studentWord" (empty for new words), a short Vietnamese meaning in "meaningVi" and a simple example sentence in "example".';
 
-const speakingResponseSchema = {
-  type: Type.OBJECT,
-  properties: {
-    introMessage: { type: Type.STRING },
-    feedback: { type: Type.STRING },
-    scores: {
-      type: Type.OBJECT,
-      properties: {
-        pronunciation: { type: Type.NUMBER },
-        fluency: { type: Type.NUMBER },
-        confidence: { type: Type.NUMBER },
-        overallSpeakingQuality: { type: Type.NUMBER },
-      },
-      required: ['pronunciation', 'fluency', 'confidence', 'overallSpeakingQuality'],
-    },
-    pronunciationTips: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-    },
-  },
-  required: ['introMessage', 'feedback', 'scores', 'pronunciationTips'],
-  propertyOrdering: ['introMessage', 'feedback', 'scores', 'pronunciationTips'],
+// e.g. '"pastTense" for past simple, "articles" for articles (a, an, the), ...' for the edits step.
+const ERROR_TAG_LIST = GRAMMAR_ERROR_TYPES.map(type => `"${type.id}" for ${type.label.toLowerCase()}`).join(', ');
+
+const TTS_MODEL_NAME = 'gemini-2.5-flash-preview-tts';
+
+// How many times to re-ask the model when its JSON is unusable or misses required fields.
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const DEFAULT_EXERCISE_COUNT = 6;
+
+// The client is created on first use rather than at import time, so the app can
+// still load (and fall back to the mock provider) when no API key is configured.
+// For text models like this, a single instance is generally fine.
+let ai: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+  if (!API_KEY) {
+    throw new Error('API_KEY is not defined. Please set the API_KEY environment variable.');
+  }
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: API_KEY });
+  }
+  return ai;
 };
 
 // --- Audio Utility Functions ---
-function decode(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
+function createBlob(pcm: Int16Array): Blob {
+  return {
+    data: bytesToBase64(pcm16ToBytes(pcm)),
+    mimeType: `audio/pcm;rate=${LIVE_INPUT_SAMPLE_RATE}`,
+  };
 }
+// --- End Audio Utility Functions ---
+
+const buildTaskSection = (task: WritingTask): string => `
+The student was answering this writing task:
+- Topic: ${task.topic}
+- Instructions: ${task.instructions}
+- Picture: ${task.picture || 'none'}
+- Target vocabulary: ${task.targetVocabulary.join(', ') || 'none'}
+- Minimum words: ${task.minWords}
+- Expected tense: ${task.expectedTense || 'any'}
+Also fill "taskAchievement": whether the writing follows the topic and instructions ("onTopic"), whether it mostly uses the expected tense ("usedExpectedTense"), a 0-10 task achievement score that also considers the target vocabulary and length, and a one-sentence comment.
+`;
+
+const buildEssaySection = (sentences: EssaySentence[]): string => `
+This is a longer text, so also fill "essay":
+- "sentences": one entry per numbered sentence below, using its id (e.g. "1.2"), the corrected sentence (unchanged if it is already correct) and a short explanation (empty if nothing changed).
+- "paragraphComments": one entry per paragraph with a short comment on organisation, coherence, and the use of linking words.
+- "summary": two or three sentences on the text as a whole.
+"correctedSentence" must be the whole corrected text, keeping the paragraphs.
+
+Numbered sentences:
+${formatNumberedEssay(sentences)}
+`;
+
+// The transcription of the student's reading is what gets marked, so the coach must not
+// talk over them or read the passage itself.
+const buildReadAloudInstruction = (audience: string, passage: string): string =>
+  `You are Vinschool English Coach AI, listening to ${audience} reading a passage aloud. Do not read the passage yourself, do not correct the student while they read and do not interrupt. Only when they have clearly finished the whole passage, say one short, warm sentence of praise. The passage is:\n"${passage}"`;
+
+const buildRolePlayInstruction = (level: LearnerLevel, scenario: RolePlayScenario): string =>
+  `You are Vinschool English Coach AI, role-playing with ${level.audience}. Stay in character as ${scenario.coachRole} in ${scenario.setting}, and start the conversation in character. ${level.feedbackStyle} The student's goal is: ${scenario.goal} Help them reach it by asking questions, and give them natural chances to use these phrases: ${scenario.targetPhrases.join(', ')}. Do not correct them while in character. As soon as the goal has been reached, congratulate them and say exactly "${GOAL_REACHED_PHRASE}". The conversation ends after ${scenario.turnLimit} student turns, so keep your replies short. If the student speaks Vietnamese, stay in character and gently encourage them to try in English.`;
+
+const buildRepairPrompt = (originalPrompt: string, issues: ValidationIssue[]): string => `${originalPrompt}
+Your previous answer could not be used because of these problems: ${describeIssues(issues)}.
+Answer again with the complete JSON object, including every required field.
+`;
 
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+type InlineAudioPart = { inlineData: { mimeType: string; data: string } };
+
+// Writing feedback as the schema (with withEssay) describes it, before the essay sentences
+// are paired with the local split.
+type ModelWritingFeedback = Omit<WritingFeedback, 'essay'> & {
+  essay?: Omit<EssayFeedback, 'sentences'> & { sentences: ModelSentenceFeedback[] };
+};
+
+// A refusal comes back as an ordinary response with no text, so it is turned into an error here.
+const throwIfBlocked = (response: GenerateContentResponse): void => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new ApiError('safety', `The request was blocked (${blockReason}).`);
+  }
+  if (response.candidates?.[0]?.finishReason === FinishReason.SAFETY) {
+    throw new ApiError('safety', 'The answer was stopped by the safety filters.');
+  }
+};
+
+// Asks for JSON matching `responseSchema`, re-asking while required fields are missing or
+// invalid. When the attempts run out, it fails with a FeedbackValidationError listing what
+// was still wrong, rather than returning feedback padded with defaults.
+// With `onText`, the response is streamed and `onText` gets all the text received so far
+// after every chunk; a repair attempt or a retry starts the text again from the beginning.
+const generateValidatedJson = async <T>(
+  prompt: string,
+  responseSchema: ResponseSchema,
+  systemInstruction: string,
+  audioPart: InlineAudioPart | null,
+  stream: { onText?: (text: string) => void; signal?: AbortSignal } = {}
+): Promise<T> => {
+  let contents = prompt;
+  let lastIssues: ValidationIssue[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const requestContents = contents;
+    let responseText = await runApiRequest(async (signal) => {
+      const request = {
+        model: GEMINI_MODEL_NAME,
+        contents: audioPart ? [{ role: 'user', parts: [{ text: requestContents }, audioPart] }] : requestContents,
+        config: {
+          systemInstruction: systemInstruction,
+          temperature: 0.7,
+          topK: 40,
+          topP: 0.95,
+          responseMimeType: "application/json",
+          responseSchema: responseSchema,
+          abortSignal: signal,
+        },
+      };
+      let text = '';
+      if (stream.onText) {
+        for await (const chunk of await getClient().models.generateContentStream(request)) {
+          throwIfBlocked(chunk);
+          text += chunk.text ?? '';
+          stream.onText(text);
+        }
+      } else {
+        const response: GenerateContentResponse = await getClient().models.generateContent(request);
+        throwIfBlocked(response);
+        text = response.text ?? '';
+      }
+      return text;
+    }, { signal: stream.signal });
+    stream.signal?.throwIfAborted();
+    responseText = responseText.trim();
+    console.log("Raw API Response Text (JSON):", responseText); // Log raw response for debugging
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(responseText);
+    } catch (jsonError) {
+      console.error('Failed to parse JSON response:', jsonError);
+      console.error('Response text that caused parsing error:', responseText);
+      lastIssues = [{ path: '', code: 'invalid_type', message: 'response was not valid JSON' }];
+      contents = buildRepairPrompt(prompt, lastIssues);
+      continue;
+    }
+
+    const { value, issues } = validateAgainstSchema<T>(responseSchema, parsed);
+    const blocking = issues.filter(isBlockingIssue);
+    if (issues.length > 0) {
+      console.warn('Repaired AI response:', describeIssues(issues));
+    }
+    if (blocking.length === 0) {
+      return value;
     }
+    lastIssues = blocking;
+    contents = buildRepairPrompt(prompt, blocking);
   }
-  return buffer;
-}
 
-function createBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+  throw new FeedbackValidationError(
+    `The AI response did not match the expected format (${describeIssues(lastIssues)}).`,
+    lastIssues,
+  );
+};
+
+// Cancellations pass through; anything else, including a response that could not be
+// validated, is logged and given an error code.
+const describeApiError = (error: any, action: string): Error => {
+  if (isAbortError(error)) {
+    return error;
   }
-  return {
-    data: btoa(String.fromCharCode(...new Uint8Array(int16.buffer))), // `encode` not strictly needed as `btoa` works with string chars directly
-    mimeType: 'audio/pcm;rate=16000',
-  };
-}
-// --- End Audio Utility Functions ---
+  console.error('Gemini API Error:', error);
+  return toApiError(error, action);
+};
 
-export const getEvaluation = async (
+const getEvaluation = async (
   type: EvaluationType,
-  inputText: string
+  inputText: string,
+  options: EvaluationOptions = {}
 ): Promise<WritingFeedback | SpeakingFeedback> => {
-  const systemInstruction = `You are Vinschool English Coach AI, a friendly, encouraging English teacher for Vietnamese elementary students. If the student's input is in Vietnamese, you must first translate it to English internally, then provide feedback on the *translated English* as if the student originally wrote/spoke it. All your feedback, corrections, scores, and suggestions must be in clear, simple English. Your response must be a JSON object that adheres strictly to the provided schema and format, with no additional text or markdown outside the JSON object itself. Make sure all values are correctly typed as per the schema.`;
+  const level = getLearnerLevel(options.level);
+  const systemInstruction = `You are Vinschool English Coach AI, a friendly, encouraging English teacher for ${level.audience}. ${level.feedbackStyle} If the student's input is in Vietnamese, you must first translate it to English internally, then provide feedback on the *translated English* as if the student originally wrote/spoke it. All your feedback, corrections, scores, and suggestions must be in clear English suited to this level.${options.bilingual ? BILINGUAL_INSTRUCTION : ''} Your response must be a JSON object that adheres strictly to the provided schema and format, with no additional text or markdown outside the JSON object itself. Make sure all values are correctly typed as per the schema.`;
 
   let prompt: string;
-  let responseSchema: any;
+  let responseSchema: ResponseSchema;
+  const essaySentences = type === 'writing' && options.essay ? splitEssay(inputText) : null;
 
   if (type === 'writing') {
     prompt = `
 Evaluate the following student's writing.
 1. Check grammar, spelling, and sentence structure.
 2. Identify common mistakes and explain corrections in a simple and friendly way.
-3. Give a score from 0-10 for each category: Grammar, Vocabulary, Sentence Structure, Overall Writing Quality. For Overall, provide a decimal like 8.7/10.
+3. Give a score from 0-10 for each category: Grammar, Vocabulary, Sentence Structure, Overall Writing Quality. For Overall, provide a decimal like 8.7/10. Mark against the student's level (${level.label}): ${level.rubric}
 4. Provide 2-3 short suggestions for improvement.
 5. Always provide the corrected sentence clearly.
-6. Use emojis occasionally (😊✨📘).
-7. Keep answers concise.
-
+6. List every change you made in "edits": the exact words the student wrote ("original", empty if you added words), what you changed them to ("replacement", empty if you removed words), a category (grammar, spelling, punctuation, capitalisation or word choice), a one-sentence reason and a "tag" for the kind of mistake: ${ERROR_TAG_LIST}.
+7. ${VOCABULARY_STEP}
+8. Use emojis occasionally (😊✨📘).
+9. Keep answers concise.
+${options.task ? buildTaskSection(options.task) : ''}${essaySentences ? buildEssaySection(essaySentences) : ''}
 Student's writing:
 "${inputText}"
 `;
-    responseSchema = writingResponseSchema;
-  } else { // type === 'speaking'
+    responseSchema = withVocabularyItems(options.bilingual ? withVietnameseWriting(writingResponseSchema) : writingResponseSchema);
+    if (options.task) {
+      responseSchema = withTaskAchievement(responseSchema);
+    }
+    if (essaySentences) {
+      responseSchema = withEssay(responseSchema);
+    }
+  } else if (options.audio) { // type === 'speaking', with the recording
+    prompt = `
+Listen to the attached recording of the student speaking. The transcript below is only a guide to what they meant to say; judge pronunciation and fluency from the audio itself.
+1. Analyze pronunciation, fluency, and coherence.
+2. Give feedback on pronunciation clarity, rhythm, and natural expression.
+3. Rate the speaking performance from 0-10 in: Pronunciation, Fluency, Confidence, Overall Speaking Quality. For Overall, provide a decimal like 8.7/10. Mark against the student's level (${level.label}): ${level.rubric}
+4. Suggest 1-2 pronunciation tips.
+5. List each word you heard mispronounced in "wordFindings": the word, its expected pronunciation in IPA ("expectedPhonemes"), what you heard instead ("problem"), and a severity (minor, moderate or major). Leave the list empty if every word was clear.
+6. ${VOCABULARY_STEP}
+7. Use emojis occasionally (😊✨📘).
+8. Keep answers concise.
+${options.fluencyMetrics ? `Measured from the recording: ${describeFluencyMetrics(options.fluencyMetrics)}. Base the Fluency score on these measurements.\n` : ''}
+Student's speech transcript:
+"${inputText}"
+`;
+    responseSchema = withVocabularyItems(withWordFindings(options.bilingual ? withVietnameseSpeaking(speakingResponseSchema) : speakingResponseSchema));
+  } else { // type === 'speaking', transcript only
     prompt = `
 Evaluate the following speech transcript, imagining the student spoke this.
 1. Analyze pronunciation, fluency, and coherence.
 2. Give feedback on pronunciation clarity, rhythm, and natural expression.
-3. Rate the speaking performance from 0-10 in: Pronunciation, Fluency, Confidence, Overall Speaking Quality. For Overall, provide a decimal like 8.7/10.
+3. Rate the speaking performance from 0-10 in: Pronunciation, Fluency, Confidence, Overall Speaking Quality. For Overall, provide a decimal like 8.7/10. Mark against the student's level (${level.label}): ${level.rubric}
 4. Suggest 1-2 pronunciation tips.
-5. Use emojis occasionally (😊✨📘).
-6. Keep answers concise.
+5. ${VOCABULARY_STEP}
+6. Use emojis occasionally (😊✨📘).
+7. Keep answers concise.
 
 Student's speech transcript:
 "${inputText}"
 `;
-    responseSchema = speakingResponseSchema;
+    responseSchema = withVocabularyItems(options.bilingual ? withVietnameseSpeaking(speakingResponseSchema) : speakingResponseSchema);
   }
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_MODEL_NAME,
-      contents: prompt,
-      config: {
-        systemInstruction: systemInstruction,
-        temperature: 0.7,
-        topK: 40,
-        topP: 0.95,
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-      },
+    // The recording is sent with every attempt, including repair requests.
+    const audioPart = options.audio && type === 'speaking'
+      ? { inlineData: { mimeType: 'audio/wav', data: bytesToBase64(new Uint8Array(await options.audio.arrayBuffer())) } }
+      : null;
+    const onPartial = type === 'writing' ? options.onPartial : undefined;
+    const value = await generateValidatedJson<ModelWritingFeedback | SpeakingFeedback>(prompt, responseSchema, systemInstruction, audioPart, {
+      onText: onPartial && (text => {
+        const partial = parsePartialJson(text);
+        if (partial !== undefined) onPartial(toPartialWritingFeedback(partial));
+      }),
+      signal: options.signal,
     });
+    if (type === 'speaking') return value as SpeakingFeedback;
+    const { essay, ...writing } = value as ModelWritingFeedback;
+    if (!essaySentences || !essay) return writing;
+    // The originals always come from the local split, never from the model.
+    return { ...writing, essay: { ...essay, sentences: alignSentenceFeedback(essaySentences, essay.sentences) } };
+  } catch (error: any) {
+    throw describeApiError(error, 'Failed to get evaluation from AI');
+  }
+};
 
-    const responseText = response.text.trim();
-    console.log("Raw API Response Text (JSON):", responseText); // Log raw response for debugging
+const buildExerciseSources = (sources: ExerciseSource[]): string => sources
+  .map((source, index) => `${index + 1}. Corrected writing: "${source.correctedSentence}"\n   What was corrected: ${source.explanation}\n   Error types: ${source.errorTags.join(', ')}`)
+  .join('\n');
 
-    try {
-      const parsedFeedback = JSON.parse(responseText);
-      if (type === 'writing') {
-        return parsedFeedback as WritingFeedback;
-      } else {
-        return parsedFeedback as SpeakingFeedback;
-      }
-    } catch (jsonError) {
-      console.error('Failed to parse JSON response:', jsonError);
-      console.error('Response text that caused parsing error:', responseText);
-      throw new Error('Failed to parse AI response. The response format was unexpected.');
-    }
+const generateExercises = async (sources: ExerciseSource[], options: ExerciseOptions = {}): Promise<Exercise[]> => {
+  const level = getLearnerLevel(options.level);
+  const count = options.count ?? DEFAULT_EXERCISE_COUNT;
+  const systemInstruction = `You are Vinschool English Coach AI, writing grammar practice for ${level.audience}. ${level.feedbackStyle} Your response must be a JSON object that adheres strictly to the provided schema, with no additional text or markdown outside the JSON object itself.`;
+  const prompt = `
+Write ${count} short grammar exercises for this student, aimed at the error types in their recent corrected writing below. Focus on the most frequent error types, use vocabulary suited to their level (${level.label}), and use a mix of these kinds:
+- "multipleChoice": a question in "instruction", an optional sentence in "sentence", 2-4 "options" and the right option copied exactly into "answer".
+- "gapFill": a sentence with exactly one gap written as "${BLANK}" in "sentence", and the missing word or words in "answer". Leave "options" empty.
+- "reorder": the words of one correct sentence, shuffled, in "options" (one word per option, punctuation attached to its word), and the correct sentence in "answer". Leave "sentence" empty.
+- "errorSpotting": a sentence with exactly one wrong word in "sentence", and that wrong word, exactly as written, in "answer". Leave "options" empty.
+Every exercise must have exactly one right answer. Set "tag" to the error type it practises: ${ERROR_TAG_LIST}. Write a one-sentence, child-friendly "explanation" of the right answer.
 
+Recent corrected writing:
+${buildExerciseSources(sources)}
+`;
+
+  try {
+    const { exercises } = await generateValidatedJson<{ exercises: Exercise[] }>(prompt, exerciseResponseSchema, systemInstruction, null);
+    return exercises;
   } catch (error: any) {
-    console.error('Gemini API Error:', error);
-    // Add more specific error messages if the error object provides them
-    if (error.message && error.message.includes("400 BAD_REQUEST")) {
-        throw new Error("Gemini API received a bad request. Please check your prompt or API key.");
-    }
-    throw new Error(`Failed to get evaluation from AI: ${error.message || 'Unknown error'}`);
+    throw describeApiError(error, 'Failed to create exercises');
   }
 };
 
-
-interface LiveSessionCallbacks {
-  onTranscriptionUpdate: (inputTranscript: string, outputTranscript: string) => void;
-  onTurnComplete: (fullInputTranscript: string) => void;
-  onAIStartSpeaking: () => void;
-  onAIStopSpeaking: () => void;
-  onError: (message: string) => void;
-  onClose: () => void;
-}
-
-export const startLiveSpeakingSession = async (
-  callbacks: LiveSessionCallbacks
-): Promise<{ close: () => void }> => {
+const startLiveSpeakingSession = async (
+  callbacks: LiveSessionCallbacks,
+  options: LiveSessionOptions = {}
+): Promise<LiveSessionHandle> => {
+  const level = getLearnerLevel(options.level);
   let nextStartTime = 0;
-  let inputAudioContext: AudioContext;
-  let outputAudioContext: AudioContext;
-  let inputNode: GainNode | null = null;
-  let scriptProcessor: ScriptProcessorNode | null = null;
-  let mediaStreamSource: MediaStreamAudioSourceNode | null = null;
+  let outputAudioContext: AudioContext | null = null;
+  let capture: MicrophoneCapture | null = null;
+  let session: Session | null = null;
   const sources = new Set<AudioBufferSourceNode>();
   let stream: MediaStream | null = null;
 
-  let currentInputTranscription = '';
-  let currentOutputTranscription = '';
+  const turnTracker = createLiveTurnTracker();
+  const turnRecorder = createTurnRecorder();
 
   try {
     // Request microphone access
     stream = await navigator.mediaDevices.getUserMedia({ audio: true });
 
-    // Fix: Use standard AudioContext
-    inputAudioContext = new AudioContext({ sampleRate: 16000 });
-    // Fix: Use standard AudioContext
-    outputAudioContext = new AudioContext({ sampleRate: 24000 });
-    
+    // Both contexts run at the device's own rate; capture resamples to 16 kHz itself.
+    // Audio captured before the session is open is dropped.
+    capture = await startMicrophoneCapture(stream, (pcm) => {
+      if (!session) return;
+      session.sendRealtimeInput({ media: createBlob(pcm) });
+      turnRecorder.addStudentAudio(pcm);
+    });
+    const playbackContext = new AudioContext();
+    outputAudioContext = playbackContext;
+
     // Create a gain node for output control (optional, but good practice)
-    const outputNode = outputAudioContext.createGain();
-    outputNode.connect(outputAudioContext.destination);
+    const outputNode = playbackContext.createGain();
+    outputNode.connect(playbackContext.destination);
 
-    const sessionPromise = ai.live.connect({
+    const sessionPromise = getClient().live.connect({
       model: 'gemini-2.5-flash-native-audio-preview-09-2025',
       callbacks: {
         onopen: () => {
           console.debug('Live session opened');
-          // Stream audio from the microphone to the model.
-          mediaStreamSource = inputAudioContext.createMediaStreamSource(stream!);
-          scriptProcessor = inputAudioContext.createScriptProcessor(4096, 1, 1);
-          
-          scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-            const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-            const pcmBlob = createBlob(inputData);
-            sessionPromise.then((session) => {
-              session.sendRealtimeInput({ media: pcmBlob });
-            });
-          };
-          mediaStreamSource.connect(scriptProcessor);
-          scriptProcessor.connect(inputAudioContext.destination);
         },
         onmessage: async (message: LiveServerMessage) => {
           // console.debug('Live message:', message);
 
-          // Handle input transcription
-          if (message.serverContent?.inputTranscription) {
-            currentInputTranscription += message.serverContent.inputTranscription.text;
-            callbacks.onTranscriptionUpdate(currentInputTranscription, currentOutputTranscription);
+          for (const event of turnTracker.handleMessage(message)) {
+            if (event.type === 'interrupted') {
+              // Stop the coach's queued audio as soon as the student talks over it
+              for (const source of sources.values()) {
+                source.stop();
+                sources.delete(source);
+              }
+              nextStartTime = 0;
+              callbacks.onAIStopSpeaking();
+            }
+            callbacks.onTurnEvent(event.type === 'turnComplete' ? { ...event, audio: turnRecorder.finishTurn() } : event);
           }
 
-          // Handle model's output audio and transcription
-          const base64EncodedAudioString = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
+          // Play the model's output audio
+          const base64EncodedAudioString = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
           if (base64EncodedAudioString) {
             callbacks.onAIStartSpeaking();
-            nextStartTime = Math.max(nextStartTime, outputAudioContext.currentTime);
-            const audioBuffer = await decodeAudioData(
-              decode(base64EncodedAudioString),
-              outputAudioContext,
-              24000,
-              1,
-            );
-            const source = outputAudioContext.createBufferSource();
+            nextStartTime = Math.max(nextStartTime, playbackContext.currentTime);
+            const audioBytes = base64ToBytes(base64EncodedAudioString);
+            turnRecorder.addCoachAudio(bytesToPcm16(audioBytes));
+            const audioBuffer = decodeAudioData(audioBytes, playbackContext, LIVE_OUTPUT_SAMPLE_RATE);
+            const source = playbackContext.createBufferSource();
             source.buffer = audioBuffer;
             source.connect(outputNode);
             source.addEventListener('ended', () => {
@@ -277,46 +430,6 @@ export const startLiveSpeakingSession = async (
             nextStartTime = nextStartTime + audioBuffer.duration;
             sources.add(source);
           }
-          if (message.serverContent?.outputTranscription) {
-            currentOutputTranscription += message.serverContent.outputTranscription.text;
-            callbacks.onTranscriptionUpdate(currentInputTranscription, currentOutputTranscription);
-          }
-          
-          // Handle turn complete
-          if (message.serverContent?.turnComplete) {
-            console.log("Turn complete. Evaluating:", fullInputTranscript);
-            conversationHistoryRef.current.push(`You: ${fullInputTranscript}`);
-            if (outputTranscriptRef.current) {
-              conversationHistoryRef.current.push(`Coach: ${outputTranscriptRef.current}`);
-            }
-            
-            // Clear current turn's display but retain for conversation history
-            inputTranscriptRef.current = '';
-            outputTranscriptRef.current = '';
-            setCurrentInputDisplayTranscript('');
-            setCurrentOutputDisplayTranscript('');
-
-            // Trigger detailed evaluation for the completed student turn
-            onSetLoading(true);
-            try {
-              await onSubmitTranscriptForEvaluation(fullInputTranscript);
-            } catch (evalError: any) {
-              onSetError(evalError.message || 'Failed to get detailed feedback for the turn.');
-            } finally {
-              onSetLoading(false);
-            }
-          }
-          
-          // Handle interruption
-          const interrupted = message.serverContent?.interrupted;
-          if (interrupted) {
-            for (const source of sources.values()) {
-              source.stop();
-              sources.delete(source);
-            }
-            nextStartTime = 0;
-            callbacks.onAIStopSpeaking();
-          }
         },
         onerror: (e: ErrorEvent) => {
           console.error('Live API Error:', e);
@@ -331,35 +444,30 @@ export const startLiveSpeakingSession = async (
       config: {
         responseModalities: [Modality.AUDIO],
         speechConfig: {
-          voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: options.scenario?.voice ?? 'Zephyr' } },
         },
-        systemInstruction: 'You are Vinschool English Coach AI, a friendly, encouraging English teacher for Vietnamese elementary students. Your goal is to have a natural conversation, guiding them to improve their English speaking. Keep responses simple and encouraging. If the student speaks Vietnamese, respond in English as if they spoke English, perhaps gently guiding them to try speaking English.',
+        systemInstruction: options.readAloudPassage
+          ? buildReadAloudInstruction(level.audience, options.readAloudPassage)
+          : options.scenario
+          ? buildRolePlayInstruction(level, options.scenario)
+          : `You are Vinschool English Coach AI, a friendly, encouraging English teacher for ${level.audience}. Your goal is to have a natural conversation, guiding them to improve their English speaking. ${level.feedbackStyle} If the student speaks Vietnamese, respond in English as if they spoke English, perhaps gently guiding them to try speaking English.`,
         inputAudioTranscription: {},
         outputAudioTranscription: {},
       },
     });
 
-    const session = await sessionPromise;
+    const openSession = await sessionPromise;
+    session = openSession;
 
     return {
       close: () => {
-        session.close();
+        session = null;
+        openSession.close();
+        capture?.stop();
         if (stream) {
           stream.getTracks().forEach(track => track.stop());
         }
-        if (inputAudioContext) {
-          inputAudioContext.close();
-        }
-        if (outputAudioContext) {
-          outputAudioContext.close();
-        }
-        if (scriptProcessor) {
-          scriptProcessor.disconnect();
-          scriptProcessor.onaudioprocess = null;
-        }
-        if (mediaStreamSource) {
-          mediaStreamSource.disconnect();
-        }
+        playbackContext.close();
         for (const source of sources.values()) {
           source.stop();
           sources.delete(source);
@@ -369,8 +477,36 @@ export const startLiveSpeakingSession = async (
     };
   } catch (error: any) {
     console.error('Failed to start live speaking session:', error);
+    capture?.stop();
+    stream?.getTracks().forEach(track => track.stop());
+    outputAudioContext?.close();
     callbacks.onError(`Failed to start speaking session: ${error.message || 'Microphone access denied or unknown error.'}`);
     callbacks.onClose();
     throw error;
   }
 };
+
+const synthesizeSpeech = async (text: string): Promise<PcmAudio | null> => {
+  const response = await runApiRequest(signal => getClient().models.generateContent({
+    model: TTS_MODEL_NAME,
+    contents: [{ parts: [{ text: `Say clearly and slowly, for a young English learner: ${text}` }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
+      abortSignal: signal,
+    },
+  }), { action: 'Failed to read the word aloud' });
+  const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!data) return null; // The caller falls back to the browser's voice
+  // Same 24 kHz 16-bit PCM as the live coach's replies.
+  return { pcm: bytesToPcm16(base64ToBytes(data)), sampleRate: LIVE_OUTPUT_SAMPLE_RATE };
+};
+
+export const geminiProvider: EvaluationProvider = {
+  name: 'gemini',
+  promptVersion: '1',
+  getEvaluation,
+  generateExercises,
+  startLiveSpeakingSession,
+  synthesizeSpeech,
+};
@@ -0,0 +1,106 @@
+// prettier-ignore
+import { GrammarErrorTag } from '../types';
+
+// The fixed list of error types every correction is tagged with. The same tags are sent to the
+// model as an enum, counted per evaluation and ranked in the weakness profile, so teachers can
+// plan lessons around each student's patterns.
+
+export interface GrammarErrorType {
+  id: GrammarErrorTag;
+  label: string;
+  description: string; // Shown to the teacher in the weakness profile
+  practice: string;    // A focused activity to recommend when the tag is frequent
+  example: { wrong: string; right: string };
+}
+
+export const GRAMMAR_ERROR_TYPES: GrammarErrorType[] = [
+  {
+    id: 'subjectVerbAgreement',
+    label: 'Subject-verb agreement',
+    description: 'The verb does not match its subject, e.g. "he have" or "they goes".',
+    practice: 'Sort sentences about "he/she/it" and "I/you/we/they" and add the -s only where it belongs.',
+    example: { wrong: 'She like apples.', right: 'She likes apples.' },
+  },
+  {
+    id: 'pastTense',
+    label: 'Past simple',
+    description: 'The present tense is used for finished events, or the -ed / irregular form is wrong.',
+    practice: 'Retell last weekend in five sentences, then underline every past verb.',
+    example: { wrong: 'Yesterday I go to the park.', right: 'Yesterday I went to the park.' },
+  },
+  {
+    id: 'verbForms',
+    label: 'Verb forms',
+    description: 'The wrong form after another verb, e.g. "like play" instead of "like playing".',
+    practice: 'Complete "I like ... / I want ... / I can ..." sentences with the right verb form.',
+    example: { wrong: 'I like play football.', right: 'I like playing football.' },
+  },
+  {
+    id: 'articles',
+    label: 'Articles (a, an, the)',
+    description: 'A missing, extra or wrong "a", "an" or "the".',
+    practice: 'Describe a picture using "a" or "an" for new things and "the" for things already mentioned.',
+    example: { wrong: 'I have a apple.', right: 'I have an apple.' },
+  },
+  {
+    id: 'prepositions',
+    label: 'Prepositions',
+    description: 'The wrong little word for place or time, e.g. "in Monday" or "at the table" for "on".',
+    practice: 'Play "Where is it?" with classroom objects using in, on, under and next to.',
+    example: { wrong: 'I play football in Sunday.', right: 'I play football on Sunday.' },
+  },
+  {
+    id: 'plurals',
+    label: 'Plurals',
+    description: 'A missing or wrong plural ending, e.g. "two cat" or "childs".',
+    practice: 'Count objects in a picture and write "two ...s", including irregular plurals.',
+    example: { wrong: 'I have two cat.', right: 'I have two cats.' },
+  },
+  {
+    id: 'wordOrder',
+    label: 'Word order',
+    description: 'The right words in the wrong order, e.g. adjectives after the noun or questions without inversion.',
+    practice: 'Put jumbled sentence cards in the right order, then read the sentences aloud.',
+    example: { wrong: 'I have a dog big.', right: 'I have a big dog.' },
+  },
+  {
+    id: 'wordChoice',
+    label: 'Word choice',
+    description: 'A real word, but not the one that fits the meaning.',
+    practice: 'Match the word-bank words to pictures and use each one in a sentence.',
+    example: { wrong: 'I make my homework.', right: 'I do my homework.' },
+  },
+  {
+    id: 'spelling',
+    label: 'Spelling',
+    description: 'The word is misspelt.',
+    practice: 'Look, say, cover, write, check with the words from recent feedback.',
+    example: { wrong: 'My freind is kind.', right: 'My friend is kind.' },
+  },
+  {
+    id: 'capitalisation',
+    label: 'Capital letters',
+    description: 'A missing capital at the start of a sentence, for "I" or for names.',
+    practice: 'Proofread a short paragraph with the capitals taken out and put them back.',
+    example: { wrong: 'my name is lan.', right: 'My name is Lan.' },
+  },
+  {
+    id: 'punctuation',
+    label: 'Punctuation',
+    description: 'A missing or wrong full stop, question mark or comma.',
+    practice: 'Read sentences aloud and add a full stop or question mark wherever the voice stops.',
+    example: { wrong: 'Do you like pizza.', right: 'Do you like pizza?' },
+  },
+  {
+    id: 'otherGrammar',
+    label: 'Other grammar',
+    description: 'A grammar mistake that does not fit the other types.',
+    practice: 'Go through the corrections in the Mistake Notebook together.',
+    example: { wrong: 'I am agree.', right: 'I agree.' },
+  },
+];
+
+export const GRAMMAR_ERROR_TAG_IDS: GrammarErrorTag[] = GRAMMAR_ERROR_TYPES.map(type => type.id);
+
+export const getGrammarErrorType = (tag: GrammarErrorTag): GrammarErrorType =>
+  GRAMMAR_ERROR_TYPES.find(type => type.id === tag) ?? GRAMMAR_ERROR_TYPES[GRAMMAR_ERROR_TYPES.length - 1];
@@ -0,0 +1,447 @@
+// prettier-ignore
+import { LearnerProfile, EvaluationRecord, EvaluationType, WritingFeedback, SpeakingFeedback, SessionReport, TurnRecording, RewardState, MistakeCard, VocabularyItem, WordBankEntry, PracticeResult, ExerciseAnswer, LearnerLevelId, CachedEvaluation } from '../types';
+import { createId } from '../utils/id';
+import { mistakeKey } from '../utils/mistakeCards';
+import { writingResponseSchema, speakingResponseSchema } from './feedbackSchemas';
+import { validateAgainstSchema, isBlockingIssue } from './feedbackValidation';
+
+// Local persistence for learner profiles and their evaluation history, kept in IndexedDB
+// so nothing leaves the device.
+
+const DB_NAME = 'vinschool-english-coach';
+const DB_VERSION = 8;
+const PROFILES_STORE = 'profiles';
+const EVALUATIONS_STORE = 'evaluations';
+const SESSION_REPORTS_STORE = 'sessionReports';
+const RECORDINGS_STORE = 'recordings';
+const REWARDS_STORE = 'rewards';
+const MISTAKES_STORE = 'mistakeCards';
+const WORD_BANK_STORE = 'wordBank';
+const PRACTICE_STORE = 'practiceResults';
+const EVALUATION_CACHE_STORE = 'evaluationCache';
+const ACTIVE_PROFILE_KEY = 'vinschool-english-coach.activeProfileId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Saving progress is not supported in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROFILES_STORE)) {
+          db.createObjectStore(PROFILES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(EVALUATIONS_STORE)) {
+          const evaluations = db.createObjectStore(EVALUATIONS_STORE, { keyPath: 'id' });
+          evaluations.createIndex('profileId', 'profileId');
+        }
+        if (!db.objectStoreNames.contains(SESSION_REPORTS_STORE)) {
+          const reports = db.createObjectStore(SESSION_REPORTS_STORE, { keyPath: 'id' });
+          reports.createIndex('profileId', 'profileId');
+        }
+        if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+          const recordings = db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+          recordings.createIndex('sessionId', 'sessionId');
+        }
+        if (!db.objectStoreNames.contains(REWARDS_STORE)) {
+          db.createObjectStore(REWARDS_STORE, { keyPath: 'profileId' });
+        }
+        if (!db.objectStoreNames.contains(MISTAKES_STORE)) {
+          const mistakes = db.createObjectStore(MISTAKES_STORE, { keyPath: 'id' });
+          mistakes.createIndex('profileId', 'profileId');
+        }
+        if (!db.objectStoreNames.contains(WORD_BANK_STORE)) {
+          const words = db.createObjectStore(WORD_BANK_STORE, { keyPath: 'id' });
+          words.createIndex('profileId', 'profileId');
+        }
+        if (!db.objectStoreNames.contains(PRACTICE_STORE)) {
+          const practice = db.createObjectStore(PRACTICE_STORE, { keyPath: 'id' });
+          practice.createIndex('profileId', 'profileId');
+        }
+        if (!db.objectStoreNames.contains(EVALUATION_CACHE_STORE)) {
+          db.createObjectStore(EVALUATION_CACHE_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. a blocked upgrade).
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// --- Profiles ---
+
+export const listProfiles = async (): Promise<LearnerProfile[]> => {
+  const db = await openDatabase();
+  const profiles = await requestToPromise<LearnerProfile[]>(
+    db.transaction(PROFILES_STORE).objectStore(PROFILES_STORE).getAll()
+  );
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createProfile = async (
+  details: Pick<LearnerProfile, 'name' | 'className' | 'gradeLevel'>
+): Promise<LearnerProfile> => {
+  const profile: LearnerProfile = { ...details, id: createId(), createdAt: Date.now() };
+  const db = await openDatabase();
+  const transaction = db.transaction(PROFILES_STORE, 'readwrite');
+  transaction.objectStore(PROFILES_STORE).put(profile);
+  await transactionDone(transaction);
+  return profile;
+};
+
+export const getActiveProfileId = (): string | null => localStorage.getItem(ACTIVE_PROFILE_KEY);
+
+export const setActiveProfileId = (profileId: string | null): void => {
+  if (profileId) {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+  } else {
+    localStorage.removeItem(ACTIVE_PROFILE_KEY);
+  }
+};
+
+// --- Evaluation history ---
+
+export const saveEvaluation = async (
+  profileId: string,
+  type: EvaluationType,
+  input: string,
+  feedback: WritingFeedback | SpeakingFeedback
+): Promise<EvaluationRecord> => {
+  const record: EvaluationRecord = { id: createId(), profileId, type, input, feedback, createdAt: Date.now() };
+  const db = await openDatabase();
+  const transaction = db.transaction(EVALUATIONS_STORE, 'readwrite');
+  transaction.objectStore(EVALUATIONS_STORE).put(record);
+  await transactionDone(transaction);
+  return record;
+};
+
+// Newest first.
+export const listEvaluations = async (profileId: string): Promise<EvaluationRecord[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise<EvaluationRecord[]>(
+    db.transaction(EVALUATIONS_STORE).objectStore(EVALUATIONS_STORE).index('profileId').getAll(profileId)
+  );
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const listAllEvaluations = async (): Promise<EvaluationRecord[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise<EvaluationRecord[]>(
+    db.transaction(EVALUATIONS_STORE).objectStore(EVALUATIONS_STORE).getAll()
+  );
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// --- Speaking session reports ---
+
+export const saveSessionReport = async (report: SessionReport): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSION_REPORTS_STORE, 'readwrite');
+  transaction.objectStore(SESSION_REPORTS_STORE).put(report);
+  await transactionDone(transaction);
+};
+
+// Newest first.
+export const listSessionReports = async (profileId: string): Promise<SessionReport[]> => {
+  const db = await openDatabase();
+  const reports = await requestToPromise<SessionReport[]>(
+    db.transaction(SESSION_REPORTS_STORE).objectStore(SESSION_REPORTS_STORE).index('profileId').getAll(profileId)
+  );
+  return reports.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+// --- Turn recordings ---
+
+export const saveTurnRecordings = async (recordings: TurnRecording[]): Promise<void> => {
+  if (recordings.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDINGS_STORE, 'readwrite');
+  const store = transaction.objectStore(RECORDINGS_STORE);
+  recordings.forEach(recording => store.put(recording));
+  await transactionDone(transaction);
+};
+
+// In the order they were spoken.
+export const listSessionRecordings = async (sessionId: string): Promise<TurnRecording[]> => {
+  const db = await openDatabase();
+  const recordings = await requestToPromise<TurnRecording[]>(
+    db.transaction(RECORDINGS_STORE).objectStore(RECORDINGS_STORE).index('sessionId').getAll(sessionId)
+  );
+  return recordings.sort((a, b) => a.createdAt - b.createdAt || (a.role === 'student' ? -1 : 1));
+};
+
+// --- Rewards ---
+
+// undefined when the student has not earned anything yet.
+export const getRewardState = async (profileId: string): Promise<RewardState | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise<RewardState | undefined>(
+    db.transaction(REWARDS_STORE).objectStore(REWARDS_STORE).get(profileId)
+  );
+};
+
+export const saveRewardState = async (state: RewardState): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(REWARDS_STORE, 'readwrite');
+  transaction.objectStore(REWARDS_STORE).put(state);
+  await transactionDone(transaction);
+};
+
+// --- Mistake notebook ---
+
+// Adds the cards for mistakes not already in the student's notebook; returns how many were new.
+export const saveMistakeCards = async (cards: MistakeCard[]): Promise<number> => {
+  if (cards.length === 0) return 0;
+  const db = await openDatabase();
+  const transaction = db.transaction(MISTAKES_STORE, 'readwrite');
+  const store = transaction.objectStore(MISTAKES_STORE);
+  const existing = await requestToPromise<MistakeCard[]>(store.index('profileId').getAll(cards[0].profileId));
+  const seen = new Set(existing.map(mistakeKey));
+  let added = 0;
+  for (const card of cards) {
+    if (seen.has(mistakeKey(card))) continue;
+    seen.add(mistakeKey(card));
+    store.put(card);
+    added++;
+  }
+  await transactionDone(transaction);
+  return added;
+};
+
+// Oldest first.
+export const listMistakeCards = async (profileId: string): Promise<MistakeCard[]> => {
+  const db = await openDatabase();
+  const cards = await requestToPromise<MistakeCard[]>(
+    db.transaction(MISTAKES_STORE).objectStore(MISTAKES_STORE).index('profileId').getAll(profileId)
+  );
+  return cards.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const updateMistakeCard = async (card: MistakeCard): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MISTAKES_STORE, 'readwrite');
+  transaction.objectStore(MISTAKES_STORE).put(card);
+  await transactionDone(transaction);
+};
+
+export const deleteMistakeCard = async (cardId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MISTAKES_STORE, 'readwrite');
+  transaction.objectStore(MISTAKES_STORE).delete(cardId);
+  await transactionDone(transaction);
+};
+
+// --- Word bank ---
+
+// Adds the words not already in the student's word bank; returns how many were new.
+export const saveToWordBank = async (profileId: string, items: VocabularyItem[]): Promise<number> => {
+  if (items.length === 0) return 0;
+  const db = await openDatabase();
+  const transaction = db.transaction(WORD_BANK_STORE, 'readwrite');
+  const store = transaction.objectStore(WORD_BANK_STORE);
+  const existing = await requestToPromise<WordBankEntry[]>(store.index('profileId').getAll(profileId));
+  const seen = new Set(existing.map(entry => entry.word.trim().toLowerCase()));
+  let added = 0;
+  for (const item of items) {
+    const key = item.word.trim().toLowerCase();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    store.put({ ...item, id: createId(), profileId, learned: false, createdAt: Date.now(), learnedAt: null });
+    added++;
+  }
+  await transactionDone(transaction);
+  return added;
+};
+
+// Newest first.
+export const listWordBank = async (profileId: string): Promise<WordBankEntry[]> => {
+  const db = await openDatabase();
+  const entries = await requestToPromise<WordBankEntry[]>(
+    db.transaction(WORD_BANK_STORE).objectStore(WORD_BANK_STORE).index('profileId').getAll(profileId)
+  );
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const updateWordBankEntry = async (entry: WordBankEntry): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(WORD_BANK_STORE, 'readwrite');
+  transaction.objectStore(WORD_BANK_STORE).put(entry);
+  await transactionDone(transaction);
+};
+
+// --- Grammar practice ---
+
+export const savePracticeResult = async (
+  profileId: string,
+  level: LearnerLevelId,
+  answers: ExerciseAnswer[]
+): Promise<PracticeResult> => {
+  const result: PracticeResult = {
+    id: createId(),
+    profileId,
+    level,
+    createdAt: Date.now(),
+    answers,
+    correctCount: answers.filter(answer => answer.correct).length,
+  };
+  const db = await openDatabase();
+  const transaction = db.transaction(PRACTICE_STORE, 'readwrite');
+  transaction.objectStore(PRACTICE_STORE).put(result);
+  await transactionDone(transaction);
+  return result;
+};
+
+// Newest first.
+export const listPracticeResults = async (profileId: string): Promise<PracticeResult[]> => {
+  const db = await openDatabase();
+  const results = await requestToPromise<PracticeResult[]>(
+    db.transaction(PRACTICE_STORE).objectStore(PRACTICE_STORE).index('profileId').getAll(profileId)
+  );
+  return results.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// --- Evaluation cache ---
+
+export const getCachedEvaluation = async (key: string): Promise<CachedEvaluation | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise<CachedEvaluation | undefined>(
+    db.transaction(EVALUATION_CACHE_STORE).objectStore(EVALUATION_CACHE_STORE).get(key)
+  );
+};
+
+export const listCachedEvaluations = async (): Promise<CachedEvaluation[]> => {
+  const db = await openDatabase();
+  return requestToPromise<CachedEvaluation[]>(
+    db.transaction(EVALUATION_CACHE_STORE).objectStore(EVALUATION_CACHE_STORE).getAll()
+  );
+};
+
+export const saveCachedEvaluation = async (entry: CachedEvaluation): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(EVALUATION_CACHE_STORE, 'readwrite');
+  transaction.objectStore(EVALUATION_CACHE_STORE).put(entry);
+  await transactionDone(transaction);
+};
+
+export const deleteCachedEvaluations = async (keys: string[]): Promise<void> => {
+  if (keys.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(EVALUATION_CACHE_STORE, 'readwrite');
+  const store = transaction.objectStore(EVALUATION_CACHE_STORE);
+  keys.forEach(key => store.delete(key));
+  await transactionDone(transaction);
+};
+
+// --- Import ---
+
+export interface ImportSummary {
+  profilesAdded: number;
+  evaluationsAdded: number;
+  evaluationsSkipped: number;
+}
+
+const profileKey = (profile: Pick<LearnerProfile, 'name' | 'className'>): string =>
+  `${profile.name.trim().toLowerCase()}|${(profile.className ?? '').trim().toLowerCase()}`;
+
+const evaluationKey = (record: Pick<EvaluationRecord, 'profileId' | 'type' | 'createdAt'>): string =>
+  `${record.profileId}|${record.type}|${record.createdAt}`;
+
+// Older or hand-edited exports can miss fields the feedback views rely on. Those are filled
+// in by the same repair as model output, except scores: a made-up score would skew the
+// class averages, so a record with a missing or broken score is not imported.
+const repairImportedFeedback = (record: EvaluationRecord): EvaluationRecord['feedback'] | null => {
+  const schema = record.type === 'writing' ? writingResponseSchema : speakingResponseSchema;
+  const { value, issues } = validateAgainstSchema<EvaluationRecord['feedback']>(schema, record.feedback);
+  return issues.some(issue => isBlockingIssue(issue) && issue.path.startsWith('scores')) ? null : value;
+};
+
+// Merges data exported from another device. Students are matched by id, then by name and
+// class; evaluations are matched by student, type and timestamp so re-importing the same
+// file never creates duplicates.
+export const importClassData = async (
+  profiles: LearnerProfile[],
+  evaluations: EvaluationRecord[]
+): Promise<ImportSummary> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROFILES_STORE, EVALUATIONS_STORE], 'readwrite');
+  const profileStore = transaction.objectStore(PROFILES_STORE);
+  const evaluationStore = transaction.objectStore(EVALUATIONS_STORE);
+
+  const existingProfiles = await requestToPromise<LearnerProfile[]>(profileStore.getAll());
+  const existingEvaluations = await requestToPromise<EvaluationRecord[]>(evaluationStore.getAll());
+
+  const profilesById = new Map(existingProfiles.map(profile => [profile.id, profile]));
+  const profilesByKey = new Map(existingProfiles.map(profile => [profileKey(profile), profile]));
+  const seenEvaluations = new Set(existingEvaluations.map(evaluationKey));
+  const seenIds = new Set(existingEvaluations.map(record => record.id));
+
+  const summary: ImportSummary = { profilesAdded: 0, evaluationsAdded: 0, evaluationsSkipped: 0 };
+  const idMapping = new Map<string, string>();
+
+  for (const profile of profiles) {
+    const match = profilesById.get(profile.id) ?? profilesByKey.get(profileKey(profile));
+    if (match) {
+      idMapping.set(profile.id, match.id);
+      continue;
+    }
+    const imported: LearnerProfile = {
+      id: profile.id,
+      name: profile.name,
+      className: profile.className ?? '',
+      gradeLevel: profile.gradeLevel ?? 1,
+      createdAt: profile.createdAt ?? Date.now(),
+    };
+    profileStore.put(imported);
+    profilesById.set(imported.id, imported);
+    profilesByKey.set(profileKey(imported), imported);
+    idMapping.set(profile.id, imported.id);
+    summary.profilesAdded++;
+  }
+
+  for (const record of evaluations) {
+    const profileId = idMapping.get(record.profileId);
+    const feedback = repairImportedFeedback(record);
+    if (!profileId || !feedback) {
+      summary.evaluationsSkipped++;
+      continue;
+    }
+    const merged: EvaluationRecord = { ...record, profileId, feedback };
+    if (seenEvaluations.has(evaluationKey(merged))) {
+      summary.evaluationsSkipped++;
+      continue;
+    }
+    if (seenIds.has(merged.id)) {
+      merged.id = createId();
+    }
+    evaluationStore.put(merged);
+    seenEvaluations.add(evaluationKey(merged));
+    seenIds.add(merged.id);
+    summary.evaluationsAdded++;
+  }
+
+  await transactionDone(transaction);
+  return summary;
+};
@@ -0,0 +1,117 @@
+// prettier-ignore
+import { LearnerLevelId } from '../types';
+
+// How each learner level changes the coach's prompts: who the student is, how simple the
+// feedback language must be, and what a 10/10 looks like at that level.
+
+export interface LearnerLevel {
+  id: LearnerLevelId;
+  label: string;
+  audience: string;     // Completes "an English teacher for ..."
+  feedbackStyle: string; // Vocabulary and tone of the feedback itself
+  rubric: string;        // What counts as a 10/10 at this level
+}
+
+export const DEFAULT_LEVEL_ID: LearnerLevelId = 'grade-3';
+
+export const LEARNER_LEVELS: LearnerLevel[] = [
+  {
+    id: 'grade-1',
+    label: 'Grade 1',
+    audience: 'Vietnamese Grade 1 students (about 6 years old) who are just starting to learn English',
+    feedbackStyle: 'Use very short sentences and only the most common words (like "good", "big", "say"). Be playful and praise every effort.',
+    rubric: 'A 10/10 is a short, correct sentence of 3-6 words using basic words such as colours, animals, family and numbers.',
+  },
+  {
+    id: 'grade-2',
+    label: 'Grade 2',
+    audience: 'Vietnamese Grade 2 students (about 7 years old)',
+    feedbackStyle: 'Use short sentences and everyday words. Be warm and playful.',
+    rubric: 'A 10/10 is a correct simple sentence using present simple and basic everyday vocabulary.',
+  },
+  {
+    id: 'grade-3',
+    label: 'Grade 3',
+    audience: 'Vietnamese Grade 3 students (about 8 years old)',
+    feedbackStyle: 'Use simple sentences and common words. Be friendly and encouraging.',
+    rubric: 'A 10/10 is one or two correct sentences using present simple or present continuous, with correct capitals and full stops.',
+  },
+  {
+    id: 'grade-4',
+    label: 'Grade 4',
+    audience: 'Vietnamese Grade 4 students (about 9 years old)',
+    feedbackStyle: 'Use simple, clear language. You may name grammar ideas like "past tense" and give a short example.',
+    rubric: 'A 10/10 uses present and past simple correctly, joins ideas with "and", "but" or "because", and uses some describing words.',
+  },
+  {
+    id: 'grade-5',
+    label: 'Grade 5',
+    audience: 'Vietnamese Grade 5 students (about 10 years old) finishing primary school',
+    feedbackStyle: 'Use clear language and name grammar points simply. Be encouraging but honest.',
+    rubric: 'A 10/10 uses a range of tenses correctly, varied sentence openings, linking words and topic vocabulary.',
+  },
+  {
+    id: 'grade-6',
+    label: 'Grade 6',
+    audience: 'Vietnamese Grade 6 students (about 11 years old) starting lower secondary school',
+    feedbackStyle: 'Use clear, respectful language suitable for a young teenager. Name grammar points and explain them briefly. Avoid baby talk.',
+    rubric: 'A 10/10 is accurate writing or speech with compound and some complex sentences, correct tense choice and a good range of vocabulary.',
+  },
+  {
+    id: 'grade-7',
+    label: 'Grade 7',
+    audience: 'Vietnamese Grade 7 students (about 12 years old)',
+    feedbackStyle: 'Use respectful, age-appropriate language for a teenager and precise grammar terms. Keep praise genuine and specific, not childish.',
+    rubric: 'A 10/10 uses complex sentences, comparatives, modal verbs and present perfect accurately, with well-chosen vocabulary.',
+  },
+  {
+    id: 'grade-8',
+    label: 'Grade 8',
+    audience: 'Vietnamese Grade 8 students (about 13 years old)',
+    feedbackStyle: 'Write as you would to a teenage learner: direct, respectful and precise. Use proper grammar terminology. Do not be patronising.',
+    rubric: 'A 10/10 is fluent and accurate, with varied structures (relative clauses, passive voice, conditionals) and natural word choice.',
+  },
+  {
+    id: 'grade-9',
+    label: 'Grade 9',
+    audience: 'Vietnamese Grade 9 students (about 14 years old) preparing for upper secondary school',
+    feedbackStyle: 'Write as you would to a capable teenager: direct, respectful and precise, with proper grammar terminology. Do not be patronising.',
+    rubric: 'A 10/10 is accurate, coherent and natural, with a wide range of structures, linking devices and precise vocabulary.',
+  },
+  {
+    id: 'cefr-pre-a1',
+    label: 'CEFR Pre-A1',
+    audience: 'young Vietnamese learners working towards CEFR Pre-A1 (Cambridge Starters)',
+    feedbackStyle: 'Use very short sentences and only the most common words. Be playful and praise every effort.',
+    rubric: 'A 10/10 meets Pre-A1: familiar words and very basic phrases about themselves, used correctly.',
+  },
+  {
+    id: 'cefr-a1',
+    label: 'CEFR A1',
+    audience: 'Vietnamese learners working towards CEFR A1 (Cambridge Movers)',
+    feedbackStyle: 'Use short sentences and everyday words. Be friendly and encouraging.',
+    rubric: 'A 10/10 meets A1: simple sentences about familiar topics with basic grammar used correctly.',
+  },
+  {
+    id: 'cefr-a2',
+    label: 'CEFR A2',
+    audience: 'Vietnamese learners working towards CEFR A2 (Cambridge Flyers / KET)',
+    feedbackStyle: 'Use clear language and name grammar points simply.',
+    rubric: 'A 10/10 meets A2: connected sentences on everyday topics with past and future forms and linking words used correctly.',
+  },
+  {
+    id: 'cefr-b1',
+    label: 'CEFR B1',
+    audience: 'Vietnamese teenage learners working towards CEFR B1 (Cambridge PET)',
+    feedbackStyle: 'Write as you would to a capable teenager: direct, respectful and precise. Do not be patronising.',
+    rubric: 'A 10/10 meets B1: clear, connected text or speech on familiar topics with a good range of structures and few errors.',
+  },
+];
+
+export const getLearnerLevel = (id: LearnerLevelId | undefined): LearnerLevel =>
+  LEARNER_LEVELS.find(level => level.id === id) ?? LEARNER_LEVELS.find(level => level.id === DEFAULT_LEVEL_ID)!;
+
+export const levelIdForGrade = (grade: number): LearnerLevelId => {
+  const clamped = Math.min(9, Math.max(1, Math.round(grade)));
+  return `grade-${clamped}` as LearnerLevelId;
+};
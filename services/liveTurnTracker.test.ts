@@ -0,0 +1,51 @@
+// prettier-ignore
+import { describe, it, expect } from 'vitest';
+import { createLiveTurnTracker, LiveTurnMessage } from './liveTurnTracker';
+import { LiveTurnEvent } from './evaluationProvider';
+
+// Fake Live API messages: only the server content the tracker reads.
+const student = (text: string): LiveTurnMessage => ({ serverContent: { inputTranscription: { text } } });
+const coach = (text: string): LiveTurnMessage => ({ serverContent: { outputTranscription: { text } } });
+const interrupted = (): LiveTurnMessage => ({ serverContent: { interrupted: true } });
+const turnComplete = (): LiveTurnMessage => ({ serverContent: { turnComplete: true } });
+
+const feed = (messages: LiveTurnMessage[]): LiveTurnEvent[] => {
+  const tracker = createLiveTurnTracker();
+  return messages.flatMap(message => tracker.handleMessage(message));
+};
+
+describe('createLiveTurnTracker', () => {
+  it('emits turnStarted, partial transcripts and turnComplete for a normal turn', () => {
+    const events = feed([student('I like '), student('cats.'), coach('Cats are '), coach('great! '), turnComplete()]);
+    expect(events).toEqual([
+      { type: 'turnStarted' },
+      { type: 'partialTranscript', student: 'I like ', coach: '' },
+      { type: 'partialTranscript', student: 'I like cats.', coach: '' },
+      { type: 'partialTranscript', student: 'I like cats.', coach: 'Cats are ' },
+      { type: 'partialTranscript', student: 'I like cats.', coach: 'Cats are great! ' },
+      { type: 'turnComplete', student: 'I like cats.', coach: 'Cats are great!', interrupted: false },
+    ]);
+  });
+
+  it('finishes an interrupted turn at once and ignores its trailing turnComplete', () => {
+    const events = feed([student('Hello.'), coach('Hi there, how'), interrupted(), student('Wait!'), turnComplete(), coach('Yes?'), turnComplete()]);
+    const ends = events.filter(event => event.type === 'interrupted' || event.type === 'turnComplete');
+    expect(ends).toEqual([
+      { type: 'interrupted', student: 'Hello.', coach: 'Hi there, how' },
+      { type: 'turnComplete', student: 'Hello.', coach: 'Hi there, how', interrupted: true },
+      { type: 'turnComplete', student: 'Wait!', coach: 'Yes?', interrupted: false },
+    ]);
+  });
+
+  it('starts every turn with empty transcripts', () => {
+    const events = feed([student('One.'), coach('First.'), turnComplete(), student('Two.'), coach('Second.'), turnComplete()]);
+    expect(events.filter(event => event.type === 'turnStarted')).toHaveLength(2);
+    expect(events[4]).toEqual({ type: 'turnStarted' });
+    expect(events[5]).toEqual({ type: 'partialTranscript', student: 'Two.', coach: '' });
+    expect(events[events.length - 1]).toEqual({ type: 'turnComplete', student: 'Two.', coach: 'Second.', interrupted: false });
+  });
+
+  it('ignores messages without server content and a turnComplete outside a turn', () => {
+    expect(feed([{}, turnComplete()])).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+// prettier-ignore
+import type { LiveServerMessage } from '@google/genai';
+import { LiveTurnEvent } from './evaluationProvider';
+
+// Turns the raw Live API message stream into conversation turns. A turn is the student's
+// utterance plus the coach's reply; it starts with the first transcript text and ends on
+// the server's turnComplete. This has no audio or network code, so any sequence of
+// LiveServerMessage objects can be fed through it to check the events it produces.
+//
+// Per the Live API, an interrupted generation is followed by its own turnComplete, which
+// can arrive after the student has already started the next turn. The interrupted turn is
+// therefore finished straight away and that trailing turnComplete is ignored.
+
+// Only the server content matters here, so plain objects work as fake messages.
+export type LiveTurnMessage = Pick<LiveServerMessage, 'serverContent'>;
+
+export interface LiveTurnTracker {
+  handleMessage: (message: LiveTurnMessage) => LiveTurnEvent[];
+}
+
+export const createLiveTurnTracker = (): LiveTurnTracker => {
+  let student = '';
+  let coach = '';
+  let inTurn = false;
+  let skipNextTurnComplete = false;
+
+  const finishTurn = (interrupted: boolean): LiveTurnEvent => {
+    const event: LiveTurnEvent = { type: 'turnComplete', student: student.trim(), coach: coach.trim(), interrupted };
+    student = '';
+    coach = '';
+    inTurn = false;
+    return event;
+  };
+
+  const handleMessage = (message: LiveTurnMessage): LiveTurnEvent[] => {
+    const content = message.serverContent;
+    if (!content) return [];
+    const events: LiveTurnEvent[] = [];
+
+    const inputText = content.inputTranscription?.text ?? '';
+    const outputText = content.outputTranscription?.text ?? '';
+    if (inputText || outputText) {
+      if (!inTurn) {
+        inTurn = true;
+        events.push({ type: 'turnStarted' });
+      }
+      student += inputText;
+      coach += outputText;
+      events.push({ type: 'partialTranscript', student, coach });
+    }
+
+    if (content.interrupted) {
+      events.push({ type: 'interrupted', student: student.trim(), coach: coach.trim() });
+      if (inTurn) events.push(finishTurn(true));
+      skipNextTurnComplete = !content.turnComplete;
+    } else if (content.turnComplete) {
+      if (skipNextTurnComplete) {
+        skipNextTurnComplete = false;
+      } else if (inTurn) {
+        events.push(finishTurn(false));
+      }
+    }
+
+    return events;
+  };
+
+  return { handleMessage };
+};
@@ -0,0 +1,466 @@
+// prettier-ignore
+import type { LiveServerContent } from '@google/genai';
+import { WritingFeedback, WritingEdit, SpeakingFeedback, EvaluationType, EssayFeedback, ParagraphComment, WordFinding, RolePlayScenario, VocabularyItem, GrammarErrorTag, Exercise, ExerciseSource } from '../types';
+import { EvaluationProvider, EvaluationOptions, ExerciseOptions, LiveSessionCallbacks, LiveSessionHandle, LiveSessionOptions } from './evaluationProvider';
+import { createLiveTurnTracker } from './liveTurnTracker';
+import { GOAL_REACHED_PHRASE } from './rolePlayScenarios';
+import { getGrammarErrorType } from './grammarTaxonomy';
+import { splitEssay } from '../utils/sentenceSplit';
+import { BLANK, sourceTags, tokensOf } from '../utils/exercises';
+import { parsePartialJson } from '../utils/partialJson';
+import { toPartialWritingFeedback } from '../utils/partialFeedback';
+
+// A deterministic, offline stand-in for the Gemini provider. The same input always
+// produces the same feedback, which makes it suitable for classroom demos,
+// UI development and tests that must not touch the network.
+
+const MOCK_LATENCY_MS = 600;
+
+// Scripted student/coach turns replayed by the simulated live session.
+const MOCK_LIVE_SCRIPT: { student: string; coach: string }[] = [
+  { student: 'Hello, my name is Lan. I am eight years old.', coach: 'Hi Lan! Nice to meet you. What do you like to do after school? 😊' },
+  { student: 'I like play football with my friends.', coach: 'Great! We say "I like playing football". Who is your best friend?' },
+  { student: 'My best friend is Minh. He is very funny.', coach: 'Wonderful sentence! ✨ Keep practising and you will speak even better.' },
+];
+
+// Small, simple rules that mimic the kinds of corrections the real coach makes.
+const MOCK_CORRECTIONS: { pattern: RegExp; replacement: string; category: string; tag: GrammarErrorTag; tip: string; tipVi: string }[] = [
+  {
+    pattern: /\bI go\b/g, replacement: 'I went', category: 'grammar', tag: 'pastTense',
+    tip: 'Use the past tense "went" when you talk about yesterday.',
+    tipVi: 'Dùng thì quá khứ "went" khi kể về ngày hôm qua.',
+  },
+  {
+    pattern: /\bplay with\b/g, replacement: 'played with', category: 'grammar', tag: 'pastTense',
+    tip: 'Add "-ed" to regular verbs for the past tense, like "played".',
+    tipVi: 'Thêm "-ed" vào động từ có quy tắc ở thì quá khứ, ví dụ "played".',
+  },
+  {
+    pattern: /\bi\b/g, replacement: 'I', category: 'capitalisation', tag: 'capitalisation',
+    tip: 'Always write "I" as a capital letter.',
+    tipVi: 'Luôn viết hoa chữ "I".',
+  },
+  {
+    pattern: /\blike play\b/g, replacement: 'like playing', category: 'grammar', tag: 'verbForms',
+    tip: 'After "like", use the "-ing" form: "like playing".',
+    tipVi: 'Sau "like", dùng dạng "-ing": "like playing".',
+  },
+  {
+    pattern: /\bhe have\b/gi, replacement: 'he has', category: 'grammar', tag: 'subjectVerbAgreement',
+    tip: 'With "he", "she" and "it", use "has" instead of "have".',
+    tipVi: 'Với "he", "she" và "it", dùng "has" thay cho "have".',
+  },
+];
+
+// Plain words with a livelier choice, and topic words suggested as new vocabulary.
+const MOCK_BETTER_WORDS: Record<string, Omit<VocabularyItem, 'kind' | 'studentWord'>> = {
+  good: { word: 'wonderful', meaningVi: 'tuyệt vời', example: 'We had a wonderful day at the beach.' },
+  big: { word: 'huge', meaningVi: 'khổng lồ, rất to', example: 'An elephant is a huge animal.' },
+  happy: { word: 'delighted', meaningVi: 'rất vui mừng', example: 'I was delighted to see my grandma.' },
+  nice: { word: 'friendly', meaningVi: 'thân thiện', example: 'My new teacher is very friendly.' },
+};
+const MOCK_TOPIC_WORDS: Record<string, Omit<VocabularyItem, 'kind' | 'studentWord'>> = {
+  dog: { word: 'puppy', meaningVi: 'chó con', example: 'The puppy is playing with a ball.' },
+  football: { word: 'goal', meaningVi: 'bàn thắng', example: 'Minh scored a goal in the football match.' },
+  school: { word: 'timetable', meaningVi: 'thời khoá biểu', example: 'We have English on Monday on our timetable.' },
+  family: { word: 'cousin', meaningVi: 'anh chị em họ', example: 'My cousin lives in Da Nang.' },
+};
+const MOCK_DEFAULT_WORD: Omit<VocabularyItem, 'kind' | 'studentWord'> =
+  { word: 'favourite', meaningVi: 'yêu thích nhất', example: 'Blue is my favourite colour.' };
+
+const buildVocabularyItems = (text: string): VocabularyItem[] => {
+  const words = new Set(text.toLowerCase().match(/[a-z']+/g) ?? []);
+  const items: VocabularyItem[] = [];
+  for (const [plain, better] of Object.entries(MOCK_BETTER_WORDS)) {
+    if (words.has(plain)) items.push({ ...better, kind: 'betterChoice', studentWord: plain });
+  }
+  for (const [topic, related] of Object.entries(MOCK_TOPIC_WORDS)) {
+    if (words.has(topic)) items.push({ ...related, kind: 'newWord', studentWord: '' });
+  }
+  if (items.length === 0) items.push({ ...MOCK_DEFAULT_WORD, kind: 'newWord', studentWord: '' });
+  return items.slice(0, 4);
+};
+
+const LINKING_WORDS = ['and', 'but', 'because', 'so', 'then', 'first', 'next', 'finally', 'also', 'however'];
+
+const CAPITAL_LETTER_TIP_VI = 'Viết hoa chữ cái đầu tiên của mỗi câu.';
+const FULL_STOP_TIP_VI = 'Kết thúc câu bằng dấu chấm.';
+
+// Rejects with the signal's AbortError as soon as it is aborted.
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const MOCK_STREAM_CHUNKS = 12;
+
+// Sends the finished feedback as JSON in pieces through the same partial parser the Gemini
+// provider uses, so the section-by-section display can be seen offline.
+const streamWritingFeedback = async (
+  feedback: WritingFeedback,
+  onPartial: (partial: WritingFeedback) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const json = JSON.stringify(feedback);
+  const chunkSize = Math.ceil(json.length / MOCK_STREAM_CHUNKS);
+  for (let end = chunkSize; end < json.length; end += chunkSize) {
+    await delay(MOCK_LATENCY_MS / 4, signal);
+    const partial = parsePartialJson(json.slice(0, end));
+    if (partial !== undefined) onPartial(toPartialWritingFeedback(partial));
+  }
+};
+
+// A stable number in [0, 1) derived from the text, used to vary scores a little.
+const hashText = (text: string): number => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+  }
+  return (hash % 1000) / 1000;
+};
+
+const clampScore = (value: number): number => Math.max(0, Math.min(10, Math.round(value * 10) / 10));
+
+const correctText = (inputText: string): { corrected: string; edits: WritingEdit[]; tipsVi: string[] } => {
+  let corrected = inputText.trim();
+  const edits: WritingEdit[] = [];
+  const tipsVi: string[] = [];
+
+  for (const { pattern, replacement, category, tag, tip, tipVi } of MOCK_CORRECTIONS) {
+    const match = corrected.match(pattern);
+    if (match) {
+      corrected = corrected.replace(pattern, replacement);
+      edits.push({ original: match[0], replacement, category, reason: tip, tag });
+      tipsVi.push(tipVi);
+    }
+  }
+
+  if (corrected && corrected[0] !== corrected[0].toUpperCase()) {
+    const firstWord = corrected.split(/\s/)[0];
+    corrected = corrected[0].toUpperCase() + corrected.slice(1);
+    edits.push({
+      original: firstWord,
+      replacement: firstWord[0].toUpperCase() + firstWord.slice(1),
+      category: 'capitalisation',
+      reason: 'Start every sentence with a capital letter.',
+      tag: 'capitalisation',
+    });
+    tipsVi.push(CAPITAL_LETTER_TIP_VI);
+  }
+  if (corrected && !/[.!?]$/.test(corrected)) {
+    corrected += '.';
+    edits.push({ original: '', replacement: '.', category: 'punctuation', reason: 'End your sentence with a full stop.', tag: 'punctuation' });
+    tipsVi.push(FULL_STOP_TIP_VI);
+  }
+
+  return { corrected, edits, tipsVi };
+};
+
+const buildWritingFeedback = (inputText: string, bilingual: boolean): WritingFeedback => {
+  const { corrected, edits, tipsVi } = correctText(inputText);
+  const tips = edits.map(edit => edit.reason);
+  const wordCount = inputText.trim().split(/\s+/).filter(Boolean).length;
+  const variation = hashText(inputText);
+
+  const grammar = clampScore(10 - tips.length * 1.5);
+  const vocabulary = clampScore(5 + Math.min(wordCount, 20) / 5 + variation);
+  const sentenceStructure = clampScore(6 + Math.min(wordCount, 15) / 5 - tips.length * 0.5);
+  const overallWritingQuality = clampScore((grammar + vocabulary + sentenceStructure) / 3);
+
+  const feedback: WritingFeedback = {
+    introMessage: tips.length === 0
+      ? 'Excellent work! Your writing is already very clear. 😊'
+      : 'Good try! Let\'s make your writing even better together. ✨',
+    correctedSentence: corrected,
+    explanation: tips.length === 0
+      ? 'I could not find any mistakes. Well done!'
+      : tips.join(' '),
+    edits,
+    scores: { grammar, vocabulary, sentenceStructure, overallWritingQuality },
+    vocabularyItems: buildVocabularyItems(inputText),
+    suggestions: [
+      'Try adding a describing word, like "big" or "happy". 📘',
+      'Read your sentence out loud to check that it sounds right.',
+    ],
+  };
+
+  if (bilingual) {
+    feedback.introMessageVi = tips.length === 0
+      ? 'Làm tốt lắm! Bài viết của em đã rất rõ ràng. 😊'
+      : 'Em đã cố gắng rất tốt! Cùng làm cho bài viết hay hơn nhé. ✨';
+    feedback.explanationVi = tipsVi.length === 0
+      ? 'Cô không tìm thấy lỗi nào. Giỏi lắm!'
+      : tipsVi.join(' ');
+    feedback.suggestionsVi = [
+      'Hãy thử thêm một từ miêu tả, như "big" hoặc "happy". 📘',
+      'Đọc to câu của em để kiểm tra xem nghe có đúng không.',
+    ];
+  }
+  return feedback;
+};
+
+// Corrects each sentence on its own and comments on paragraphs by counting linking words.
+const buildEssayFeedback = (inputText: string): { essay: EssayFeedback; corrected: string } => {
+  const sentences = splitEssay(inputText).map(sentence => {
+    const { corrected, edits } = correctText(sentence.text);
+    return {
+      id: sentence.id,
+      paragraph: sentence.paragraph,
+      original: sentence.text,
+      corrected,
+      explanation: edits.map(edit => edit.reason).join(' '),
+    };
+  });
+
+  const paragraphCount = sentences.length ? sentences[sentences.length - 1].paragraph : 0;
+  const paragraphComments: ParagraphComment[] = [];
+  for (let paragraph = 1; paragraph <= paragraphCount; paragraph++) {
+    const inParagraph = sentences.filter(sentence => sentence.paragraph === paragraph);
+    const words = inParagraph.map(sentence => sentence.original.toLowerCase()).join(' ').split(/\W+/);
+    const linking = LINKING_WORDS.filter(word => words.includes(word));
+    paragraphComments.push({
+      paragraph,
+      organisation: inParagraph.length < 2
+        ? 'This paragraph has only one sentence. Try adding a detail or an example.'
+        : 'This paragraph has a clear main idea with supporting sentences.',
+      coherence: 'The sentences follow on from each other nicely.',
+      linkingWords: linking.length
+        ? `Good use of linking words: ${linking.join(', ')}.`
+        : 'Try joining your ideas with linking words like "and", "because" or "then".',
+    });
+  }
+
+  const corrected = Array.from({ length: paragraphCount }, (_, i) =>
+    sentences.filter(sentence => sentence.paragraph === i + 1).map(sentence => sentence.corrected).join(' ')
+  ).join('\n\n');
+
+  return {
+    essay: {
+      sentences,
+      paragraphComments,
+      summary: `You wrote ${sentences.length} sentences in ${paragraphCount} paragraph${paragraphCount === 1 ? '' : 's'}. ` +
+        'Your ideas are easy to follow. Check the highlighted sentences to make your text even better! ✨',
+    },
+    corrected,
+  };
+};
+
+const buildSpeakingFeedback = (transcript: string, bilingual: boolean): SpeakingFeedback => {
+  const wordCount = transcript.trim().split(/\s+/).filter(Boolean).length;
+  const variation = hashText(transcript);
+
+  const pronunciation = clampScore(7 + variation * 2);
+  const fluency = clampScore(5 + Math.min(wordCount, 20) / 5);
+  const confidence = clampScore(6 + Math.min(wordCount, 12) / 4);
+  const overallSpeakingQuality = clampScore((pronunciation + fluency + confidence) / 3);
+
+  const feedback: SpeakingFeedback = {
+    introMessage: 'Great speaking! I enjoyed listening to you. 😊',
+    feedback: wordCount < 5
+      ? 'You spoke clearly. Next time, try to say a longer sentence with more details.'
+      : 'You spoke in full sentences and your ideas were easy to follow. ✨',
+    scores: { pronunciation, fluency, confidence, overallSpeakingQuality },
+    pronunciationTips: [
+      'Say the "th" sound by putting your tongue between your teeth.',
+      'Remember to say the ending sounds, like the "s" in "friends".',
+    ],
+    vocabularyItems: buildVocabularyItems(transcript),
+  };
+
+  if (bilingual) {
+    feedback.introMessageVi = 'Em nói rất tốt! Cô rất thích nghe em nói. 😊';
+    feedback.feedbackVi = wordCount < 5
+      ? 'Em nói rõ ràng. Lần sau, hãy thử nói câu dài hơn với nhiều chi tiết hơn nhé.'
+      : 'Em nói thành câu hoàn chỉnh và ý của em rất dễ hiểu. ✨';
+    feedback.pronunciationTipsVi = [
+      'Để phát âm "th", hãy đặt lưỡi giữa hai hàm răng.',
+      'Nhớ phát âm âm cuối, ví dụ âm "s" trong "friends".',
+    ];
+  }
+  return feedback;
+};
+
+// Sounds Vietnamese learners often find hard, used to make up word-level findings.
+const MOCK_WORD_PATTERNS: { pattern: RegExp; phonemes: (word: string) => string; problem: string; severity: WordFinding['severity'] }[] = [
+  { pattern: /^th/, phonemes: word => (/^th(e|is|at|ey|ere|em)$/.test(word) ? '/ð/' : '/θ/'), problem: 'The "th" sounded like "t" or "d".', severity: 'moderate' },
+  { pattern: /[^s]s$/, phonemes: () => '/s/ or /z/ at the end', problem: 'The ending "s" was dropped.', severity: 'minor' },
+  { pattern: /^v/, phonemes: () => '/v/', problem: 'The "v" sounded like a "b".', severity: 'minor' },
+];
+
+const buildWordFindings = (transcript: string): WordFinding[] => {
+  const words = [...new Set(transcript.toLowerCase().match(/[a-z']+/g) ?? [])];
+  const findings: WordFinding[] = [];
+  for (const word of words) {
+    const rule = MOCK_WORD_PATTERNS.find(({ pattern }) => pattern.test(word));
+    if (rule && findings.length < 3) {
+      findings.push({ word, expectedPhonemes: rule.phonemes(word), problem: rule.problem, severity: rule.severity });
+    }
+  }
+  return findings;
+};
+
+const getEvaluation = async (
+  type: EvaluationType,
+  inputText: string,
+  options: EvaluationOptions = {}
+): Promise<WritingFeedback | SpeakingFeedback> => {
+  await delay(MOCK_LATENCY_MS, options.signal);
+  const bilingual = options.bilingual ?? false;
+  if (type === 'writing') {
+    let feedback = buildWritingFeedback(inputText, bilingual);
+    if (options.essay) {
+      const { essay, corrected } = buildEssayFeedback(inputText);
+      feedback = { ...feedback, correctedSentence: corrected, essay };
+    }
+    if (options.onPartial) await streamWritingFeedback(feedback, options.onPartial, options.signal);
+    return feedback;
+  }
+  if (options.audio) {
+    return { ...buildSpeakingFeedback(inputText, bilingual), wordFindings: buildWordFindings(inputText) };
+  }
+  return buildSpeakingFeedback(inputText, bilingual);
+};
+
+// Each error type gets a question built from its example in the taxonomy, and the student's
+// own corrected writing is turned into reordering and gap-fill exercises.
+const buildMockExercises = (sources: ExerciseSource[], count: number): Exercise[] => {
+  const exercises: Exercise[] = [];
+  sourceTags(sources).forEach((tag, index) => {
+    const { label, example } = getGrammarErrorType(tag);
+    const rightTokens = tokensOf(example.right);
+    const wrongWord = tokensOf(example.wrong).find(token => !rightTokens.includes(token));
+    if (index % 2 === 1 && wrongWord) {
+      exercises.push({
+        kind: 'errorSpotting', tag, instruction: 'Tap the word with the mistake.', sentence: example.wrong, options: [],
+        answer: wrongWord, explanation: `It should be: "${example.right}"`,
+      });
+    } else {
+      exercises.push({
+        kind: 'multipleChoice', tag, instruction: `${label}: which sentence is correct?`, sentence: '',
+        options: hashText(example.right) < 0.5 ? [example.right, example.wrong] : [example.wrong, example.right],
+        answer: example.right, explanation: `"${example.right}" is correct.`,
+      });
+    }
+  });
+
+  sources.forEach(source => {
+    const sentence = splitEssay(source.correctedSentence)[0]?.text ?? '';
+    const words = tokensOf(sentence);
+    const tag = source.errorTags[0];
+    if (words.length >= 3 && words.length <= 12) {
+      exercises.push({
+        kind: 'reorder', tag, instruction: 'Put the words in the right order.', sentence: '',
+        options: [...words].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase())),
+        answer: sentence, explanation: `The sentence is: "${sentence}"`,
+      });
+    }
+    const longest = words.map(word => word.replace(/[^\p{L}']/gu, '')).sort((a, b) => b.length - a.length)[0];
+    if (longest && longest.length > 3) {
+      exercises.push({
+        kind: 'gapFill', tag, instruction: 'Write the missing word.', sentence: sentence.replace(longest, BLANK), options: [],
+        answer: longest, explanation: source.explanation,
+      });
+    }
+  });
+  return exercises.slice(0, count);
+};
+
+const generateExercises = async (sources: ExerciseSource[], options: ExerciseOptions = {}): Promise<Exercise[]> => {
+  await delay(MOCK_LATENCY_MS);
+  return buildMockExercises(sources, options.count ?? 6);
+};
+
+// A reading of the passage with typical slips: a skipped word, a filler and a dropped "s".
+const buildMockReading = (passage: string): string => {
+  const words = passage.replace(/[^\p{L}\p{N}\s']/gu, '').split(/\s+/).filter(Boolean);
+  const read = words.filter((_, index) => index !== 3);
+  if (read.length > 6) read.splice(5, 0, 'um');
+  const plural = read.findIndex((word, index) => index > 7 && /[^s]s$/.test(word));
+  if (plural >= 0) read[plural] = read[plural].slice(0, -1);
+  return read.join(' ');
+};
+
+// A short role-play that uses some of the target phrases and reaches the goal.
+const buildMockRolePlay = (scenario: RolePlayScenario): { student: string; coach: string }[] => {
+  const phrases = scenario.targetPhrases.slice(0, 3);
+  return phrases.map((phrase, index) => ({
+    student: `Hello, um, ${phrase} ... yes.`,
+    coach: index === phrases.length - 1
+      ? `Well done, you did it! ${GOAL_REACHED_PHRASE} 🎉`
+      : `Good! I am ${scenario.coachRole}. What else would you like to say?`,
+  }));
+};
+
+// Replays MOCK_LIVE_SCRIPT as fake Live API messages through the same turn tracker the
+// Gemini live session uses, typing out each transcript word by word so the UI states can be observed.
+const startLiveSpeakingSession = async (
+  callbacks: LiveSessionCallbacks,
+  options: LiveSessionOptions = {}
+): Promise<LiveSessionHandle> => {
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  const turnTracker = createLiveTurnTracker();
+  let closed = false;
+  let elapsed = 0;
+
+  const schedule = (stepMs: number, fn: () => void) => {
+    elapsed += stepMs;
+    timers.push(setTimeout(() => {
+      if (!closed) fn();
+    }, elapsed));
+  };
+
+  const send = (stepMs: number, serverContent: LiveServerContent) => {
+    schedule(stepMs, () => turnTracker.handleMessage({ serverContent }).forEach(callbacks.onTurnEvent));
+  };
+
+  const script = options.readAloudPassage
+    ? [{ student: buildMockReading(options.readAloudPassage), coach: 'Well done! You read the whole passage. 😊' }]
+    : options.scenario
+    ? buildMockRolePlay(options.scenario)
+    : MOCK_LIVE_SCRIPT;
+
+  script.forEach(({ student, coach }) => {
+    // Like the real transcription stream, each fragment carries its own leading space.
+    student.split(' ').forEach((word, i) => {
+      send(250, { inputTranscription: { text: i === 0 ? word : ` ${word}` } });
+    });
+    schedule(400, () => callbacks.onAIStartSpeaking());
+    coach.split(' ').forEach((word, i) => {
+      send(200, { outputTranscription: { text: i === 0 ? word : ` ${word}` } });
+    });
+    schedule(300, () => callbacks.onAIStopSpeaking());
+    send(100, { turnComplete: true });
+    elapsed += 1500; // Pause before the next scripted turn
+  });
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    timers.forEach(clearTimeout);
+    console.log('Mock live session closed.');
+    callbacks.onClose();
+  };
+
+  return { close };
+};
+
+export const mockProvider: EvaluationProvider = {
+  name: 'mock',
+  promptVersion: '1',
+  getEvaluation,
+  generateExercises,
+  startLiveSpeakingSession,
+  // Offline there is no speech model; callers fall back to the browser's own voice.
+  synthesizeSpeech: async () => null,
+};
@@ -0,0 +1,52 @@
+// prettier-ignore
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ApiError } from './apiErrors';
+
+const { synthesizeSpeech, playPcmAudio, speakWithBrowser } = vi.hoisted(() => ({
+  synthesizeSpeech: vi.fn(),
+  playPcmAudio: vi.fn(async () => undefined),
+  speakWithBrowser: vi.fn(async () => undefined),
+}));
+
+vi.mock('./evaluationService', () => ({ synthesizeSpeech }));
+vi.mock('./audioPlayback', () => ({ playPcmAudio, speakWithBrowser }));
+
+const { speakText } = await import('./pronunciation');
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+// Each test uses its own word, since words are remembered between calls.
+describe('speakText', () => {
+  it('plays the provider audio when there is some', async () => {
+    const audio = { pcm: new Int16Array(4), sampleRate: 24000 };
+    synthesizeSpeech.mockResolvedValueOnce(audio);
+
+    await speakText('apple');
+
+    expect(playPcmAudio).toHaveBeenCalledWith(audio);
+    expect(speakWithBrowser).not.toHaveBeenCalled();
+  });
+
+  it('uses the browser voice when the provider returns no audio', async () => {
+    synthesizeSpeech.mockResolvedValueOnce(null);
+
+    await speakText('banana');
+
+    expect(speakWithBrowser).toHaveBeenCalledWith('banana');
+    expect(playPcmAudio).not.toHaveBeenCalled();
+  });
+
+  it('uses the browser voice when the provider fails, and tries the provider again next time', async () => {
+    synthesizeSpeech.mockRejectedValueOnce(new ApiError('rateLimited', 'Failed to read the word aloud: 429'));
+
+    await expect(speakText('cherry')).resolves.toBeUndefined();
+    expect(speakWithBrowser).toHaveBeenCalledWith('cherry');
+
+    synthesizeSpeech.mockResolvedValueOnce(null);
+    await speakText('cherry');
+    expect(synthesizeSpeech).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,32 @@
+// prettier-ignore
+import { synthesizeSpeech } from './evaluationService';
+import { playPcmAudio, speakWithBrowser } from './audioPlayback';
+import { PcmAudio } from '../utils/wav';
+
+// Reads words from the word bank aloud with the provider's voice, played through the same
+// PCM output path as the live coach. Each word is only synthesised once per visit, and the
+// browser's own voice takes over when the provider has no audio or fails.
+
+const MAX_CACHED_WORDS = 50;
+const spokenWords = new Map<string, Promise<PcmAudio | null>>();
+
+export const speakText = async (text: string): Promise<void> => {
+  const key = text.trim().toLowerCase();
+  let audio = spokenWords.get(key);
+  if (!audio) {
+    audio = synthesizeSpeech(text.trim());
+    spokenWords.set(key, audio);
+    audio.catch(() => spokenWords.delete(key)); // Let a failed word be tried again
+    if (spokenWords.size > MAX_CACHED_WORDS) {
+      spokenWords.delete(spokenWords.keys().next().value as string);
+    }
+  }
+  let pcm: PcmAudio | null = null;
+  try {
+    pcm = await audio;
+  } catch (error) {
+    // Rate limiting or a dropped connection should not leave the word unspoken.
+    console.warn('Could not synthesise speech, using the browser voice instead:', error);
+  }
+  await (pcm ? playPcmAudio(pcm) : speakWithBrowser(text));
+};
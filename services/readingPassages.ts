@@ -0,0 +1,43 @@
+// prettier-ignore
+import { ReadingPassage, LearnerLevelId } from '../types';
+
+// Built-in passages for read-aloud practice, roughly graded to the learner levels.
+
+export const READING_PASSAGES: ReadingPassage[] = [
+  {
+    id: 'the-red-ball',
+    title: 'The red ball',
+    level: 'grade-1',
+    text: 'I have a red ball. I play with my ball in the park. My dog likes the ball too.',
+  },
+  {
+    id: 'at-the-market',
+    title: 'At the market',
+    level: 'grade-2',
+    text: 'On Sunday, Mum and I go to the market. We buy mangoes, rice and fish. The market is busy and noisy, but I like it.',
+  },
+  {
+    id: 'rainy-season',
+    title: 'The rainy season',
+    level: 'grade-3',
+    text: 'In the rainy season, it rains almost every afternoon. The streets fill with water and people wear colourful raincoats on their motorbikes. After the rain, the air feels cool and fresh.',
+  },
+  {
+    id: 'ha-long-bay',
+    title: 'A trip to Ha Long Bay',
+    level: 'grade-5',
+    text: 'Last summer, my family visited Ha Long Bay. We stayed on a boat for two days and sailed between thousands of limestone islands. We explored a huge cave, swam in the clear green water and watched the sun set behind the mountains. It was the most beautiful place I have ever seen.',
+  },
+  {
+    id: 'plastic-ocean',
+    title: 'Plastic in the ocean',
+    level: 'grade-8',
+    text: 'Every year, millions of tonnes of plastic end up in the ocean. Sea turtles mistake plastic bags for jellyfish, and seabirds feed small pieces of plastic to their chicks. Scientists believe that, without urgent action, there could be more plastic than fish in the sea by 2050. Reducing the plastic we use every day is one of the simplest ways to help.',
+  },
+];
+
+// Every passage, with the ones written for the learner's level first.
+export const listReadingPassages = (level: LearnerLevelId): ReadingPassage[] => [
+  ...READING_PASSAGES.filter(passage => passage.level === level),
+  ...READING_PASSAGES.filter(passage => passage.level !== level),
+];
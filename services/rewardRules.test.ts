@@ -0,0 +1,37 @@
+// prettier-ignore
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { loadRewardRules, DEFAULT_REWARD_RULES } from './rewardRules';
+
+const KEY = 'vinschool-english-coach.rewardRules';
+const storage = new Map<string, string>();
+
+beforeEach(() => {
+  storage.clear();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('loadRewardRules', () => {
+  it('uses the defaults when nothing is stored or the value is not JSON', () => {
+    expect(loadRewardRules()).toBe(DEFAULT_REWARD_RULES);
+    storage.set(KEY, '{"xp": ');
+    expect(loadRewardRules()).toBe(DEFAULT_REWARD_RULES);
+  });
+
+  it('keeps valid stored values and fills missing or broken ones with defaults', () => {
+    storage.set(KEY, JSON.stringify({ xp: { perFeedback: 20, perLevel: 'lots' }, badges: 'none' }));
+    const rules = loadRewardRules();
+    expect(rules.xp).toEqual({ ...DEFAULT_REWARD_RULES.xp, perFeedback: 20 });
+    expect(rules.badges).toEqual(DEFAULT_REWARD_RULES.badges);
+  });
+
+  it('drops stored badges that are not valid', () => {
+    storage.set(KEY, JSON.stringify({ badges: [{ title: 'Star', metric: 'xp', threshold: 100 }, { title: 'Broken' }] }));
+    expect(loadRewardRules().badges.map(badge => badge.title)).toEqual(['Star']);
+  });
+});
@@ -0,0 +1,134 @@
+// prettier-ignore
+import { RewardRules, BadgeRule, BadgeMetric } from '../types';
+
+// The XP and badge rules. The built-in rules apply until a teacher imports their own from
+// JSON; those are kept in localStorage so they survive reloads on this device.
+
+const CUSTOM_RULES_KEY = 'vinschool-english-coach.rewardRules';
+
+export const DEFAULT_REWARD_RULES: RewardRules = {
+  xp: {
+    perFeedback: 10,
+    perOverallPoint: 2,
+    perImprovementPoint: 5,
+    maxImprovementBonus: 15,
+    averageOf: 5,
+    perConversationMinute: 5,
+    perLevel: 200,
+  },
+  badges: [
+    { id: 'first-steps', title: 'First Steps', emoji: '👣', description: 'Get your first feedback.', metric: 'evaluations', threshold: 1 },
+    { id: 'busy-bee', title: 'Busy Bee', emoji: '🐝', description: 'Get feedback 25 times.', metric: 'evaluations', threshold: 25 },
+    { id: 'grammar-star', title: 'Grammar Star', emoji: '🌟', description: 'Write 10 sentences with perfect grammar.', metric: 'perfectGrammar', threshold: 10 },
+    { id: 'chatterbox', title: 'Chatterbox', emoji: '🗣️', description: 'Have your first 5-minute conversation.', metric: 'conversationMinutes', threshold: 5 },
+    { id: 'on-fire', title: 'On Fire', emoji: '🔥', description: 'Practise 3 days in a row.', metric: 'streakDays', threshold: 3 },
+    { id: 'week-warrior', title: 'Week Warrior', emoji: '🏆', description: 'Practise 7 days in a row.', metric: 'streakDays', threshold: 7 },
+    { id: 'xp-500', title: 'Rising Star', emoji: '🚀', description: 'Earn 500 XP.', metric: 'xp', threshold: 500 },
+  ],
+};
+
+const BADGE_METRICS: BadgeMetric[] = ['perfectGrammar', 'evaluations', 'streakDays', 'conversationMinutes', 'xp'];
+
+// Checks one badge from a teacher's JSON file. Returns the badge, or a reason it was rejected.
+const parseBadge = (value: unknown, index: number): BadgeRule | string => {
+  if (typeof value !== 'object' || value === null) return `Badge ${index + 1} is not an object.`;
+  const badge = value as Record<string, unknown>;
+  const label = typeof badge.title === 'string' ? `"${badge.title}"` : `Badge ${index + 1}`;
+
+  if (typeof badge.title !== 'string' || !badge.title.trim()) return `${label} needs a "title".`;
+  if (typeof badge.metric !== 'string' || !BADGE_METRICS.includes(badge.metric as BadgeMetric)) {
+    return `${label} has an unknown "metric" (use one of: ${BADGE_METRICS.join(', ')}).`;
+  }
+  if (typeof badge.threshold !== 'number' || badge.threshold <= 0) return `${label} needs a "threshold" above 0.`;
+
+  return {
+    id: typeof badge.id === 'string' && badge.id.trim() ? badge.id : `teacher-${badge.title.toLowerCase().replace(/\W+/g, '-')}`,
+    title: badge.title.trim(),
+    emoji: typeof badge.emoji === 'string' && badge.emoji ? badge.emoji : '🏅',
+    description: typeof badge.description === 'string' ? badge.description : '',
+    metric: badge.metric as BadgeMetric,
+    threshold: badge.threshold,
+  };
+};
+
+// Missing or invalid XP values keep their defaults; when "badges" is a list it replaces the
+// whole list, skipping invalid badges. Every problem is reported in `errors`.
+const parseRewardRules = (data: Record<string, unknown>): { rules: RewardRules; errors: string[] } => {
+  const { xp, badges } = data;
+  const errors: string[] = [];
+  const rules: RewardRules = { xp: { ...DEFAULT_REWARD_RULES.xp }, badges: DEFAULT_REWARD_RULES.badges };
+  if (typeof xp === 'object' && xp !== null) {
+    for (const [key, value] of Object.entries(xp)) {
+      if (!(key in rules.xp)) {
+        errors.push(`Unknown XP setting "${key}".`);
+      } else if (typeof value !== 'number' || value < 0) {
+        errors.push(`XP setting "${key}" must be a number of 0 or more.`);
+      } else {
+        rules.xp[key as keyof RewardRules['xp']] = value;
+      }
+    }
+  }
+  rules.xp.perLevel = Math.max(1, rules.xp.perLevel);
+  rules.xp.averageOf = Math.max(1, Math.round(rules.xp.averageOf));
+
+  if (Array.isArray(badges)) {
+    rules.badges = [];
+    badges.forEach((entry, index) => {
+      const result = parseBadge(entry, index);
+      if (typeof result === 'string') {
+        errors.push(result);
+      } else {
+        rules.badges.push(result);
+      }
+    });
+  }
+
+  return { rules, errors };
+};
+
+// Stored rules are checked like an imported file, so a corrupted value cannot produce NaN XP.
+export const loadRewardRules = (): RewardRules => {
+  try {
+    const stored = localStorage.getItem(CUSTOM_RULES_KEY);
+    if (!stored) return DEFAULT_REWARD_RULES;
+    const data: unknown = JSON.parse(stored);
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) return DEFAULT_REWARD_RULES;
+    const { rules, errors } = parseRewardRules(data as Record<string, unknown>);
+    if (errors.length > 0) console.warn('Repaired stored reward rules:', errors.join(' '));
+    return rules;
+  } catch (error) {
+    console.error('Failed to read reward rules:', error);
+    return DEFAULT_REWARD_RULES;
+  }
+};
+
+export interface RulesImportResult {
+  badges: number;
+  errors: string[];
+}
+
+// Accepts { "xp": {...}, "badges": [...] }. Missing XP values keep their defaults; when
+// "badges" is given it replaces the whole list. Invalid badges are skipped and reported.
+export const importRewardRulesFromJson = (json: string): RulesImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('The file should contain an object with "xp" and/or "badges".');
+  }
+  const { badges } = data as { badges?: unknown };
+  if (badges !== undefined && !Array.isArray(badges)) {
+    throw new Error('"badges" should be a list.');
+  }
+
+  const { rules, errors } = parseRewardRules(data as Record<string, unknown>);
+  localStorage.setItem(CUSTOM_RULES_KEY, JSON.stringify(rules));
+  return { badges: rules.badges.length, errors };
+};
+
+export const resetRewardRules = (): void => {
+  localStorage.removeItem(CUSTOM_RULES_KEY);
+};
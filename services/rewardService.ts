@@ -0,0 +1,33 @@
+// prettier-ignore
+import { RewardState, RewardEvent, EvaluationType, WritingFeedback, SpeakingFeedback, SessionReport } from '../types';
+import { getRewardState, saveRewardState } from './historyStore';
+import { loadRewardRules } from './rewardRules';
+import { emptyRewardState, rewardFeedback, rewardConversation } from '../utils/rewards';
+
+// Loads a student's rewards, applies the current rules and saves the result.
+
+export const loadRewards = async (profileId: string): Promise<RewardState> =>
+  (await getRewardState(profileId)) ?? emptyRewardState(profileId);
+
+// Speaking turns are evaluated while the conversation goes on, so awards can overlap;
+// they are applied one after another so none overwrites another's XP.
+let queue: Promise<unknown> = Promise.resolve();
+
+const award = (
+  profileId: string,
+  apply: (state: RewardState) => { state: RewardState; reward: RewardEvent }
+): Promise<{ state: RewardState; reward: RewardEvent }> => {
+  const result = queue.then(async () => {
+    const { state, reward } = apply(await loadRewards(profileId));
+    await saveRewardState(state);
+    return { state, reward };
+  });
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+export const awardFeedback = (profileId: string, type: EvaluationType, feedback: WritingFeedback | SpeakingFeedback) =>
+  award(profileId, state => rewardFeedback(state, type, feedback, loadRewardRules()));
+
+export const awardConversation = (profileId: string, report: SessionReport) =>
+  award(profileId, state => rewardConversation(state, report, loadRewardRules()));
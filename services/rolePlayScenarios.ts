@@ -0,0 +1,62 @@
+// prettier-ignore
+import { RolePlayScenario } from '../types';
+
+// The role-play catalogue for the live Speaking Coach.
+
+// The coach says this exactly when the student reaches the goal, so the session report
+// can tell from the transcript whether the goal was reached.
+export const GOAL_REACHED_PHRASE = 'Mission complete!';
+
+export const ROLE_PLAY_SCENARIOS: RolePlayScenario[] = [
+  {
+    id: 'school-canteen',
+    title: 'Ordering food at the canteen',
+    emoji: '🍜',
+    level: 'grade-2',
+    coachRole: 'a friendly worker at the school canteen',
+    setting: 'the school canteen at lunchtime',
+    goal: 'Order a main dish and a drink, and ask how much it costs.',
+    targetPhrases: ['can I have', 'please', 'how much', 'thank you'],
+    turnLimit: 6,
+    voice: 'Puck',
+  },
+  {
+    id: 'my-family',
+    title: 'Introducing your family',
+    emoji: '👨‍👩‍👧',
+    level: 'grade-3',
+    coachRole: 'a new classmate who has just moved to Vietnam',
+    setting: 'the classroom before a lesson starts',
+    goal: 'Tell your new classmate about three people in your family.',
+    targetPhrases: ['this is my', 'he is', 'she is', 'years old', 'likes'],
+    turnLimit: 8,
+    voice: 'Kore',
+  },
+  {
+    id: 'asking-directions',
+    title: 'Asking for directions',
+    emoji: '🗺️',
+    level: 'grade-5',
+    coachRole: 'a helpful person standing on a street corner in Hanoi',
+    setting: 'a busy street near Hoan Kiem Lake',
+    goal: 'Find out how to get to the bookshop and how long it takes to walk there.',
+    targetPhrases: ['excuse me', 'how do I get to', 'turn left', 'turn right', 'how long'],
+    turnLimit: 8,
+    voice: 'Charon',
+  },
+  {
+    id: 'doctor-visit',
+    title: 'At the doctor\'s',
+    emoji: '🩺',
+    level: 'grade-7',
+    coachRole: 'a kind doctor at a clinic',
+    setting: 'the doctor\'s office',
+    goal: 'Explain how you feel and since when, and find out what you should do to get better.',
+    targetPhrases: ['I have a', 'since', 'it hurts', 'should I', 'how often'],
+    turnLimit: 10,
+    voice: 'Fenrir',
+  },
+];
+
+export const getRolePlayScenario = (id: string | null | undefined): RolePlayScenario | null =>
+  ROLE_PLAY_SCENARIOS.find(scenario => scenario.id === id) ?? null;
@@ -0,0 +1,51 @@
+// prettier-ignore
+import { TurnAudio } from '../types';
+import { LIVE_INPUT_SAMPLE_RATE, LIVE_OUTPUT_SAMPLE_RATE } from '../utils/pcm';
+import { concatPcm, encodeWav, trimSilence } from '../utils/wav';
+
+// Collects the audio of the current live turn so it can be saved as WAV files: the
+// student's microphone PCM until the coach starts answering, then the coach's reply.
+// The microphone keeps streaming while the coach talks; that audio is not kept, as it is
+// mostly the coach heard through the speakers.
+
+// Long silences before a turn would otherwise grow the buffer without limit.
+const MAX_STUDENT_SECONDS = 60;
+
+export interface TurnRecorder {
+  addStudentAudio: (pcm: Int16Array) => void;
+  addCoachAudio: (pcm: Int16Array) => void;
+  finishTurn: () => TurnAudio;
+}
+
+export const createTurnRecorder = (): TurnRecorder => {
+  let studentChunks: Int16Array[] = [];
+  let studentSamples = 0;
+  let coachChunks: Int16Array[] = [];
+
+  const addStudentAudio = (pcm: Int16Array) => {
+    if (coachChunks.length > 0) return;
+    studentChunks.push(pcm);
+    studentSamples += pcm.length;
+    while (studentSamples - studentChunks[0].length > MAX_STUDENT_SECONDS * LIVE_INPUT_SAMPLE_RATE) {
+      studentSamples -= studentChunks.shift()!.length;
+    }
+  };
+
+  const addCoachAudio = (pcm: Int16Array) => {
+    coachChunks.push(pcm);
+  };
+
+  const finishTurn = (): TurnAudio => {
+    const student = trimSilence({ pcm: concatPcm(studentChunks), sampleRate: LIVE_INPUT_SAMPLE_RATE });
+    const coach = concatPcm(coachChunks);
+    studentChunks = [];
+    studentSamples = 0;
+    coachChunks = [];
+    return {
+      student: student.length ? encodeWav({ pcm: student, sampleRate: LIVE_INPUT_SAMPLE_RATE }) : null,
+      coach: coach.length ? encodeWav({ pcm: coach, sampleRate: LIVE_OUTPUT_SAMPLE_RATE }) : null,
+    };
+  };
+
+  return { addStudentAudio, addCoachAudio, finishTurn };
+};
@@ -0,0 +1,171 @@
+// prettier-ignore
+import { WritingTask, LearnerLevelId } from '../types';
+import { LEARNER_LEVELS } from './learnerLevels';
+
+// The guided writing task library: built-in tasks plus any a teacher imports from JSON.
+// Teacher tasks are kept in localStorage so they survive reloads on this device.
+
+const CUSTOM_TASKS_KEY = 'vinschool-english-coach.customWritingTasks';
+
+export const BUILT_IN_TASKS: WritingTask[] = [
+  {
+    id: 'my-pet',
+    topic: 'My pet',
+    level: 'grade-1',
+    instructions: 'Write two sentences about a pet you have or would like to have.',
+    picture: '🐶🐱 A small brown dog and a white cat are sitting on a red mat.',
+    targetVocabulary: ['dog', 'cat', 'small', 'like'],
+    minWords: 8,
+    expectedTense: 'present simple',
+  },
+  {
+    id: 'my-family',
+    topic: 'My family',
+    level: 'grade-2',
+    instructions: 'Who is in your family? Write about two people in your family.',
+    picture: '👨‍👩‍👧‍👦 A family of four is having dinner together at home.',
+    targetVocabulary: ['mother', 'father', 'brother', 'sister', 'kind'],
+    minWords: 15,
+    expectedTense: 'present simple',
+  },
+  {
+    id: 'my-school-day',
+    topic: 'My school day',
+    level: 'grade-3',
+    instructions: 'Describe what you do at school every day.',
+    picture: '🏫 Children are reading books in a bright classroom. A teacher is writing on the board.',
+    targetVocabulary: ['classroom', 'teacher', 'lesson', 'lunch', 'friends'],
+    minWords: 25,
+    expectedTense: 'present simple',
+  },
+  {
+    id: 'last-weekend',
+    topic: 'Last weekend',
+    level: 'grade-4',
+    instructions: 'What did you do last weekend? Write about where you went and who you were with.',
+    picture: '🌳 A boy and his grandfather are flying a kite in a park on a sunny day.',
+    targetVocabulary: ['went', 'played', 'park', 'weekend', 'because'],
+    minWords: 35,
+    expectedTense: 'past simple',
+  },
+  {
+    id: 'tet-holiday',
+    topic: 'Tết holiday',
+    level: 'grade-5',
+    instructions: 'Describe how your family celebrated the last Tết holiday.',
+    picture: '🧧 A family is visiting grandparents. There are peach blossoms, bánh chưng and lucky money envelopes.',
+    targetVocabulary: ['celebrate', 'lucky money', 'visited', 'delicious', 'decorated'],
+    minWords: 50,
+    expectedTense: 'past simple',
+  },
+  {
+    id: 'future-city',
+    topic: 'My city in the future',
+    level: 'grade-7',
+    instructions: 'How will your city be different in 20 years? Give at least two predictions and your reasons.',
+    picture: '🏙️ A city with electric buses, rooftop gardens and solar panels on tall buildings.',
+    targetVocabulary: ['will', 'pollution', 'transport', 'environment', 'I think'],
+    minWords: 80,
+    expectedTense: 'future simple',
+  },
+  {
+    id: 'screen-time',
+    topic: 'Screen time',
+    level: 'grade-9',
+    instructions: 'Should teenagers have a daily limit on screen time? Give your opinion with reasons and an example.',
+    picture: '📱 A teenager is looking at a phone late at night while homework lies unfinished on the desk.',
+    targetVocabulary: ['however', 'in my opinion', 'addicted', 'balance', 'should'],
+    minWords: 120,
+    expectedTense: 'present simple',
+  },
+];
+
+const LEVEL_IDS = new Set<string>(LEARNER_LEVELS.map(level => level.id));
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Checks one entry of a teacher's JSON file. Returns the task, or a reason it was rejected.
+const parseTask = (value: unknown, index: number): WritingTask | string => {
+  if (typeof value !== 'object' || value === null) return `Task ${index + 1} is not an object.`;
+  const task = value as Record<string, unknown>;
+  const label = typeof task.topic === 'string' ? `"${task.topic}"` : `Task ${index + 1}`;
+
+  if (typeof task.topic !== 'string' || !task.topic.trim()) return `${label} needs a "topic".`;
+  if (typeof task.instructions !== 'string' || !task.instructions.trim()) return `${label} needs "instructions".`;
+  if (typeof task.level !== 'string' || !LEVEL_IDS.has(task.level)) {
+    return `${label} has an unknown "level" (use one of: ${[...LEVEL_IDS].join(', ')}).`;
+  }
+  if (task.targetVocabulary !== undefined && !isStringArray(task.targetVocabulary)) {
+    return `${label}: "targetVocabulary" must be a list of words.`;
+  }
+
+  return {
+    id: typeof task.id === 'string' && task.id.trim() ? task.id : `teacher-${task.topic.toLowerCase().replace(/\W+/g, '-')}`,
+    topic: task.topic.trim(),
+    level: task.level as LearnerLevelId,
+    instructions: task.instructions.trim(),
+    picture: typeof task.picture === 'string' ? task.picture : '',
+    imageUrl: typeof task.imageUrl === 'string' ? task.imageUrl : undefined,
+    targetVocabulary: (task.targetVocabulary as string[] | undefined) ?? [],
+    minWords: typeof task.minWords === 'number' && task.minWords > 0 ? Math.round(task.minWords) : 0,
+    expectedTense: typeof task.expectedTense === 'string' ? task.expectedTense : '',
+    source: 'teacher',
+  };
+};
+
+export const loadCustomTasks = (): WritingTask[] => {
+  try {
+    const stored = localStorage.getItem(CUSTOM_TASKS_KEY);
+    return stored ? (JSON.parse(stored) as WritingTask[]) : [];
+  } catch (error) {
+    console.error('Failed to read custom writing tasks:', error);
+    return [];
+  }
+};
+
+export const listWritingTasks = (): WritingTask[] => [
+  ...BUILT_IN_TASKS.map(task => ({ ...task, source: 'built-in' as const })),
+  ...loadCustomTasks(),
+];
+
+export interface TaskImportResult {
+  imported: number;
+  errors: string[];
+}
+
+// Accepts either a list of tasks or { "tasks": [...] }. Tasks with the same id as an
+// existing teacher task replace it; invalid entries are skipped and reported.
+export const importTasksFromJson = (json: string): TaskImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  const entries = Array.isArray(data) ? data : (data as { tasks?: unknown })?.tasks;
+  if (!Array.isArray(entries)) {
+    throw new Error('The file should contain a list of tasks, or an object with a "tasks" list.');
+  }
+
+  const errors: string[] = [];
+  const tasksById = new Map(loadCustomTasks().map(task => [task.id, task]));
+  let imported = 0;
+  entries.forEach((entry, index) => {
+    const result = parseTask(entry, index);
+    if (typeof result === 'string') {
+      errors.push(result);
+    } else {
+      tasksById.set(result.id, result);
+      imported++;
+    }
+  });
+
+  localStorage.setItem(CUSTOM_TASKS_KEY, JSON.stringify([...tasksById.values()]));
+  return { imported, errors };
+};
+
+export const removeCustomTask = (taskId: string): void => {
+  const remaining = loadCustomTasks().filter(task => task.id !== taskId);
+  localStorage.setItem(CUSTOM_TASKS_KEY, JSON.stringify(remaining));
+};
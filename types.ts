@@ -2,10 +2,97 @@
 // prettier-ignore
 export type EvaluationType = 'writing' | 'speaking';
 
+// The tabs in ModeSwitcher: the two coaches, grammar practice and the teacher's class overview.
+export type AppMode = EvaluationType | 'practice' | 'teacher';
+
+// The level feedback is pitched at: a school grade or a CEFR target (see learnerLevels.ts).
+export type LearnerLevelId =
+  | 'grade-1' | 'grade-2' | 'grade-3' | 'grade-4' | 'grade-5' | 'grade-6' | 'grade-7' | 'grade-8' | 'grade-9'
+  | 'cefr-pre-a1' | 'cefr-a1' | 'cefr-a2' | 'cefr-b1';
+
+// The fixed error taxonomy every correction is tagged with (see grammarTaxonomy.ts).
+export type GrammarErrorTag =
+  | 'subjectVerbAgreement' | 'pastTense' | 'verbForms' | 'articles' | 'prepositions' | 'plurals'
+  | 'wordOrder' | 'wordChoice' | 'spelling' | 'capitalisation' | 'punctuation' | 'otherGrammar';
+
+// One change the coach made when correcting the student's writing.
+export interface WritingEdit {
+  original: string;     // The span the student wrote ('' for an insertion)
+  replacement: string;  // What it was changed to ('' for a deletion)
+  category: string;     // e.g. 'grammar', 'spelling', 'punctuation', 'word choice'
+  reason: string;       // Short, child-friendly explanation of this change
+  tag?: GrammarErrorTag; // Always set on feedback from the facade; missing in older history
+}
+
+export interface ErrorTagCount {
+  tag: GrammarErrorTag;
+  count: number;
+}
+
+// A word worth learning, picked out of a submission by the coach.
+export type VocabularyItemKind = 'misused' | 'betterChoice' | 'newWord';
+
+export interface VocabularyItem {
+  word: string;        // The word to learn
+  kind: VocabularyItemKind;
+  studentWord: string; // What the student used instead ('' for new words)
+  meaningVi: string;   // Vietnamese gloss
+  example: string;     // A simple sentence using the word
+}
+
+// A guided writing exercise from the task library (see writingTasks.ts).
+export interface WritingTask {
+  id: string;
+  topic: string;
+  level: LearnerLevelId;
+  instructions: string;        // What the student is asked to write
+  picture: string;             // Description of the picture (or an emoji scene)
+  imageUrl?: string;           // Optional picture shown above the description
+  targetVocabulary: string[];
+  minWords: number;
+  expectedTense: string;       // e.g. 'present simple', 'past simple'
+  source?: 'built-in' | 'teacher';
+}
+
+// How well the writing fulfilled the chosen task.
+export interface TaskAchievement {
+  score: number;               // 0-10
+  onTopic: boolean;
+  usedExpectedTense: boolean;
+  targetWordsUsed: string[];
+  targetWordsMissed: string[];
+  wordCount: number;
+  meetsWordCount: boolean;
+  comment: string;
+}
+
+// Essay mode: feedback on one sentence of a longer text.
+export interface SentenceFeedback {
+  id: string;        // "paragraph.sentence", e.g. "2.3"
+  paragraph: number; // 1-based
+  original: string;
+  corrected: string; // Same as original when nothing needed changing
+  explanation: string;
+}
+
+export interface ParagraphComment {
+  paragraph: number; // 1-based
+  organisation: string;
+  coherence: string;
+  linkingWords: string;
+}
+
+export interface EssayFeedback {
+  sentences: SentenceFeedback[];
+  paragraphComments: ParagraphComment[];
+  summary: string;
+}
+
 export interface WritingFeedback {
   introMessage: string;
   correctedSentence: string;
   explanation: string;
+  edits: WritingEdit[];
   scores: {
     grammar: number;
     vocabulary: number;
@@ -13,6 +100,93 @@ export interface WritingFeedback {
     overallWritingQuality: number;
   };
   suggestions: string[];
+  level?: LearnerLevelId; // The level the feedback was marked against
+  cachedAt?: number;      // Set when this is a reused result from the evaluation cache: when it was made
+  alreadyRecorded?: boolean; // Set on a reused result the same profile has already been credited for
+  taskId?: string;        // Set when the writing answered a task from the library
+  taskAchievement?: TaskAchievement;
+  essay?: EssayFeedback;  // Present for multi-paragraph essay evaluations
+  errorTags?: ErrorTagCount[]; // How many edits had each tag, most frequent first
+  vocabularyItems?: VocabularyItem[];
+  // Vietnamese versions of the feedback text, present in bilingual mode.
+  // The corrected sentence itself is never translated.
+  introMessageVi?: string;
+  explanationVi?: string;
+  suggestionsVi?: string[];
+}
+
+// A live role-play: the coach plays a character and the student has a goal to reach.
+export interface RolePlayScenario {
+  id: string;
+  title: string;
+  emoji: string;
+  level: LearnerLevelId;
+  coachRole: string;        // Who the coach plays, e.g. 'a friendly canteen worker'
+  setting: string;          // Where the conversation happens
+  goal: string;             // What the student must achieve, shown to them
+  targetPhrases: string[];  // Phrases the student should try to use
+  turnLimit: number;        // The session stops after this many student turns
+  voice: string;            // Prebuilt Live API voice name
+}
+
+// How a role-play went, added to the session report.
+export interface RolePlayOutcome {
+  scenarioId: string;
+  title: string;
+  goal: string;
+  goalReached: boolean;
+  targetPhrasesUsed: string[];
+  targetPhrasesMissed: string[];
+}
+
+// The activities offered by the Speaking Coach.
+export type SpeakingActivity = 'conversation' | 'readAloud';
+
+// A passage for read-aloud practice.
+export interface ReadingPassage {
+  id: string;
+  title: string;
+  level: LearnerLevelId;
+  text: string;
+}
+
+// How one word of the passage was read. `inserted` words were said but are not in the
+// passage; `pending` words have not been reached yet.
+export type ReadingWordStatus = 'correct' | 'substituted' | 'skipped' | 'inserted' | 'pending';
+
+export interface ReadingWord {
+  reference: string | null; // The word as written in the passage; null for insertions
+  spoken: string | null;    // What the transcription heard; null for skipped or pending words
+  status: ReadingWordStatus;
+}
+
+export interface ReadingResult {
+  passageId: string | null; // null for a passage typed in by the teacher
+  words: ReadingWord[];
+  correctCount: number;
+  attemptedCount: number;   // Passage words the student reached
+  accuracy: number;         // Percentage of attempted words read correctly
+  wordsCorrectPerMinute: number;
+  durationSeconds: number;
+}
+
+// A word the student mispronounced in the recording, e.g. "three" /θriː/.
+export interface WordFinding {
+  word: string;
+  expectedPhonemes: string; // IPA
+  problem: string;
+  severity: 'minor' | 'moderate' | 'major';
+}
+
+// Timing measured on the device from the turn recording (see utils/fluencyMetrics.ts).
+export interface FluencyMetrics {
+  speakingSeconds: number;
+  wordsPerMinute: number;
+  pauseCount: number;
+  totalPauseSeconds: number;
+  longestPauseSeconds: number;
+  fillerCount: number;
+  fillerWords: string[];
 }
 
 export interface SpeakingFeedback {
@@ -25,4 +199,207 @@ export interface SpeakingFeedback {
     overallSpeakingQuality: number;
   };
   pronunciationTips: string[];
+  level?: LearnerLevelId; // The level the feedback was marked against
+  cachedAt?: number;      // Set when this is a reused result from the evaluation cache: when it was made
+  alreadyRecorded?: boolean; // Set on a reused result the same profile has already been credited for
+  // Present when the turn was evaluated from its audio rather than the transcript alone.
+  wordFindings?: WordFinding[];
+  fluencyMetrics?: FluencyMetrics;
+  vocabularyItems?: VocabularyItem[];
+  // Vietnamese versions of the feedback text, present in bilingual mode.
+  introMessageVi?: string;
+  feedbackVi?: string;
+  pronunciationTipsVi?: string[];
+}
+
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  className: string;
+  gradeLevel: number; // 1-9
+  createdAt: number;
+}
+
+// A single saved writing submission or speaking turn.
+export interface EvaluationRecord {
+  id: string;
+  profileId: string;
+  type: EvaluationType;
+  input: string;
+  feedback: WritingFeedback | SpeakingFeedback;
+  createdAt: number;
+}
+
+// One exchange in a live speaking session: what the student said and how the coach replied.
+export interface ConversationTurn {
+  id: string;
+  student: string;
+  coach: string;
+  feedback: SpeakingFeedback | null; // null while evaluating, or if evaluation failed
+  createdAt: number;
+}
+
+// WAV recordings of one live turn; null when nothing was captured.
+export interface TurnAudio {
+  student: Blob | null;
+  coach: Blob | null;
+}
+
+// A saved turn recording. Kept apart from SessionReport so reports stay small and
+// can be exported as JSON.
+export interface TurnRecording {
+  id: string;
+  sessionId: string;
+  turnId: string;
+  profileId: string | null;
+  role: 'student' | 'coach';
+  audio: Blob;
+  createdAt: number;
+}
+
+// The end-of-session summary shown when the student presses Stop.
+export interface SessionReport {
+  id: string;
+  profileId: string | null;
+  level?: LearnerLevelId;
+  startedAt: number;
+  endedAt: number;
+  turns: ConversationTurn[];
+  averageScores: SpeakingFeedback['scores'] | null;
+  recurringProblems: { problem: string; count: number }[];
+  bestSentence: { text: string; score: number } | null;
+  rolePlay?: RolePlayOutcome;
+}
+
+// What a badge counts (see utils/rewards.ts for how each is measured).
+export type BadgeMetric =
+  | 'perfectGrammar'       // Writing submissions with full marks for grammar
+  | 'evaluations'          // Writing submissions and speaking turns marked
+  | 'streakDays'           // Longest daily streak
+  | 'conversationMinutes'  // Longest single live conversation
+  | 'xp';
+
+export interface BadgeRule {
+  id: string;
+  title: string;
+  emoji: string;
+  description: string;
+  metric: BadgeMetric;
+  threshold: number;
+}
+
+// The tunable reward rules. Built-in defaults live in rewardRules.ts; a teacher can
+// replace them by importing a JSON file.
+export interface RewardRules {
+  xp: {
+    perFeedback: number;           // Earned for every piece of feedback
+    perOverallPoint: number;       // Times the overall quality score (0-10)
+    perImprovementPoint: number;   // Times the points above the student's own recent average
+    maxImprovementBonus: number;
+    averageOf: number;             // How many recent scores of the same kind make the average
+    perConversationMinute: number; // For live conversations, when the session ends
+    perLevel: number;              // XP needed for each level shown in the header
+  };
+  badges: BadgeRule[];
+}
+
+// A student's rewards, saved with their profile.
+export interface RewardState {
+  profileId: string;
+  xp: number;
+  currentStreak: number;
+  longestStreak: number;
+  lastPracticeDay: string | null;  // Local date, YYYY-MM-DD
+  perfectGrammarCount: number;
+  evaluationCount: number;
+  longestConversationSeconds: number;
+  recentScores: Record<EvaluationType, number[]>; // Overall quality, oldest first
+  badges: { id: string; earnedAt: number }[];
+}
+
+// What one piece of practice earned, for the celebrations.
+export interface RewardEvent {
+  xpEarned: number;
+  improvementBonus: number;
+  streak: number;
+  streakExtended: boolean;  // First practice of a new day in the streak
+  newBadges: BadgeRule[];
+  levelUp: number | null;   // The new level, if one was reached
+}
+
+// One correction from the coach, kept in the student's mistake notebook and reviewed on
+// an SM-2 schedule (see utils/spacedRepetition.ts).
+export interface MistakeCard {
+  id: string;
+  profileId: string;
+  wrote: string;             // What the student wrote ('' if something was missing)
+  correct: string;           // The correct form ('' if it should be left out)
+  rule: string;              // Why, in child-friendly words
+  category: GrammarErrorTag;
+  sentence: string;          // The student's sentence, mistake included
+  correctedSentence: string;
+  createdAt: number;
+  repetitions: number;       // Correct reviews in a row
+  intervalDays: number;
+  easeFactor: number;
+  dueAt: number;
+  lastReviewedAt: number | null;
+}
+
+// A word in the student's personal word bank.
+export interface WordBankEntry extends VocabularyItem {
+  id: string;
+  profileId: string;
+  learned: boolean;
+  createdAt: number;
+  learnedAt: number | null;
+}
+
+// --- Grammar practice ---
+
+export type ExerciseKind = 'multipleChoice' | 'gapFill' | 'reorder' | 'errorSpotting';
+
+// One generated exercise, graded locally (see utils/exercises.ts).
+export interface Exercise {
+  kind: ExerciseKind;
+  tag: GrammarErrorTag; // The error type it practises
+  instruction: string;
+  sentence: string;     // gapFill: contains "___"; errorSpotting: has one wrong word; otherwise may be ''
+  options: string[];    // multipleChoice: the choices; reorder: the words, shuffled; otherwise empty
+  answer: string;       // The right option, the missing word(s), the whole sentence, or the wrong word
+  explanation: string;  // Shown after answering
+}
+
+// What the exercises are generated from: one of the student's corrected pieces of writing.
+export interface ExerciseSource {
+  correctedSentence: string;
+  explanation: string;
+  errorTags: GrammarErrorTag[];
+}
+
+export interface ExerciseAnswer {
+  kind: ExerciseKind;
+  tag: GrammarErrorTag;
+  response: string;
+  correct: boolean;
+}
+
+// A finished practice set, saved to the student's progress.
+export interface PracticeResult {
+  id: string;
+  profileId: string;
+  level: LearnerLevelId;
+  createdAt: number;
+  answers: ExerciseAnswer[];
+  correctCount: number;
+}
+
+// A finished evaluation kept so the same input is not sent to the model again.
+export interface CachedEvaluation {
+  key: string; // See utils/evaluationCache.ts
+  feedback: WritingFeedback | SpeakingFeedback;
+  createdAt: number;
+  lastUsedAt: number;
+  size: number; // Approximate, in characters of JSON
+  profileIds?: string[]; // Profiles already credited for this feedback; missing on older entries
 }
@@ -0,0 +1,116 @@
+// prettier-ignore
+import { ErrorTagCount, EvaluationRecord, GrammarErrorTag, WritingEdit, WritingFeedback } from '../types';
+
+// Tagging corrections with the grammar error taxonomy (services/grammarTaxonomy.ts), and the
+// per-student weakness profile built from those tags.
+
+const ARTICLES = new Set(['a', 'an', 'the']);
+const PREPOSITIONS = new Set(['in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'about', 'into', 'under']);
+
+const wordsOf = (text: string): string[] => text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+
+// Only the words that differ between the two sides, e.g. "a" -> "an" for "a apple" -> "an apple".
+const changedWords = (original: string, replacement: string): { removed: string[]; added: string[] } => {
+  const before = wordsOf(original);
+  const after = wordsOf(replacement);
+  return {
+    removed: before.filter(word => !after.includes(word)),
+    added: after.filter(word => !before.includes(word)),
+  };
+};
+
+// The same words, just moved around: "a dog big" -> "a big dog".
+const isReordering = (original: string, replacement: string): boolean => {
+  const before = wordsOf(original);
+  const after = wordsOf(replacement);
+  return before.length > 1
+    && before.join(' ') !== after.join(' ')
+    && [...before].sort().join(' ') === [...after].sort().join(' ');
+};
+
+// The model tags each edit itself; older history and providers without tags fall back to
+// working out the kind of mistake from the words that changed and the reason given.
+export const classifyEdit = (edit: WritingEdit): GrammarErrorTag => {
+  if (edit.tag) return edit.tag;
+  const category = edit.category.toLowerCase();
+  const reason = edit.reason.toLowerCase();
+  const { removed, added } = changedWords(edit.original, edit.replacement);
+  const changed = [...removed, ...added];
+
+  if (/capital/.test(category) || (edit.original && edit.original.toLowerCase() === edit.replacement.toLowerCase())) {
+    return 'capitalisation';
+  }
+  if (/word order/.test(reason) || isReordering(edit.original, edit.replacement)) return 'wordOrder';
+  if (/punctuation/.test(category) || changed.length === 0) return 'punctuation';
+  if (/spelling/.test(category)) return 'spelling';
+  if (/article/.test(reason) || (changed.length > 0 && changed.every(word => ARTICLES.has(word)))) return 'articles';
+  if (/preposition/.test(reason) || (changed.length > 0 && changed.every(word => PREPOSITIONS.has(word)))) return 'prepositions';
+  if (/past/.test(reason) || added.some(word => /ed$/.test(word) && removed.some(old => word.startsWith(old)))) {
+    return 'pastTense';
+  }
+  if (/plural/.test(reason) || added.some(word => removed.some(old => word === `${old}s` || word === `${old}es`))) {
+    return 'plurals';
+  }
+  if (/\b(he|she|it)\b|subject|agree/.test(reason) || (removed.includes('have') && added.includes('has'))) {
+    return 'subjectVerbAgreement';
+  }
+  if (/verb|-ing|infinitive/.test(reason)) return 'verbForms';
+  if (/word|vocab/.test(category)) return 'wordChoice';
+  return 'otherGrammar';
+};
+
+// Edits with their tag filled in, so saved history always carries one.
+export const tagEdits = (edits: WritingEdit[]): WritingEdit[] =>
+  edits.map(edit => ({ ...edit, tag: classifyEdit(edit) }));
+
+// How many edits had each tag, most frequent first.
+export const countErrorTags = (edits: WritingEdit[]): ErrorTagCount[] => {
+  const counts = new Map<GrammarErrorTag, number>();
+  edits.forEach(edit => {
+    const tag = classifyEdit(edit);
+    counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count);
+};
+
+export interface WeaknessEntry {
+  tag: GrammarErrorTag;
+  count: number;       // Errors of this type across all submissions
+  submissions: number; // Submissions with at least one
+  lastSeenAt: number;
+}
+
+export interface WeaknessProfile {
+  submissions: number; // Writing evaluations looked at
+  totalErrors: number;
+  entries: WeaknessEntry[]; // Most frequent first
+}
+
+const errorTagsOf = (feedback: WritingFeedback): ErrorTagCount[] =>
+  feedback.errorTags ?? countErrorTags(feedback.edits ?? []);
+
+// Ranks error types by how often they occur across the writing evaluations given. Ties go to
+// the type seen in more submissions, so one essay full of the same slip does not dominate.
+export const buildWeaknessProfile = (records: EvaluationRecord[]): WeaknessProfile => {
+  const writing = records.filter(record => record.type === 'writing');
+  const byTag = new Map<GrammarErrorTag, WeaknessEntry>();
+  let totalErrors = 0;
+
+  writing.forEach(record => {
+    errorTagsOf(record.feedback as WritingFeedback).forEach(({ tag, count }) => {
+      if (count <= 0) return;
+      const entry = byTag.get(tag) ?? { tag, count: 0, submissions: 0, lastSeenAt: 0 };
+      entry.count += count;
+      entry.submissions += 1;
+      entry.lastSeenAt = Math.max(entry.lastSeenAt, record.createdAt);
+      byTag.set(tag, entry);
+      totalErrors += count;
+    });
+  });
+
+  const entries = [...byTag.values()]
+    .sort((a, b) => b.count - a.count || b.submissions - a.submissions || b.lastSeenAt - a.lastSeenAt);
+  return { submissions: writing.length, totalErrors, entries };
+};
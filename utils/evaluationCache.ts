@@ -0,0 +1,72 @@
+// prettier-ignore
+import { CachedEvaluation, EvaluationType, LearnerLevelId } from '../types';
+
+// Keys and eviction for the evaluation cache. Two submissions share a key only when
+// everything that reaches the prompt is the same, so a reused result is always one the
+// model could have given for this exact request.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const CACHE_TTL_MS = 7 * DAY_MS;
+export const MAX_CACHE_ENTRIES = 200;
+export const MAX_CACHE_SIZE = 2_000_000; // Characters of JSON, roughly bytes
+
+export interface EvaluationCacheKeyParts {
+  type: EvaluationType;
+  text: string;
+  provider: string;
+  promptVersion: string;
+  level: LearnerLevelId;
+  bilingual: boolean;
+  taskId?: string;
+  essay: boolean;
+}
+
+// Spacing and Unicode form do not change the feedback; case and punctuation can, so they are kept.
+export const normaliseInput = (text: string): string => text.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+export const evaluationCacheKey = (parts: EvaluationCacheKeyParts): string =>
+  JSON.stringify([
+    parts.type,
+    parts.provider,
+    parts.promptVersion,
+    parts.level,
+    parts.bilingual,
+    parts.taskId ?? null,
+    parts.essay,
+    normaliseInput(parts.text),
+  ]);
+
+export const isExpired = (entry: CachedEvaluation, now: number = Date.now()): boolean =>
+  now - entry.createdAt > CACHE_TTL_MS;
+
+// Notes that a profile has been given this entry's feedback, and whether it had been before.
+export const recordCacheUse = (
+  entry: CachedEvaluation,
+  profileId: string | undefined,
+  now: number = Date.now()
+): { entry: CachedEvaluation; alreadyUsed: boolean } => {
+  const profileIds = entry.profileIds ?? [];
+  const alreadyUsed = Boolean(profileId && profileIds.includes(profileId));
+  return {
+    entry: { ...entry, lastUsedAt: now, profileIds: profileId && !alreadyUsed ? [...profileIds, profileId] : profileIds },
+    alreadyUsed,
+  };
+};
+
+// Expired entries go first, then the least recently used until the rest fit the limits.
+export const selectEvictions = (entries: CachedEvaluation[], now: number = Date.now()): string[] => {
+  const evicted: string[] = [];
+  let count = 0;
+  let size = 0;
+  [...entries]
+    .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+    .forEach(entry => {
+      if (isExpired(entry, now) || count + 1 > MAX_CACHE_ENTRIES || size + entry.size > MAX_CACHE_SIZE) {
+        evicted.push(entry.key);
+        return;
+      }
+      count++;
+      size += entry.size;
+    });
+  return evicted;
+};
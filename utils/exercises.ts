@@ -0,0 +1,99 @@
+// prettier-ignore
+import { EvaluationRecord, Exercise, ExerciseAnswer, ExerciseSource, GrammarErrorTag, WritingFeedback } from '../types';
+import { countErrorTags } from './errorTags';
+
+// Practice exercises: what they are generated from, which generated ones can be used, and
+// grading the student's answers locally, without another model call.
+
+export const BLANK = '___';
+
+// Writing with nothing corrected has nothing to practise.
+export const exerciseSourceFor = (feedback: WritingFeedback): ExerciseSource | null => {
+  const errorTags = (feedback.errorTags ?? countErrorTags(feedback.edits ?? [])).map(({ tag }) => tag);
+  if (errorTags.length === 0) return null;
+  return { correctedSentence: feedback.correctedSentence, explanation: feedback.explanation, errorTags };
+};
+
+// The latest corrected writing, newest first.
+export const recentExerciseSources = (records: EvaluationRecord[], limit: number = 5): ExerciseSource[] =>
+  [...records]
+    .filter(record => record.type === 'writing')
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .flatMap(record => {
+      const source = exerciseSourceFor(record.feedback as WritingFeedback);
+      return source ? [source] : [];
+    })
+    .slice(0, limit);
+
+// The error types across the sources, most frequent first.
+export const sourceTags = (sources: ExerciseSource[]): GrammarErrorTag[] => {
+  const counts = new Map<GrammarErrorTag, number>();
+  sources.forEach(source => source.errorTags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([tag]) => tag);
+};
+
+// Word tiles for reordering and for spotting the error: split on spaces, punctuation attached.
+export const tokensOf = (sentence: string): string[] => sentence.trim().split(/\s+/).filter(Boolean);
+
+const normalise = (text: string): string => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Letters, digits and apostrophes only, so "pizza." and "pizza" count as the same word.
+const bareWord = (text: string): string => normalise(text).replace(/[^\p{L}\p{N}'\s]/gu, '').trim();
+
+const sameWords = (a: string, b: string): boolean =>
+  tokensOf(bareWord(a)).sort().join(' ') === tokensOf(bareWord(b)).sort().join(' ');
+
+// Generated exercises that could not be graded fairly are dropped rather than shown.
+export const isGradable = (exercise: Exercise): boolean => {
+  if (!exercise.answer.trim()) return false;
+  switch (exercise.kind) {
+    case 'multipleChoice':
+      return exercise.options.length >= 2 && exercise.options.includes(exercise.answer);
+    case 'gapFill':
+      return exercise.sentence.split(BLANK).length === 2;
+    case 'reorder':
+      return exercise.options.length >= 2 && sameWords(exercise.options.join(' '), exercise.answer);
+    case 'errorSpotting':
+      return tokensOf(exercise.sentence).some(token => bareWord(token) === bareWord(exercise.answer));
+  }
+};
+
+// Capital letters and spacing never make an answer wrong; for reordering, neither does the
+// final punctuation, since the tiles may not include it.
+export const gradeExercise = (exercise: Exercise, response: string): boolean => {
+  switch (exercise.kind) {
+    case 'multipleChoice':
+      return response === exercise.answer;
+    case 'gapFill':
+      return normalise(response) === normalise(exercise.answer);
+    case 'reorder':
+      return bareWord(response) === bareWord(exercise.answer);
+    case 'errorSpotting':
+      return bareWord(response) === bareWord(exercise.answer);
+  }
+};
+
+export const answerExercise = (exercise: Exercise, response: string): ExerciseAnswer => ({
+  kind: exercise.kind,
+  tag: exercise.tag,
+  response,
+  correct: gradeExercise(exercise, response),
+});
+
+export interface TagAccuracy {
+  tag: GrammarErrorTag;
+  correct: number;
+  total: number;
+}
+
+// Right answers per error type, weakest first.
+export const accuracyByTag = (answers: ExerciseAnswer[]): TagAccuracy[] => {
+  const byTag = new Map<GrammarErrorTag, TagAccuracy>();
+  answers.forEach(answer => {
+    const entry = byTag.get(answer.tag) ?? { tag: answer.tag, correct: 0, total: 0 };
+    entry.total += 1;
+    if (answer.correct) entry.correct += 1;
+    byTag.set(answer.tag, entry);
+  });
+  return [...byTag.values()].sort((a, b) => a.correct / a.total - b.correct / b.total || b.total - a.total);
+};
@@ -0,0 +1,36 @@
+// prettier-ignore
+import { describe, it, expect } from 'vitest';
+import { toCsv } from './exportResults';
+import { EvaluationRecord, LearnerProfile } from '../types';
+
+const profile: LearnerProfile = { id: 'p1', name: '@Minh', className: '5A', gradeLevel: 5, createdAt: 0 };
+
+const writingRecord = (input: string): EvaluationRecord => ({
+  id: 'e1',
+  profileId: 'p1',
+  type: 'writing',
+  input,
+  createdAt: 0,
+  feedback: {
+    introMessage: '',
+    correctedSentence: '-I like cats.',
+    explanation: '',
+    edits: [],
+    scores: { grammar: 8, vocabulary: 7, sentenceStructure: 6, overallWritingQuality: 7.5 },
+    suggestions: [],
+  },
+});
+
+describe('toCsv', () => {
+  it('prefixes text cells that start like a formula with an apostrophe', () => {
+    const [, row] = toCsv([profile], [writingRecord('=HYPERLINK("http://x","y")')]).split('\r\n');
+    expect(row.startsWith("'@Minh,5A,5,writing,")).toBe(true);
+    expect(row.endsWith(`"'=HYPERLINK(""http://x"",""y"")",'-I like cats.`)).toBe(true);
+  });
+
+  it('leaves ordinary text and scores as they are', () => {
+    const [, row] = toCsv([{ ...profile, name: 'Minh' }], [writingRecord('I like cat')]).split('\r\n');
+    expect(row).toContain(',8,7,6,7.5,');
+    expect(row.endsWith(",I like cat,'-I like cats.")).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+// prettier-ignore
+import { EvaluationRecord, LearnerProfile, WritingFeedback } from '../types';
+import { WRITING_SCORE_KEYS, SPEAKING_SCORE_KEYS, scoresOf } from './progressStats';
+
+// Serialises class results for teachers: CSV for spreadsheets, JSON for moving data
+// between devices (see importClassData in historyStore).
+
+export const CLASS_EXPORT_VERSION = 1;
+
+export interface ClassExport {
+  version: number;
+  exportedAt: number;
+  profiles: LearnerProfile[];
+  evaluations: EvaluationRecord[];
+}
+
+const CSV_SCORE_COLUMNS = [...WRITING_SCORE_KEYS, ...SPEAKING_SCORE_KEYS];
+const CSV_HEADER = ['student', 'class', 'grade', 'type', 'date', 'level', ...CSV_SCORE_COLUMNS, 'input', 'corrected'];
+
+// Text that starts like a formula is prefixed with an apostrophe, so a spreadsheet shows a
+// student's "=1+1" as text instead of running it.
+const escapeCsv = (value: string | number): string => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per evaluation with every score column; scores that don't apply are left blank.
+export const toCsv = (profiles: LearnerProfile[], evaluations: EvaluationRecord[]): string => {
+  const profilesById = new Map(profiles.map(profile => [profile.id, profile]));
+  const rows = [...evaluations]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(record => {
+      const profile = profilesById.get(record.profileId);
+      const scores = scoresOf(record);
+      const corrected = record.type === 'writing' ? (record.feedback as WritingFeedback).correctedSentence : '';
+      return [
+        profile?.name ?? '',
+        profile?.className ?? '',
+        profile?.gradeLevel ?? '',
+        record.type,
+        new Date(record.createdAt).toISOString(),
+        record.feedback.level ?? '',
+        ...CSV_SCORE_COLUMNS.map(key => scores[key] ?? ''),
+        record.input,
+        corrected,
+      ].map(escapeCsv).join(',');
+    });
+  // Excel needs the byte-order mark to read Vietnamese names as UTF-8.
+  return '\uFEFF' + [CSV_HEADER.join(','), ...rows].join('\r\n');
+};
+
+export const toClassExport = (profiles: LearnerProfile[], evaluations: EvaluationRecord[]): ClassExport => ({
+  version: CLASS_EXPORT_VERSION,
+  exportedAt: Date.now(),
+  profiles,
+  evaluations,
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Parses and sanity-checks a JSON export, dropping entries that are clearly broken.
+export const parseClassExport = (json: string): ClassExport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not a valid JSON export.');
+  }
+  if (!isObject(data) || !Array.isArray(data.profiles) || !Array.isArray(data.evaluations)) {
+    throw new Error('This file does not look like a class export from English Coach.');
+  }
+  if (typeof data.version === 'number' && data.version > CLASS_EXPORT_VERSION) {
+    throw new Error('This export was made by a newer version of the app. Please update first.');
+  }
+
+  const profiles = data.profiles.filter((profile): profile is LearnerProfile =>
+    isObject(profile) && typeof profile.id === 'string' && typeof profile.name === 'string');
+  const evaluations = data.evaluations.filter((record): record is EvaluationRecord =>
+    isObject(record) &&
+    typeof record.id === 'string' &&
+    typeof record.profileId === 'string' &&
+    (record.type === 'writing' || record.type === 'speaking') &&
+    typeof record.createdAt === 'number' &&
+    isObject(record.feedback) &&
+    isObject(record.feedback.scores));
+
+  return {
+    version: typeof data.version === 'number' ? data.version : CLASS_EXPORT_VERSION,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : Date.now(),
+    profiles,
+    evaluations,
+  };
+};
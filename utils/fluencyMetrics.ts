@@ -0,0 +1,78 @@
+// prettier-ignore
+import { FluencyMetrics } from '../types';
+import { PcmAudio } from './wav';
+
+// Fluency measured on the device from the turn recording and its transcript, so the
+// numbers are real timings rather than something the model has to guess.
+
+const FRAME_MS = 20;
+const SPEECH_THRESHOLD = 500;  // RMS of 16-bit samples; quieter frames count as silence
+const MIN_PAUSE_MS = 300;      // Shorter gaps are just the spaces between words
+
+const FILLERS = ['um', 'umm', 'uh', 'uhm', 'er', 'erm', 'ah', 'hmm', 'you know', 'i mean'];
+
+const roundTo = (value: number, places: number) => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+// Which 20 ms frames contain speech.
+const speechFrames = ({ pcm, sampleRate }: PcmAudio): boolean[] => {
+  const frameSize = Math.max(1, Math.round((sampleRate * FRAME_MS) / 1000));
+  const frames: boolean[] = [];
+  for (let start = 0; start < pcm.length; start += frameSize) {
+    const end = Math.min(pcm.length, start + frameSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += pcm[i] * pcm[i];
+    frames.push(Math.sqrt(sum / (end - start)) >= SPEECH_THRESHOLD);
+  }
+  return frames;
+};
+
+export const findFillerWords = (transcript: string): string[] => {
+  const text = ` ${transcript.toLowerCase().replace(/[^\p{L}\s']/gu, ' ').replace(/\s+/g, ' ')} `;
+  const found: string[] = [];
+  for (const filler of FILLERS) {
+    const occurrences = text.match(new RegExp(`(?<= )${filler}(?= )`, 'g'))?.length ?? 0;
+    for (let i = 0; i < occurrences; i++) found.push(filler);
+  }
+  return found;
+};
+
+export const computeFluencyMetrics = (audio: PcmAudio, transcript: string): FluencyMetrics => {
+  const frames = speechFrames(audio);
+  const first = frames.indexOf(true);
+  const last = frames.lastIndexOf(true);
+  const fillers = findFillerWords(transcript);
+  const words = transcript.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+
+  // Pauses are silences between the first and last spoken frame, not before or after.
+  const pauses: number[] = [];
+  let silentRun = 0;
+  for (let i = first + 1; first >= 0 && i <= last; i++) {
+    if (!frames[i]) {
+      silentRun++;
+    } else {
+      if (silentRun * FRAME_MS >= MIN_PAUSE_MS) pauses.push(silentRun * FRAME_MS);
+      silentRun = 0;
+    }
+  }
+
+  const speakingSeconds = first >= 0 ? ((last - first + 1) * FRAME_MS) / 1000 : 0;
+  const totalPauseMs = pauses.reduce((sum, pause) => sum + pause, 0);
+  return {
+    speakingSeconds: roundTo(speakingSeconds, 1),
+    wordsPerMinute: speakingSeconds > 0 ? Math.round((words / speakingSeconds) * 60) : 0,
+    pauseCount: pauses.length,
+    totalPauseSeconds: roundTo(totalPauseMs / 1000, 1),
+    longestPauseSeconds: roundTo((pauses.length ? Math.max(...pauses) : 0) / 1000, 1),
+    fillerCount: fillers.length,
+    fillerWords: [...new Set(fillers)],
+  };
+};
+
+// One line for the prompt, so the model's fluency score agrees with what was measured.
+export const describeFluencyMetrics = (metrics: FluencyMetrics): string =>
+  `${metrics.wordsPerMinute} words per minute over ${metrics.speakingSeconds} s of speech, ` +
+  `${metrics.pauseCount} pauses of 0.3 s or more (${metrics.totalPauseSeconds} s in total, longest ${metrics.longestPauseSeconds} s), ` +
+  `${metrics.fillerCount} filler words${metrics.fillerWords.length ? ` (${metrics.fillerWords.join(', ')})` : ''}`;
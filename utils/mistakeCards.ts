@@ -0,0 +1,101 @@
+// prettier-ignore
+import { MistakeCard, WritingFeedback } from '../types';
+import { classifyEdit } from './errorTags';
+import { splitEssay } from './sentenceSplit';
+import { INITIAL_EASE_FACTOR, ReviewQuality } from './spacedRepetition';
+import { createId } from './id';
+
+// Turns the coach's corrections into mistake cards, and the cards into review questions.
+
+interface SentencePair {
+  original: string;
+  corrected: string;
+}
+
+// Each sentence the student wrote next to its correction.
+const sentencePairs = (input: string, feedback: WritingFeedback): SentencePair[] => {
+  if (feedback.essay) return feedback.essay.sentences;
+  const originals = splitEssay(input).map(sentence => sentence.text);
+  const corrections = splitEssay(feedback.correctedSentence).map(sentence => sentence.text);
+  if (originals.length > 1 && originals.length === corrections.length) {
+    return originals.map((original, index) => ({ original, corrected: corrections[index] }));
+  }
+  return [{ original: input.trim(), corrected: feedback.correctedSentence.trim() }];
+};
+
+// One card per correction. Corrections that cannot be placed in a sentence are left out,
+// since there would be nothing to quiz.
+export const buildMistakeCards = (
+  profileId: string,
+  input: string,
+  feedback: WritingFeedback,
+  now: number = Date.now()
+): MistakeCard[] => {
+  const pairs = sentencePairs(input, feedback).filter(pair => pair.original !== pair.corrected);
+  return (feedback.edits ?? []).flatMap(edit => {
+    const pair = edit.original
+      ? pairs.find(item => item.original.includes(edit.original))
+      : pairs.length === 1 ? pairs[0] : undefined;
+    if (!pair) return [];
+    return [{
+      id: createId(),
+      profileId,
+      wrote: edit.original,
+      correct: edit.replacement,
+      rule: edit.reason || feedback.explanation,
+      category: classifyEdit(edit),
+      sentence: pair.original,
+      correctedSentence: pair.corrected,
+      createdAt: now,
+      repetitions: 0,
+      intervalDays: 0,
+      easeFactor: INITIAL_EASE_FACTOR,
+      dueAt: now,
+      lastReviewedAt: null,
+    }];
+  });
+};
+
+// The same mistake made again is not added twice.
+export const mistakeKey = (card: Pick<MistakeCard, 'profileId' | 'wrote' | 'correct'>): string =>
+  `${card.profileId}|${card.wrote.trim().toLowerCase()}|${card.correct.trim().toLowerCase()}`;
+
+export type ReviewItem =
+  | { kind: 'fillBlank'; before: string; after: string; answer: string }
+  | { kind: 'chooseSentence'; options: string[]; answer: string };
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Fill-in-the-blank needs the correct form to be visible in the corrected sentence;
+// otherwise (e.g. a word that should be left out) the student chooses the correct sentence.
+export const buildReviewItem = (card: MistakeCard, random: () => number = Math.random): ReviewItem => {
+  const answer = card.correct.trim();
+  const match = /[\p{L}\p{N}]/u.test(answer)
+    ? new RegExp(`(^|[^\\p{L}])${escapeRegExp(answer)}(?![\\p{L}])`, 'u').exec(card.correctedSentence)
+    : null;
+  const canChoose = card.sentence !== card.correctedSentence;
+
+  if (match && (!canChoose || random() < 0.5)) {
+    const start = match.index + match[1].length;
+    return {
+      kind: 'fillBlank',
+      before: card.correctedSentence.slice(0, start),
+      after: card.correctedSentence.slice(start + answer.length),
+      answer,
+    };
+  }
+  const options = [card.correctedSentence, card.sentence];
+  return { kind: 'chooseSentence', options: random() < 0.5 ? options : options.reverse(), answer: card.correctedSentence };
+};
+
+const normalise = (text: string): string => text.trim().replace(/\s+/g, ' ');
+
+// The grade for the SM-2 schedule. A fill-in answer that is only wrong in its capital
+// letters still counts, unless capital letters are what the card practises.
+export const gradeAnswer = (card: MistakeCard, item: ReviewItem, answer: string): ReviewQuality => {
+  if (item.kind === 'chooseSentence') return answer === item.answer ? 4 : 1;
+  const given = normalise(answer);
+  if (given === item.answer) return 5;
+  if (card.category !== 'capitalisation' && given.toLowerCase() === item.answer.toLowerCase()) return 4;
+  return 1;
+};
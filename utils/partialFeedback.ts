@@ -0,0 +1,39 @@
+// prettier-ignore
+import { VocabularyItem, WritingFeedback } from '../types';
+
+// Shapes a partly streamed writing response (see partialJson.ts) so FeedbackDisplay can show
+// each section as soon as it arrives. Missing sections come out empty; scores hold only the
+// categories received so far. The final response is validated as usual once complete.
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const textOf = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const textsOf = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+// A vocabulary item is shown once its last field has started, so its label is never half-written.
+const vocabularyOf = (value: unknown): VocabularyItem[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is VocabularyItem => isRecord(item) && typeof item.example === 'string')
+    : [];
+
+export const toPartialWritingFeedback = (value: unknown): WritingFeedback => {
+  const partial = isRecord(value) ? value : {};
+  const scores = isRecord(partial.scores)
+    ? Object.fromEntries(Object.entries(partial.scores).filter(([, score]) => typeof score === 'number'))
+    : {};
+  return {
+    introMessage: textOf(partial.introMessage),
+    correctedSentence: textOf(partial.correctedSentence),
+    explanation: textOf(partial.explanation),
+    edits: [], // Only meaningful once every edit has arrived
+    scores: scores as unknown as WritingFeedback['scores'],
+    suggestions: textsOf(partial.suggestions),
+    introMessageVi: textOf(partial.introMessageVi) || undefined,
+    explanationVi: textOf(partial.explanationVi) || undefined,
+    suggestionsVi: Array.isArray(partial.suggestionsVi) ? textsOf(partial.suggestionsVi) : undefined,
+    vocabularyItems: vocabularyOf(partial.vocabularyItems),
+  };
+};
@@ -0,0 +1,86 @@
+// prettier-ignore
+
+// Parses the prefix of a JSON document that is still streaming in, e.g.
+// '{"introMessage": "Good try! Let\'s' -> { introMessage: "Good try! Let's" }.
+// A string value that has started is included as far as it goes; keys, numbers and
+// true/false/null are only included once complete, so a score of "8.7" never shows as "8".
+// Returns undefined while nothing usable has arrived.
+
+interface Container {
+  closer: '}' | ']';
+  expectingKey: boolean; // Objects only: the next string is a key
+}
+
+const closersFor = (stack: Container[]): string => stack.map(container => container.closer).reverse().join('');
+
+export const parsePartialJson = (text: string): unknown => {
+  const stack: Container[] = [];
+  // The longest prefix that ends on a complete value, and what closes its open containers.
+  let safeEnd = 0;
+  let safeClosers = '';
+  let inString = false;
+  let stringIsKey = false;
+  let escaped = false;
+  let unicodeDigits = 0; // Hex digits still expected after "\u"
+  let escapeStart = -1;
+
+  const markSafe = (end: number) => {
+    safeEnd = end;
+    safeClosers = closersFor(stack);
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (unicodeDigits > 0) {
+        unicodeDigits--;
+      } else if (escaped) {
+        escaped = false;
+        if (char === 'u') unicodeDigits = 4;
+      } else if (char === '\\') {
+        escaped = true;
+        escapeStart = i;
+      } else if (char === '"') {
+        inString = false;
+        if (!stringIsKey) markSafe(i + 1);
+      }
+      continue;
+    }
+
+    const top = stack[stack.length - 1];
+    if (/\s/.test(char)) continue;
+    if (char === '{' || char === '[') {
+      stack.push({ closer: char === '{' ? '}' : ']', expectingKey: char === '{' });
+      markSafe(i + 1);
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      markSafe(i + 1);
+    } else if (char === '"') {
+      inString = true;
+      stringIsKey = Boolean(top && top.closer === '}' && top.expectingKey);
+    } else if (char === ':') {
+      if (top) top.expectingKey = false;
+    } else if (char === ',') {
+      if (top && top.closer === '}') top.expectingKey = true;
+    } else {
+      // A number or literal: complete only once something follows it.
+      let end = i;
+      while (end < text.length && !/[\s,\]}]/.test(text[end])) end++;
+      if (end < text.length) markSafe(end);
+      i = end - 1;
+    }
+  }
+
+  let candidate = text.slice(0, safeEnd) + safeClosers;
+  if (inString && !stringIsKey) {
+    // Close the string being streamed, leaving out a half-received escape sequence.
+    const body = escaped || unicodeDigits > 0 ? text.slice(0, escapeStart) : text;
+    candidate = `${body}"${closersFor(stack)}`;
+  }
+  if (!candidate) return undefined;
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,65 @@
+// prettier-ignore
+import { describe, it, expect } from 'vitest';
+import { createResampler, floatTo16BitPcm, bytesToBase64, base64ToBytes } from './pcm';
+
+// A sine wave at 440 Hz, long enough to span many worklet-sized chunks.
+const tone = (sampleRate: number, seconds: number): Float32Array =>
+  Float32Array.from({ length: Math.round(sampleRate * seconds) }, (_, i) => Math.sin((2 * Math.PI * 440 * i) / sampleRate));
+
+const resampleInChunks = (fromRate: number, toRate: number, input: Float32Array, chunkSizes: number[]): Float32Array => {
+  const resample = createResampler(fromRate, toRate);
+  const output: number[] = [];
+  let start = 0;
+  for (let i = 0; start < input.length; i++) {
+    const size = chunkSizes[i % chunkSizes.length];
+    output.push(...resample(input.subarray(start, start + size)));
+    start += size;
+  }
+  return Float32Array.from(output);
+};
+
+describe('createResampler', () => {
+  it('turns one second at 48 kHz into one second at 16 kHz', () => {
+    expect(resampleInChunks(48000, 16000, tone(48000, 1), [128])).toHaveLength(16000);
+  });
+
+  it('turns one second at 44.1 kHz into one second at 16 kHz, give or take a carried sample', () => {
+    const length = resampleInChunks(44100, 16000, tone(44100, 1), [128]).length;
+    expect(Math.abs(length - 16000)).toBeLessThanOrEqual(1);
+  });
+
+  it('carries the fractional position across chunk boundaries', () => {
+    const input = tone(44100, 0.25);
+    const whole = createResampler(44100, 16000)(input);
+    const chunked = resampleInChunks(44100, 16000, input, [128, 77, 3, 500]);
+    expect(chunked).toHaveLength(whole.length);
+    chunked.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 6));
+  });
+
+  it('carries the position when upsampling too', () => {
+    const input = tone(16000, 0.25);
+    const whole = createResampler(16000, 24000)(input);
+    const chunked = resampleInChunks(16000, 24000, input, [160, 33, 1]);
+    expect(chunked).toHaveLength(whole.length);
+    chunked.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 6));
+  });
+
+  it('rejects sample rates that are not positive', () => {
+    expect(() => createResampler(0, 16000)).toThrow('Invalid sample rates');
+  });
+});
+
+describe('floatTo16BitPcm', () => {
+  it('clamps samples outside [-1, 1] instead of letting them wrap around', () => {
+    expect(Array.from(floatTo16BitPcm(Float32Array.from([1.5, -3, 1, -1, 0, 0.5, NaN])))).toEqual([32767, -32768, 32767, -32768, 0, 16383, 0]);
+  });
+});
+
+describe('bytesToBase64', () => {
+  it('encodes buffers larger than one 32 KB slice', () => {
+    const bytes = Uint8Array.from({ length: 0x8000 * 3 + 5 }, (_, i) => (i * 31) % 256);
+    const base64 = bytesToBase64(bytes);
+    expect(base64).toBe(Buffer.from(bytes).toString('base64'));
+    expect(base64ToBytes(base64)).toEqual(bytes);
+  });
+});
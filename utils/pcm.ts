@@ -0,0 +1,109 @@
+// prettier-ignore
+// Conversions between Web Audio float samples and the 16-bit PCM the Live API streams.
+// Everything here works on plain typed arrays, with no AudioContext involved.
+
+export const LIVE_INPUT_SAMPLE_RATE = 16000;
+export const LIVE_OUTPUT_SAMPLE_RATE = 24000;
+
+// Float samples can overshoot [-1, 1] (loud voices, gain on some devices). Without clamping
+// they wrap around when stored as Int16, which is heard as loud crackles.
+export const floatTo16BitPcm = (samples: Float32Array): Int16Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Number.isFinite(samples[i]) ? Math.max(-1, Math.min(1, samples[i])) : 0;
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return pcm;
+};
+
+export const pcm16ToFloat = (pcm: Int16Array): Float32Array => {
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    samples[i] = pcm[i] / 0x8000;
+  }
+  return samples;
+};
+
+// Reads little-endian Int16 samples from raw bytes, whatever their offset in the buffer.
+export const bytesToPcm16 = (bytes: Uint8Array): Int16Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const pcm = new Int16Array(Math.floor(bytes.byteLength / 2));
+  for (let i = 0; i < pcm.length; i++) {
+    pcm[i] = view.getInt16(i * 2, true);
+  }
+  return pcm;
+};
+
+export const pcm16ToBytes = (pcm: Int16Array): Uint8Array =>
+  new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+
+// Spreading a whole buffer into String.fromCharCode overflows the call stack on long
+// chunks, so the bytes are converted in slices.
+const BASE64_SLICE_BYTES = 0x8000;
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let start = 0; start < bytes.length; start += BASE64_SLICE_BYTES) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(start, start + BASE64_SLICE_BYTES)));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Streaming resampler: call it with consecutive chunks and it returns the resampled audio
+// for each, carrying the leftover samples and fractional position across chunk boundaries
+// so there are no clicks between chunks. Downsampling averages the input samples that fall
+// into each output sample (a simple anti-aliasing filter); upsampling interpolates linearly.
+// `position` builds up rounding error, so one that is a hair below a whole sample counts as
+// that sample. Otherwise where a window starts would depend on how the audio was chunked.
+const POSITION_EPSILON = 1e-9;
+const sampleIndex = (position: number): number => Math.floor(position + POSITION_EPSILON);
+
+export const createResampler = (fromRate: number, toRate: number): ((chunk: Float32Array) => Float32Array) => {
+  if (fromRate <= 0 || toRate <= 0) {
+    throw new Error(`Invalid sample rates for resampling: ${fromRate} -> ${toRate}`);
+  }
+  const step = fromRate / toRate; // Input samples per output sample
+  let carry = new Float32Array(0);
+  let position = 0;
+
+  return (chunk: Float32Array): Float32Array => {
+    if (step === 1) return chunk.slice();
+
+    const input = new Float32Array(carry.length + chunk.length);
+    input.set(carry);
+    input.set(chunk, carry.length);
+    const output: number[] = [];
+
+    if (step > 1) {
+      while (sampleIndex(position + step) <= input.length) {
+        const start = sampleIndex(position);
+        const end = sampleIndex(position + step);
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += input[i];
+        output.push(end > start ? sum / (end - start) : input[start]);
+        position += step;
+      }
+    } else {
+      while (sampleIndex(position) + 1 < input.length) {
+        const index = sampleIndex(position);
+        const fraction = Math.max(0, position - index);
+        output.push(input[index] + (input[index + 1] - input[index]) * fraction);
+        position += step;
+      }
+    }
+
+    const consumed = Math.min(sampleIndex(position), input.length);
+    carry = input.slice(consumed);
+    position -= consumed;
+    return Float32Array.from(output);
+  };
+};
@@ -0,0 +1,99 @@
+// prettier-ignore
+import { EvaluationRecord, EvaluationType, WritingFeedback, SpeakingFeedback } from '../types';
+
+// Aggregations over saved evaluations used by the progress dashboard.
+
+export const WRITING_SCORE_KEYS: (keyof WritingFeedback['scores'])[] =
+  ['grammar', 'vocabulary', 'sentenceStructure', 'overallWritingQuality'];
+export const SPEAKING_SCORE_KEYS: (keyof SpeakingFeedback['scores'])[] =
+  ['pronunciation', 'fluency', 'confidence', 'overallSpeakingQuality'];
+
+export const scoreKeysFor = (type: EvaluationType): string[] =>
+  type === 'writing' ? WRITING_SCORE_KEYS : SPEAKING_SCORE_KEYS;
+
+export const overallKeyFor = (type: EvaluationType): string =>
+  type === 'writing' ? 'overallWritingQuality' : 'overallSpeakingQuality';
+
+// "overallWritingQuality" -> "Overall Writing Quality", matching FeedbackDisplay.
+export const formatScoreLabel = (key: string): string =>
+  key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
+
+export const scoresOf = (record: EvaluationRecord): Record<string, number> =>
+  record.feedback.scores as unknown as Record<string, number>;
+
+export interface WeeklyAverage {
+  weekStart: number; // Monday 00:00 local time
+  average: number;
+  count: number;
+}
+
+export interface SessionExtreme {
+  record: EvaluationRecord;
+  score: number;
+}
+
+export interface ImprovementCallout {
+  category: string;
+  from: number;
+  to: number;
+  change: number;
+}
+
+const average = (values: number[]): number =>
+  values.length ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : 0;
+
+export const startOfWeek = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  date.setDate(date.getDate() - daysSinceMonday);
+  return date.getTime();
+};
+
+// Oldest week first. Weeks without any practice are skipped.
+export const weeklyAverages = (records: EvaluationRecord[], category: string): WeeklyAverage[] => {
+  const buckets = new Map<number, number[]>();
+  for (const record of records) {
+    const value = scoresOf(record)[category];
+    if (typeof value !== 'number') continue;
+    const week = startOfWeek(record.createdAt);
+    const bucket = buckets.get(week) ?? [];
+    bucket.push(value);
+    buckets.set(week, bucket);
+  }
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([weekStart, values]) => ({ weekStart, average: average(values), count: values.length }));
+};
+
+export const bestAndWorstSessions = (
+  records: EvaluationRecord[],
+  category: string
+): { best: SessionExtreme | null; worst: SessionExtreme | null } => {
+  let best: SessionExtreme | null = null;
+  let worst: SessionExtreme | null = null;
+  for (const record of records) {
+    const score = scoresOf(record)[category];
+    if (typeof score !== 'number') continue;
+    if (!best || score > best.score) best = { record, score };
+    if (!worst || score < worst.score) worst = { record, score };
+  }
+  return { best, worst };
+};
+
+// Compares the first and the latest week with practice for every category and returns the
+// one that went up the most, or null if nothing improved (or there is only one week).
+export const mostImproved = (records: EvaluationRecord[], categories: string[]): ImprovementCallout | null => {
+  let winner: ImprovementCallout | null = null;
+  for (const category of categories) {
+    const weeks = weeklyAverages(records, category);
+    if (weeks.length < 2) continue;
+    const from = weeks[0].average;
+    const to = weeks[weeks.length - 1].average;
+    const change = Math.round((to - from) * 10) / 10;
+    if (change > 0 && (!winner || change > winner.change)) {
+      winner = { category, from, to, change };
+    }
+  }
+  return winner;
+};
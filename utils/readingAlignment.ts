@@ -0,0 +1,82 @@
+// prettier-ignore
+import { ReadingWord, ReadingResult } from '../types';
+
+// Aligns what the transcription heard against the passage, word by word, with an edit
+// distance over words. The end of the passage is free to leave out, so a student who is
+// still reading (or stopped early) is not marked as having skipped everything after.
+
+const normalise = (word: string): string => word.toLowerCase().replace(/[’‘]/g, "'").replace(/[^\p{L}\p{N}']/gu, '');
+
+// The passage keeps its original spelling and punctuation for display.
+export const splitReadingWords = (text: string): string[] =>
+  text.split(/\s+/).filter(word => normalise(word));
+
+export const alignReading = (passage: string, spoken: string): ReadingWord[] => {
+  const reference = splitReadingWords(passage);
+  const heard = splitReadingWords(spoken);
+  const ref = reference.map(normalise);
+  const hyp = heard.map(normalise);
+
+  // cost[i][j]: cheapest alignment of the first i heard words with the first j passage words.
+  const cost: number[][] = Array.from({ length: hyp.length + 1 }, (_, i) =>
+    Array.from({ length: ref.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= hyp.length; i++) {
+    for (let j = 1; j <= ref.length; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + (hyp[i - 1] === ref[j - 1] ? 0 : 1),
+        cost[i - 1][j] + 1, // Inserted
+        cost[i][j - 1] + 1  // Skipped
+      );
+    }
+  }
+
+  // Where the reading stopped: the cheapest end point, preferring the furthest one.
+  let end = 0;
+  for (let j = 1; j <= ref.length; j++) {
+    if (cost[hyp.length][j] <= cost[hyp.length][end]) end = j;
+  }
+
+  const aligned: ReadingWord[] = [];
+  let i = hyp.length;
+  let j = end;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (hyp[i - 1] === ref[j - 1] ? 0 : 1)) {
+      const status = hyp[i - 1] === ref[j - 1] ? 'correct' : 'substituted';
+      aligned.push({ reference: reference[j - 1], spoken: heard[i - 1], status });
+      i--;
+      j--;
+    } else if (j > 0 && cost[i][j] === cost[i][j - 1] + 1) {
+      aligned.push({ reference: reference[j - 1], spoken: null, status: 'skipped' });
+      j--;
+    } else {
+      aligned.push({ reference: null, spoken: heard[i - 1], status: 'inserted' });
+      i--;
+    }
+  }
+  aligned.reverse();
+
+  // Words after the stopping point have not been read (yet); they do not count against accuracy.
+  for (const word of reference.slice(end)) {
+    aligned.push({ reference: word, spoken: null, status: 'pending' });
+  }
+  return aligned;
+};
+
+export const scoreReading = (
+  words: ReadingWord[],
+  durationSeconds: number,
+  passageId: string | null
+): ReadingResult => {
+  const correctCount = words.filter(word => word.status === 'correct').length;
+  const attemptedCount = words.filter(word => word.reference !== null && word.status !== 'pending').length;
+  return {
+    passageId,
+    words,
+    correctCount,
+    attemptedCount,
+    accuracy: attemptedCount > 0 ? Math.round((correctCount / attemptedCount) * 100) : 0,
+    wordsCorrectPerMinute: durationSeconds > 0 ? Math.round((correctCount / durationSeconds) * 60) : 0,
+    durationSeconds: Math.round(durationSeconds),
+  };
+};
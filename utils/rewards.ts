@@ -0,0 +1,137 @@
+// prettier-ignore
+import { RewardRules, RewardState, RewardEvent, BadgeMetric, EvaluationType, WritingFeedback, SpeakingFeedback, SessionReport } from '../types';
+import { overallKeyFor } from './progressStats';
+
+// XP, daily streaks and badges. Everything here is pure: it takes the saved state and the
+// rules and returns the new state plus what was earned, so the rules can be tuned freely.
+
+const PERFECT_SCORE = 10;
+
+// Local calendar day, so a streak follows the student's own midnight.
+export const dayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const previousDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() - 1);
+  return dayKey(date.getTime());
+};
+
+export const emptyRewardState = (profileId: string): RewardState => ({
+  profileId,
+  xp: 0,
+  currentStreak: 0,
+  longestStreak: 0,
+  lastPracticeDay: null,
+  perfectGrammarCount: 0,
+  evaluationCount: 0,
+  longestConversationSeconds: 0,
+  recentScores: { writing: [], speaking: [] },
+  badges: [],
+});
+
+export const levelForXp = (xp: number, rules: RewardRules): number => Math.floor(xp / rules.xp.perLevel) + 1;
+
+// The saved streak only changes when the student practises, so one that was not kept up
+// yesterday is shown as 0.
+export const activeStreak = (state: RewardState, now: number): number =>
+  state.lastPracticeDay === dayKey(now) || state.lastPracticeDay === previousDayKey(now) ? state.currentStreak : 0;
+
+const metricValue = (state: RewardState, metric: BadgeMetric): number => {
+  switch (metric) {
+    case 'perfectGrammar': return state.perfectGrammarCount;
+    case 'evaluations': return state.evaluationCount;
+    case 'streakDays': return state.longestStreak;
+    case 'conversationMinutes': return state.longestConversationSeconds / 60;
+    case 'xp': return state.xp;
+  }
+};
+
+// Adds the XP and any badges now reached, and describes what changed.
+const finishReward = (
+  before: RewardState,
+  after: RewardState,
+  rules: RewardRules,
+  xpEarned: number,
+  improvementBonus: number,
+  now: number
+): { state: RewardState; reward: RewardEvent } => {
+  const state = { ...after, xp: before.xp + xpEarned };
+  const earned = new Set(state.badges.map(badge => badge.id));
+  const newBadges = rules.badges.filter(badge => !earned.has(badge.id) && metricValue(state, badge.metric) >= badge.threshold);
+  state.badges = [...state.badges, ...newBadges.map(badge => ({ id: badge.id, earnedAt: now }))];
+
+  const levelBefore = levelForXp(before.xp, rules);
+  const levelAfter = levelForXp(state.xp, rules);
+  return {
+    state,
+    reward: {
+      xpEarned,
+      improvementBonus,
+      streak: state.currentStreak,
+      streakExtended: state.lastPracticeDay !== before.lastPracticeDay,
+      newBadges,
+      levelUp: levelAfter > levelBefore ? levelAfter : null,
+    },
+  };
+};
+
+const practisedOn = (state: RewardState, now: number): RewardState => {
+  const today = dayKey(now);
+  if (state.lastPracticeDay === today) return state;
+  const currentStreak = state.lastPracticeDay === previousDayKey(now) ? state.currentStreak + 1 : 1;
+  return {
+    ...state,
+    currentStreak,
+    longestStreak: Math.max(state.longestStreak, currentStreak),
+    lastPracticeDay: today,
+  };
+};
+
+// XP for one piece of feedback: a flat amount, plus the overall quality score, plus a bonus
+// for beating the student's own recent average for the same kind of practice.
+export const rewardFeedback = (
+  state: RewardState,
+  type: EvaluationType,
+  feedback: WritingFeedback | SpeakingFeedback,
+  rules: RewardRules,
+  now: number = Date.now()
+): { state: RewardState; reward: RewardEvent } => {
+  const overall = (feedback.scores as unknown as Record<string, number>)[overallKeyFor(type)] ?? 0;
+  const recent = state.recentScores[type];
+  const average = recent.length ? recent.reduce((sum, score) => sum + score, 0) / recent.length : null;
+  const improvementBonus = average === null
+    ? 0
+    : Math.min(rules.xp.maxImprovementBonus, Math.max(0, Math.round((overall - average) * rules.xp.perImprovementPoint)));
+  const xpEarned = Math.round(rules.xp.perFeedback + overall * rules.xp.perOverallPoint) + improvementBonus;
+
+  const perfectGrammar = type === 'writing' && (feedback as WritingFeedback).scores.grammar >= PERFECT_SCORE;
+  const updated: RewardState = {
+    ...practisedOn(state, now),
+    evaluationCount: state.evaluationCount + 1,
+    perfectGrammarCount: state.perfectGrammarCount + (perfectGrammar ? 1 : 0),
+    recentScores: { ...state.recentScores, [type]: [...recent, overall].slice(-rules.xp.averageOf) },
+  };
+  return finishReward(state, updated, rules, xpEarned, improvementBonus, now);
+};
+
+// XP for the length of a live conversation, given when the session ends.
+export const rewardConversation = (
+  state: RewardState,
+  report: SessionReport,
+  rules: RewardRules,
+  now: number = Date.now()
+): { state: RewardState; reward: RewardEvent } => {
+  const seconds = Math.max(0, (report.endedAt - report.startedAt) / 1000);
+  const updated: RewardState = {
+    ...practisedOn(state, now),
+    longestConversationSeconds: Math.max(state.longestConversationSeconds, seconds),
+  };
+  return finishReward(state, updated, rules, Math.floor(seconds / 60) * rules.xp.perConversationMinute, 0, now);
+};
+
+// Worth celebrating: anything beyond the XP every piece of feedback earns.
+export const isMilestone = (reward: RewardEvent): boolean =>
+  reward.newBadges.length > 0 || reward.levelUp !== null || reward.streakExtended || reward.improvementBonus > 0;
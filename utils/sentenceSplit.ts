@@ -0,0 +1,72 @@
+// prettier-ignore
+import { SentenceFeedback } from '../types';
+
+// Splits an essay into paragraphs and sentences on the device, so every sentence has a
+// stable id ("2.3" = paragraph 2, sentence 3) that the model's feedback can refer to.
+
+export interface EssaySentence {
+  id: string;
+  paragraph: number; // 1-based
+  text: string;
+}
+
+// Words whose trailing full stop does not end a sentence.
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'st', 'e.g', 'i.e', 'etc', 'vs', 'p.m', 'a.m']);
+
+const splitSentences = (paragraph: string): string[] => {
+  const sentences: string[] = [];
+  let start = 0;
+  const pattern = /[.!?]+["'”’)]*(?=\s+|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(paragraph)) !== null) {
+    const end = match.index + match[0].length;
+    const before = paragraph.slice(start, match.index);
+    const lastWord = before.split(/\s+/).pop()?.toLowerCase() ?? '';
+    if (match[0] === '.' && ABBREVIATIONS.has(lastWord)) continue;
+    const sentence = paragraph.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+  const rest = paragraph.slice(start).trim();
+  if (rest) sentences.push(rest);
+  return sentences;
+};
+
+export const splitEssay = (text: string): EssaySentence[] =>
+  text
+    .split(/\n\s*\n|\r\n\s*\r\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap((paragraph, paragraphIndex) =>
+      splitSentences(paragraph).map((sentence, sentenceIndex) => ({
+        id: `${paragraphIndex + 1}.${sentenceIndex + 1}`,
+        paragraph: paragraphIndex + 1,
+        text: sentence,
+      }))
+    );
+
+// "[1.1] First sentence." lines for the prompt.
+export const formatNumberedEssay = (sentences: EssaySentence[]): string =>
+  sentences.map(sentence => `[${sentence.id}] ${sentence.text}`).join('\n');
+
+// What the essay schema asks the model for per sentence: the original text is never sent back.
+export type ModelSentenceFeedback = Pick<SentenceFeedback, 'id' | 'corrected' | 'explanation'>;
+
+// Pairs the local sentences with the model's per-sentence feedback by id. Sentences the
+// model skipped are treated as correct, so every sentence the student wrote is shown.
+export const alignSentenceFeedback = (
+  sentences: EssaySentence[],
+  fromModel: ModelSentenceFeedback[]
+): SentenceFeedback[] => {
+  const byId = new Map(fromModel.map(entry => [entry.id.replace(/[[\]\s]/g, ''), entry]));
+  return sentences.map(sentence => {
+    const entry = byId.get(sentence.id);
+    return {
+      id: sentence.id,
+      paragraph: sentence.paragraph,
+      original: sentence.text,
+      corrected: entry?.corrected?.trim() || sentence.text,
+      explanation: entry?.explanation ?? '',
+    };
+  });
+};
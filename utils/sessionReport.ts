@@ -0,0 +1,138 @@
+// prettier-ignore
+import { ConversationTurn, SessionReport, SpeakingFeedback, LearnerLevelId, RolePlayScenario, RolePlayOutcome } from '../types';
+import { SPEAKING_SCORE_KEYS, formatScoreLabel } from './progressStats';
+import { createId } from './id';
+import { findTargetPhrases } from './taskChecks';
+
+// Builds the end-of-session report for a live speaking session.
+
+const MAX_RECURRING_PROBLEMS = 3;
+
+// Tips are free text, so similar advice is grouped by the sounds or words it quotes
+// (e.g. the "th" in 'Say the "th" sound...'), falling back to the whole tip.
+const problemKeys = (tip: string): string[] => {
+  const quoted = [...tip.matchAll(/["“']([^"”']{1,20})["”']/g)].map(match => match[1].toLowerCase().trim());
+  return quoted.length ? quoted.map(sound => `"${sound}"`) : [tip.toLowerCase().replace(/[^\p{L}\s]/gu, '').trim()];
+};
+
+export const findRecurringProblems = (turns: ConversationTurn[]): { problem: string; count: number }[] => {
+  const counts = new Map<string, { problem: string; turns: Set<string> }>();
+  for (const turn of turns) {
+    for (const tip of turn.feedback?.pronunciationTips ?? []) {
+      for (const key of problemKeys(tip)) {
+        const entry = counts.get(key) ?? { problem: tip, turns: new Set<string>() };
+        entry.turns.add(turn.id);
+        counts.set(key, entry);
+      }
+    }
+  }
+  // Only problems that came up in more than one turn count as recurring.
+  const recurring: { problem: string; count: number }[] = [];
+  const entries = [...counts.values()]
+    .filter(entry => entry.turns.size > 1)
+    .sort((a, b) => b.turns.size - a.turns.size);
+  for (const entry of entries) {
+    if (recurring.length === MAX_RECURRING_PROBLEMS) break;
+    if (!recurring.some(item => item.problem === entry.problem)) {
+      recurring.push({ problem: entry.problem, count: entry.turns.size });
+    }
+  }
+  return recurring;
+};
+
+export const averageSpeakingScores = (turns: ConversationTurn[]): SpeakingFeedback['scores'] | null => {
+  const scored = turns.filter(turn => turn.feedback);
+  if (scored.length === 0) return null;
+  const average = (key: keyof SpeakingFeedback['scores']) =>
+    Math.round((scored.reduce((sum, turn) => sum + turn.feedback!.scores[key], 0) / scored.length) * 10) / 10;
+  return {
+    pronunciation: average('pronunciation'),
+    fluency: average('fluency'),
+    confidence: average('confidence'),
+    overallSpeakingQuality: average('overallSpeakingQuality'),
+  };
+};
+
+export const findBestSentence = (turns: ConversationTurn[]): { text: string; score: number } | null => {
+  let best: { text: string; score: number } | null = null;
+  for (const turn of turns) {
+    const score = turn.feedback?.scores.overallSpeakingQuality;
+    if (score === undefined || !turn.student.trim()) continue;
+    if (!best || score > best.score) best = { text: turn.student, score };
+  }
+  return best;
+};
+
+// The coach is told to say `goalReachedPhrase` once the goal is met (see rolePlayScenarios.ts).
+export const assessRolePlay = (
+  turns: ConversationTurn[],
+  scenario: RolePlayScenario,
+  goalReachedPhrase: string
+): RolePlayOutcome => {
+  const marker = goalReachedPhrase.toLowerCase().replace(/[^\p{L}\s]/gu, '').trim();
+  const { used, missed } = findTargetPhrases(scenario.targetPhrases, turns.map(turn => turn.student).join('\n'));
+  return {
+    scenarioId: scenario.id,
+    title: scenario.title,
+    goal: scenario.goal,
+    goalReached: turns.some(turn => turn.coach.toLowerCase().replace(/[^\p{L}\s]/gu, '').includes(marker)),
+    targetPhrasesUsed: used,
+    targetPhrasesMissed: missed,
+  };
+};
+
+export const buildSessionReport = (
+  turns: ConversationTurn[],
+  details: { id?: string; profileId: string | null; level?: LearnerLevelId; startedAt: number; rolePlay?: RolePlayOutcome }
+): SessionReport => ({
+  id: details.id ?? createId(),
+  profileId: details.profileId,
+  level: details.level,
+  startedAt: details.startedAt,
+  endedAt: Date.now(),
+  turns,
+  averageScores: averageSpeakingScores(turns),
+  recurringProblems: findRecurringProblems(turns),
+  bestSentence: findBestSentence(turns),
+  rolePlay: details.rolePlay,
+});
+
+// Plain-text version for sharing with parents or pasting into a report.
+export const formatSessionReportText = (report: SessionReport, studentName?: string): string => {
+  const lines: string[] = [
+    `English Coach speaking session${studentName ? ` - ${studentName}` : ''}`,
+    `${new Date(report.startedAt).toLocaleString()} (${Math.max(1, Math.round((report.endedAt - report.startedAt) / 60000))} min, ${report.turns.length} turns)`,
+    '',
+  ];
+  if (report.rolePlay) {
+    lines.push(
+      `Role-play: ${report.rolePlay.title}`,
+      `  Goal: ${report.rolePlay.goal} - ${report.rolePlay.goalReached ? 'reached' : 'not reached yet'}`,
+      `  Target phrases used: ${report.rolePlay.targetPhrasesUsed.join(', ') || 'none'}`,
+      `  Still to try: ${report.rolePlay.targetPhrasesMissed.join(', ') || 'none'}`,
+      ''
+    );
+  }
+  if (report.averageScores) {
+    lines.push('Average scores:');
+    for (const key of SPEAKING_SCORE_KEYS) {
+      lines.push(`  ${formatScoreLabel(key)}: ${report.averageScores[key]}/10`);
+    }
+    lines.push('');
+  }
+  if (report.bestSentence) {
+    lines.push(`Best sentence (${report.bestSentence.score}/10): "${report.bestSentence.text}"`, '');
+  }
+  if (report.recurringProblems.length) {
+    lines.push('Things to practise:');
+    report.recurringProblems.forEach(({ problem, count }) => lines.push(`  - ${problem} (${count} turns)`));
+    lines.push('');
+  }
+  lines.push('Transcript:');
+  for (const turn of report.turns) {
+    const score = turn.feedback ? ` [${turn.feedback.scores.overallSpeakingQuality}/10]` : '';
+    lines.push(`  You: ${turn.student}${score}`);
+    if (turn.coach) lines.push(`  Coach: ${turn.coach}`);
+  }
+  return lines.join('\n');
+};
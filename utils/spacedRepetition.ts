@@ -0,0 +1,37 @@
+// prettier-ignore
+import { MistakeCard } from '../types';
+
+// The SM-2 schedule: each review is graded 0-5; a correct answer (3 or more) pushes the
+// next review further out, a wrong one starts the card again from tomorrow.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+export const INITIAL_EASE_FACTOR = 2.5;
+
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const reviewCard = (card: MistakeCard, quality: ReviewQuality, now: number = Date.now()): MistakeCard => {
+  const passed = quality >= 3;
+  const repetitions = passed ? card.repetitions + 1 : 0;
+  const intervalDays = !passed || repetitions === 1
+    ? 1
+    : repetitions === 2
+    ? 6
+    : Math.round(card.intervalDays * card.easeFactor);
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+  return {
+    ...card,
+    repetitions,
+    intervalDays,
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    dueAt: now + intervalDays * DAY_MS,
+    lastReviewedAt: now,
+  };
+};
+
+// Most overdue first.
+export const dueCards = (cards: MistakeCard[], now: number = Date.now()): MistakeCard[] =>
+  cards.filter(card => card.dueAt <= now).sort((a, b) => a.dueAt - b.dueAt);
@@ -0,0 +1,60 @@
+// prettier-ignore
+import { WritingTask, TaskAchievement } from '../types';
+
+// The parts of task achievement that can be checked exactly on the device: word count and
+// which target words appear. Judgement calls (topic, tense) come from the model.
+
+export const countWords = (text: string): number =>
+  text.trim().split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Accepts simple inflections so "play" also matches "plays", "played" and "playing".
+const targetPattern = (target: string): RegExp => {
+  const words = target.trim().toLowerCase().split(/\s+/).map(escapeRegExp);
+  const last = words.pop() ?? '';
+  const stem = last.endsWith('e') ? last.slice(0, -1) : last;
+  const lastPattern = `(?:${last}|${stem}(?:s|es|ed|d|ing))`;
+  return new RegExp(`(?<![\\p{L}])${[...words, lastPattern].join('\\s+')}(?![\\p{L}])`, 'iu');
+};
+
+// Also used for the target phrases of speaking role-plays.
+export const findTargetPhrases = (targets: string[], text: string): { used: string[]; missed: string[] } => {
+  const used: string[] = [];
+  const missed: string[] = [];
+  for (const target of targets) {
+    (targetPattern(target).test(text) ? used : missed).push(target);
+  }
+  return { used, missed };
+};
+
+export const findTargetWords = (task: WritingTask, text: string): { used: string[]; missed: string[] } =>
+  findTargetPhrases(task.targetVocabulary, text);
+
+// Combines the exact local checks with the model's judgement (if any) into one result.
+export const buildTaskAchievement = (
+  task: WritingTask,
+  text: string,
+  fromModel?: Partial<TaskAchievement>
+): TaskAchievement => {
+  const { used, missed } = findTargetWords(task, text);
+  const wordCount = countWords(text);
+  const meetsWordCount = wordCount >= task.minWords;
+  const onTopic = fromModel?.onTopic ?? true;
+  const usedExpectedTense = fromModel?.usedExpectedTense ?? true;
+
+  // Without a model score, weigh topic, vocabulary, length and tense equally.
+  const vocabularyShare = task.targetVocabulary.length ? used.length / task.targetVocabulary.length : 1;
+  const localScore = (Number(onTopic) + vocabularyShare + Number(meetsWordCount) + Number(usedExpectedTense)) * 2.5;
+
+  return {
+    score: Math.round((fromModel?.score ?? localScore) * 10) / 10,
+    onTopic,
+    usedExpectedTense,
+    targetWordsUsed: used,
+    targetWordsMissed: missed,
+    wordCount,
+    meetsWordCount,
+    comment: fromModel?.comment ?? '',
+  };
+};
@@ -0,0 +1,121 @@
+// prettier-ignore
+import { WritingEdit } from '../types';
+
+// Word- and punctuation-level diff between what the student wrote and the corrected text.
+
+export type DiffKind = 'equal' | 'insert' | 'delete' | 'replace';
+
+export interface DiffSegment {
+  kind: DiffKind;
+  original: string;     // Text from the student's input, with its leading whitespace
+  replacement: string;  // Text from the correction, with its leading whitespace
+}
+
+interface Token {
+  text: string;
+  leading: string; // Whitespace before the token, kept so segments render naturally
+}
+
+// Words (including contractions like "don't") and single punctuation marks.
+const TOKEN_PATTERN = /(\s*)([\p{L}\p{N}]+(?:['’][\p{L}]+)*|[^\s\p{L}\p{N}])/gu;
+
+export const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    tokens.push({ leading: match[1], text: match[2] });
+  }
+  return tokens;
+};
+
+const joinTokens = (tokens: Token[]): string => tokens.map(token => token.leading + token.text).join('');
+
+// Classic LCS table; inputs are a sentence or a short paragraph, so O(n*m) is fine.
+const longestCommonSubsequence = (a: Token[], b: Token[]): number[][] => {
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i].text === b[j].text
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table;
+};
+
+export const diffWords = (original: string, corrected: string): DiffSegment[] => {
+  const a = tokenize(original);
+  const b = tokenize(corrected);
+  const table = longestCommonSubsequence(a, b);
+  const segments: DiffSegment[] = [];
+
+  let i = 0;
+  let j = 0;
+  let pendingDeleted: Token[] = [];
+  let pendingInserted: Token[] = [];
+
+  const flushPending = () => {
+    if (pendingDeleted.length === 0 && pendingInserted.length === 0) return;
+    const kind: DiffKind = pendingDeleted.length && pendingInserted.length
+      ? 'replace'
+      : (pendingDeleted.length ? 'delete' : 'insert');
+    segments.push({ kind, original: joinTokens(pendingDeleted), replacement: joinTokens(pendingInserted) });
+    pendingDeleted = [];
+    pendingInserted = [];
+  };
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i].text === b[j].text) {
+      flushPending();
+      const last = segments[segments.length - 1];
+      const piece = a[i].leading + a[i].text;
+      if (last && last.kind === 'equal') {
+        last.original += piece;
+        last.replacement += b[j].leading + b[j].text;
+      } else {
+        segments.push({ kind: 'equal', original: piece, replacement: b[j].leading + b[j].text });
+      }
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || table[i][j + 1] >= table[i + 1][j])) {
+      pendingInserted.push(b[j]);
+      j++;
+    } else {
+      pendingDeleted.push(a[i]);
+      i++;
+    }
+  }
+  flushPending();
+
+  return segments;
+};
+
+const normalize = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Finds the edit record that explains a changed segment: first by an exact match on the
+// original or replacement text, then by the edit that contains (or is contained in) it.
+export const findEditForSegment = (segment: DiffSegment, edits: WritingEdit[]): number => {
+  if (segment.kind === 'equal') return -1;
+  const original = normalize(segment.original);
+  const replacement = normalize(segment.replacement);
+
+  const exact = edits.findIndex(edit =>
+    (original && normalize(edit.original) === original) ||
+    (replacement && normalize(edit.replacement) === replacement));
+  if (exact !== -1) return exact;
+
+  return edits.findIndex(edit => {
+    const editOriginal = normalize(edit.original);
+    const editReplacement = normalize(edit.replacement);
+    return (original && editOriginal && (editOriginal.includes(original) || original.includes(editOriginal))) ||
+      (replacement && editReplacement && (editReplacement.includes(replacement) || replacement.includes(editReplacement)));
+  });
+};
+
+// The suggestion that mentions an edit's replacement (or original) words, if any.
+export const findSuggestionForEdit = (edit: WritingEdit, suggestions: string[]): number => {
+  const needles = [edit.replacement, edit.original].map(normalize).filter(needle => needle.length > 1);
+  return suggestions.findIndex(suggestion => {
+    const haystack = normalize(suggestion);
+    return needles.some(needle => haystack.includes(needle));
+  });
+};
@@ -0,0 +1,107 @@
+// prettier-ignore
+import { createResampler, pcm16ToFloat, floatTo16BitPcm, bytesToPcm16 } from './pcm';
+
+// Mono 16-bit WAV files for the turn recordings, built from the same PCM the live
+// session streams.
+
+export interface PcmAudio {
+  pcm: Int16Array;
+  sampleRate: number;
+}
+
+const WAV_HEADER_BYTES = 44;
+
+export const encodeWav = ({ pcm, sampleRate }: PcmAudio): Blob => {
+  const buffer = new ArrayBuffer(WAV_HEADER_BYTES + pcm.length * 2);
+  const view = new DataView(buffer);
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length * 2, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);             // fmt chunk size
+  view.setUint16(20, 1, true);              // PCM
+  view.setUint16(22, 1, true);              // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true);              // Block align
+  view.setUint16(34, 16, true);             // Bits per sample
+  writeText(36, 'data');
+  view.setUint32(40, pcm.length * 2, true);
+  for (let i = 0; i < pcm.length; i++) {
+    view.setInt16(WAV_HEADER_BYTES + i * 2, pcm[i], true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+// Reads back the files written by encodeWav (mono 16-bit PCM).
+export const decodeWav = (buffer: ArrayBuffer): PcmAudio => {
+  const view = new DataView(buffer);
+  const readText = (offset: number, length: number) =>
+    String.fromCharCode(...new Uint8Array(buffer, offset, length));
+  if (buffer.byteLength < WAV_HEADER_BYTES || readText(0, 4) !== 'RIFF' || readText(8, 4) !== 'WAVE') {
+    throw new Error('This recording is not a WAV file.');
+  }
+  if (view.getUint16(20, true) !== 1 || view.getUint16(22, true) !== 1 || view.getUint16(34, true) !== 16) {
+    throw new Error('Only mono 16-bit PCM recordings are supported.');
+  }
+  const dataLength = Math.min(view.getUint32(40, true), buffer.byteLength - WAV_HEADER_BYTES);
+  return {
+    pcm: bytesToPcm16(new Uint8Array(buffer, WAV_HEADER_BYTES, dataLength)),
+    sampleRate: view.getUint32(24, true),
+  };
+};
+
+export const concatPcm = (chunks: Int16Array[]): Int16Array => {
+  const pcm = new Int16Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    pcm.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return pcm;
+};
+
+// Cuts the quiet stretches before and after speech, keeping a little padding so words
+// are not clipped. Returns an empty array when the whole recording is silent.
+export const trimSilence = (
+  { pcm, sampleRate }: PcmAudio,
+  threshold = 500,
+  paddingMs = 200
+): Int16Array => {
+  const windowSize = Math.max(1, Math.round(sampleRate / 50)); // 20 ms
+  const isLoud = (start: number) => {
+    let sum = 0;
+    const end = Math.min(pcm.length, start + windowSize);
+    for (let i = start; i < end; i++) sum += pcm[i] * pcm[i];
+    return Math.sqrt(sum / (end - start)) >= threshold;
+  };
+
+  let first = -1;
+  let last = -1;
+  for (let start = 0; start < pcm.length; start += windowSize) {
+    if (isLoud(start)) {
+      if (first < 0) first = start;
+      last = Math.min(pcm.length, start + windowSize);
+    }
+  }
+  if (first < 0) return new Int16Array(0);
+  const padding = Math.round((sampleRate * paddingMs) / 1000);
+  return pcm.slice(Math.max(0, first - padding), Math.min(pcm.length, last + padding));
+};
+
+// Joins several recordings into one at a common rate, with a short pause between them.
+export const joinRecordings = (parts: PcmAudio[], sampleRate: number, gapMs = 500): PcmAudio => {
+  const gap = new Int16Array(Math.round((sampleRate * gapMs) / 1000));
+  const chunks: Int16Array[] = [];
+  parts.forEach((part, index) => {
+    if (index > 0) chunks.push(gap);
+    chunks.push(part.sampleRate === sampleRate
+      ? part.pcm
+      : floatTo16BitPcm(createResampler(part.sampleRate, sampleRate)(pcm16ToFloat(part.pcm))));
+  });
+  return { pcm: concatPcm(chunks), sampleRate };
+};